@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import type { ElementType } from 'react';
-import { BarChart3, TrendingUp, Database, Shield, FileText, Upload, Zap, Users, Target, Mail } from 'lucide-react';
+import { BarChart3, TrendingUp, Database, Shield, FileText, Upload, Zap, Users, Target, Mail, DollarSign, Trophy } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { cn, getSourceConfig, formatDate } from '@/lib/utils';
 
@@ -21,6 +21,20 @@ interface Stats {
   sourceBreakdown: Record<string, number>;
   weeklyTrend: { week: string; count: number }[];
   recentActivity: { action_type: string; description: string; created_at: string }[];
+  spend: Spend;
+}
+
+// Provider spend from the usage ledger views (see supabase-schema.sql)
+interface Spend {
+  last30Days: number;
+  byDay: { day: string; cost: number }[];
+  byProvider: Record<string, number>;
+  bySearch: { search_id: string; niche: string; location: string; calls: number; cost_usd: number }[];
+  closedDeals: { lead_id: string; business_name: string; lead_cost_usd: number; search_share_usd: number; cost_usd: number }[];
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(value < 10 ? 2 : 0)}`;
 }
 
 function StatCard({ icon: Icon, label, value, change, color }: { icon: ElementType; label: string; value: string | number; change?: string; color: string }) {
@@ -62,7 +76,7 @@ export default function AnalyticsPage() {
         const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
         const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
 
-        const [allLeads, weekLeads, monthLeads, audits, deepAudits, pitches, ghlPushed, hotLeads, warmLeads, coldLeads, activity] = await Promise.all([
+        const [allLeads, weekLeads, monthLeads, audits, deepAudits, pitches, ghlPushed, hotLeads, warmLeads, coldLeads, activity, spendDaily, spendSearches, spendDeals] = await Promise.all([
           supabase.from('leads').select('id, source, lead_score', { count: 'exact' }),
           supabase.from('leads').select('id', { count: 'exact' }).gte('created_at', weekAgo),
           supabase.from('leads').select('id', { count: 'exact' }).gte('created_at', monthAgo),
@@ -74,8 +88,20 @@ export default function AnalyticsPage() {
           supabase.from('leads').select('id', { count: 'exact' }).eq('lead_priority', 'warm'),
           supabase.from('leads').select('id', { count: 'exact' }).eq('lead_priority', 'cold'),
           supabase.from('activity_log').select('action_type, description, created_at').order('created_at', { ascending: false }).limit(15),
+          supabase.from('provider_spend_daily').select('day, provider, cost_usd').gte('day', monthAgo.slice(0, 10)).order('day', { ascending: true }),
+          supabase.from('provider_spend_by_search').select('search_id, niche, location, calls, cost_usd').order('cost_usd', { ascending: false }).limit(10),
+          supabase.from('provider_spend_by_closed_deal').select('lead_id, business_name, lead_cost_usd, search_share_usd, cost_usd').order('updated_at', { ascending: false }).limit(20),
         ]);
 
+        // Spend per day and per provider over the last 30 days
+        const costByDay: Record<string, number> = {};
+        const byProvider: Record<string, number> = {};
+        (spendDaily.data || []).forEach((row: Record<string, unknown>) => {
+          const cost = Number(row.cost_usd) || 0;
+          costByDay[row.day as string] = (costByDay[row.day as string] || 0) + cost;
+          byProvider[row.provider as string] = (byProvider[row.provider as string] || 0) + cost;
+        });
+
         // Source breakdown
         const sourceBreakdown: Record<string, number> = {};
         (allLeads.data || []).forEach((l: Record<string, unknown>) => {
@@ -102,6 +128,15 @@ export default function AnalyticsPage() {
           sourceBreakdown,
           weeklyTrend: [],
           recentActivity: (activity.data || []) as Stats['recentActivity'],
+          spend: {
+            last30Days: Object.values(byProvider).reduce((a, b) => a + b, 0),
+            byDay: Object.entries(costByDay).map(([day, cost]) => ({ day, cost })),
+            byProvider,
+            bySearch: (spendSearches.data || []).map(row => ({ ...row, cost_usd: Number(row.cost_usd) || 0 })) as Spend['bySearch'],
+            closedDeals: (spendDeals.data || []).map(row => ({
+              ...row, lead_cost_usd: Number(row.lead_cost_usd) || 0, search_share_usd: Number(row.search_share_usd) || 0, cost_usd: Number(row.cost_usd) || 0,
+            })) as Spend['closedDeals'],
+          },
         });
       } catch (err) { console.error('Failed to fetch analytics:', err); }
       finally { setLoading(false); }
@@ -112,7 +147,7 @@ export default function AnalyticsPage() {
   if (loading) return <div className="flex items-center justify-center min-h-[60vh]"><div className="w-8 h-8 border-2 border-prospex-cyan/30 border-t-prospex-cyan rounded-full animate-spin" /></div>;
   if (!stats) return null;
 
-  const actionIcons: Record<string, string> = { scrape: '🔍', audit: '🛡️', deep_audit: '📊', ghl_push: '📤', export: '💾', score: '⭐', pitch: '📝' };
+  const actionIcons: Record<string, string> = { scrape: '🔍', audit: '🛡️', deep_audit: '📊', ghl_push: '📤', export: '💾', score: '⭐', pitch: '📝', enrich: '🔎' };
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
@@ -171,6 +206,79 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* Provider Spend */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard icon={DollarSign} label="Spend (30 days)" value={formatUsd(stats.spend.last30Days)} color="text-prospex-amber" />
+        <StatCard icon={DollarSign} label="Cost per Lead" value={stats.leadsThisMonth > 0 ? formatUsd(stats.spend.last30Days / stats.leadsThisMonth) : '—'} color="text-prospex-cyan" />
+        <StatCard icon={Trophy} label="Closed Deals" value={stats.spend.closedDeals.length} color="text-prospex-green" />
+        <StatCard icon={Trophy} label="Cost per Deal" value={stats.spend.closedDeals.length > 0 ? formatUsd(stats.spend.closedDeals.reduce((a, d) => a + d.cost_usd, 0) / stats.spend.closedDeals.length) : '—'} color="text-purple-400" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="card p-6">
+          <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-4 flex items-center gap-2"><DollarSign className="w-4 h-4 text-prospex-amber" />Spend per Day</h2>
+          {stats.spend.byDay.length > 0 ? (
+            <div className="flex items-end gap-1 h-32">
+              {stats.spend.byDay.map(({ day, cost }) => {
+                const max = Math.max(...stats.spend.byDay.map(d => d.cost), 0.01);
+                return (
+                  <div key={day} className="flex-1 bg-prospex-amber/50 rounded-t" style={{ height: `${Math.max((cost / max) * 100, 2)}%` }} title={`${day}: ${formatUsd(cost)}`} />
+                );
+              })}
+            </div>
+          ) : <p className="text-xs text-prospex-dim font-mono text-center py-4">No spend recorded yet</p>}
+        </div>
+
+        <div className="card p-6">
+          <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-4 flex items-center gap-2"><DollarSign className="w-4 h-4 text-prospex-amber" />Spend per Provider</h2>
+          <div className="space-y-3">
+            {Object.entries(stats.spend.byProvider).sort((a, b) => b[1] - a[1]).map(([provider, cost]) => {
+              const pct = stats.spend.last30Days > 0 ? (cost / stats.spend.last30Days) * 100 : 0;
+              return (
+                <div key={provider} className="flex items-center gap-3">
+                  <span className="text-xs font-mono text-prospex-muted w-24 capitalize">{provider}</span>
+                  <div className="flex-1 h-2 bg-prospex-bg rounded-full overflow-hidden">
+                    <div className="h-full bg-prospex-amber/50 rounded-full" style={{ width: `${pct}%` }} />
+                  </div>
+                  <span className="text-xs font-mono text-prospex-muted w-16 text-right">{formatUsd(cost)}</span>
+                </div>
+              );
+            })}
+            {Object.keys(stats.spend.byProvider).length === 0 && <p className="text-xs text-prospex-dim font-mono text-center py-4">No spend recorded yet</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="card p-6">
+          <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-4">Most Expensive Searches</h2>
+          <div className="space-y-2">
+            {stats.spend.bySearch.map(search => (
+              <div key={search.search_id} className="flex items-center gap-3 py-1.5 border-b border-prospex-border/50 last:border-0">
+                <p className="text-sm text-prospex-muted flex-1 truncate">{search.niche} <span className="text-prospex-dim">in {search.location}</span></p>
+                <span className="text-xs text-prospex-dim font-mono">{search.calls} calls</span>
+                <span className="text-xs text-prospex-text font-mono w-16 text-right">{formatUsd(search.cost_usd)}</span>
+              </div>
+            ))}
+            {stats.spend.bySearch.length === 0 && <p className="text-xs text-prospex-dim font-mono text-center py-4">No searches with recorded spend</p>}
+          </div>
+        </div>
+
+        <div className="card p-6">
+          <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-4">Cost to Find Each Closed Deal</h2>
+          <div className="space-y-2">
+            {stats.spend.closedDeals.map(deal => (
+              <div key={deal.lead_id} className="flex items-center gap-3 py-1.5 border-b border-prospex-border/50 last:border-0">
+                <p className="text-sm text-prospex-muted flex-1 truncate">{deal.business_name}</p>
+                <span className="text-xs text-prospex-dim font-mono" title="Share of the search that found it + calls made for this lead">{formatUsd(deal.search_share_usd)} + {formatUsd(deal.lead_cost_usd)}</span>
+                <span className="text-xs text-prospex-green font-mono w-16 text-right">{formatUsd(deal.cost_usd)}</span>
+              </div>
+            ))}
+            {stats.spend.closedDeals.length === 0 && <p className="text-xs text-prospex-dim font-mono text-center py-4">No closed deals yet</p>}
+          </div>
+        </div>
+      </div>
+
       {/* Activity Feed */}
       <div className="card p-6">
         <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-4">Recent Activity</h2>
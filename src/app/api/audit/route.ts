@@ -1,55 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getKey } from '@/lib/sources/shared';
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { socialPresence } from '@/lib/social';
+import { detectTech } from '@/lib/tech';
+import type { SocialPlatform, TechProfile } from '@/lib/types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-function getKey(envKey: string): string {
-  return process.env[envKey] || '';
+interface FirecrawlScrapeResponse {
+  data?: { html?: string };
 }
 
-async function crawlWebsite(url: string): Promise<string> {
+interface PageSpeedResponse {
+  lighthouseResult?: { categories?: { performance?: { score?: number } } };
+}
+
+async function crawlWebsite(url: string, cache: CacheOptions): Promise<string> {
   const apiKey = getKey('FIRECRAWL_API_KEY');
   if (!apiKey) throw new Error('Firecrawl API key not configured');
 
-  const response = await fetch('https://api.firecrawl.dev/v1/scrape', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      url,
-      formats: ['html'],
-      onlyMainContent: false,
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Firecrawl error: ${response.status}`);
-  }
+  return withProviderCache('firecrawl', { url, formats: ['html'], onlyMainContent: false }, () =>
+    metered('firecrawl', 'scrape', cache.usage, async () => {
+      const data = await providerJson<FirecrawlScrapeResponse>('firecrawl', 'https://api.firecrawl.dev/v1/scrape', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: JSON.stringify({
+          url,
+          formats: ['html'],
+          onlyMainContent: false,
+        }),
+      });
+      return data?.data?.html || '';
+    }), cache);
+}
 
-  const data = await response.json();
-  return data?.data?.html || '';
+// Lighthouse performance score (0-100) for one strategy
+async function getPageSpeedScore(url: string, strategy: 'mobile' | 'desktop', cache: CacheOptions): Promise<number> {
+  const score = await withProviderCache('pagespeed', { url, strategy }, async () => {
+    const data = await providerJson<PageSpeedResponse>('pagespeed',
+      `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=${encodeURIComponent(url)}&strategy=${strategy}&category=performance`
+    );
+    return data?.lighthouseResult?.categories?.performance?.score || 0;
+  }, cache);
+  return Math.round(score * 100);
 }
 
-async function getPageSpeedScores(url: string): Promise<{ mobile: number; speed: number }> {
+async function getPageSpeedScores(url: string, cache: CacheOptions): Promise<{ mobile: number; speed: number }> {
   try {
     // Mobile score
-    const mobileRes = await fetch(
-      `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=${encodeURIComponent(url)}&strategy=mobile&category=performance`
-    );
-    const mobileData = await mobileRes.json();
-    const mobile = Math.round((mobileData?.lighthouseResult?.categories?.performance?.score || 0) * 100);
+    const mobile = await getPageSpeedScore(url, 'mobile', cache);
 
     // Desktop speed
-    const desktopRes = await fetch(
-      `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?url=${encodeURIComponent(url)}&strategy=desktop&category=performance`
-    );
-    const desktopData = await desktopRes.json();
-    const speed = Math.round((desktopData?.lighthouseResult?.categories?.performance?.score || 0) * 100);
+    const speed = await getPageSpeedScore(url, 'desktop', cache);
 
     return { mobile, speed };
   } catch (err) {
@@ -58,24 +69,45 @@ async function getPageSpeedScores(url: string): Promise<{ mobile: number; speed:
   }
 }
 
-function analyzeHTML(html: string) {
+// Booking and contact pages on the same site, where a widget the homepage only links to is embedded
+const MAX_EXTRA_PAGES = 2;
+
+function bookingPageUrls(html: string, siteUrl: string): string[] {
+  const site = new URL(siteUrl);
+  const host = site.hostname.replace(/^www\./, '');
+  const urls = new Set<string>();
+  for (const m of Array.from(html.matchAll(/<a\b[^>]*href=["']([^"'#]+)["'][^>]*>([\s\S]*?)<\/a>/gi))) {
+    if (!/book|appointment|reserv|contact/i.test(`${m[1]} ${m[2].replace(/<[^>]+>/g, '')}`)) continue;
+    try {
+      const url = new URL(m[1], site);
+      if (url.hostname.replace(/^www\./, '') === host && url.pathname !== site.pathname) urls.add(`${url.origin}${url.pathname}`);
+    } catch { /* Not a URL */ }
+  }
+  return Array.from(urls).slice(0, MAX_EXTRA_PAGES);
+}
+
+function analyzeHTML(html: string, extraPages: string[] = []) {
   const lower = html.toLowerCase();
+  const socialPlatforms = socialPresence(html);
+  const tech = detectTech([html, ...extraPages]);
 
   return {
     ssl_check: true, // If we got HTML, it loaded — we check the URL separately
-    has_social_media: /facebook\.com|instagram\.com|linkedin\.com|twitter\.com|x\.com/.test(lower),
+    has_social_media: Object.values(socialPlatforms).some(Boolean),
+    social_platforms: socialPlatforms as Record<SocialPlatform, boolean> | null,
     has_click_to_call: /tel:/.test(lower),
     has_video: /youtube\.com|vimeo\.com|<video/.test(lower),
-    has_chatbot: /intercom|drift|tidio|livechat|tawk\.to|crisp\.chat|hubspot.*chat|zendesk.*chat/.test(lower),
-    has_booking: /calendly|acuity|fresha|booksy|booking|schedulicity|vagaro|mindbody|setmore|appointy/.test(lower),
+    has_chatbot: !!tech.chat,
+    has_booking: !!tech.booking,
     has_meta_description: /<meta[^>]*name=["']description["'][^>]*content=["'][^"']+["']/.test(lower),
     has_h1: /<h1[\s>]/.test(lower),
-    has_analytics: /google-analytics|googletagmanager|gtag|ga\.js|analytics\.js|gtm\.js/.test(lower),
+    has_analytics: !!tech.analytics || /google-analytics|googletagmanager|gtag|ga\.js|analytics\.js|gtm\.js/.test(lower),
     has_schema: /application\/ld\+json|itemtype=.*schema\.org/.test(lower),
+    tech_profile: tech as TechProfile | null,
   };
 }
 
-function calculateAuditScore(checks: Record<string, boolean | number | null>): number {
+function calculateAuditScore(checks: Record<string, unknown>): number {
   let score = 100;
   const deductions: Record<string, number> = {
     ssl_check: 15,
@@ -110,7 +142,7 @@ function calculateAuditScore(checks: Record<string, boolean | number | null>): n
 export async function POST(request: NextRequest) {
   let parsedLeadId: string | null = null;
   try {
-    const { leadId } = await request.json();
+    const { leadId, forceRefresh = false } = await request.json();
     parsedLeadId = leadId;
     if (!leadId) {
       return NextResponse.json({ error: 'leadId is required' }, { status: 400 });
@@ -146,6 +178,7 @@ export async function POST(request: NextRequest) {
     // Crawl website
     let htmlChecks = {
       has_social_media: false,
+      social_platforms: null as Record<SocialPlatform, boolean> | null,
       has_click_to_call: false,
       has_video: false,
       has_chatbot: false,
@@ -154,19 +187,22 @@ export async function POST(request: NextRequest) {
       has_h1: false,
       has_analytics: false,
       has_schema: false,
+      tech_profile: null as TechProfile | null,
     };
 
     try {
-      const html = await crawlWebsite(websiteUrl);
+      const html = await crawlWebsite(websiteUrl, { forceRefresh, usage: { leadId } });
       if (html) {
-        htmlChecks = analyzeHTML(html);
+        const extraPages = await Promise.all(bookingPageUrls(html, websiteUrl).map(url =>
+          crawlWebsite(url, { forceRefresh, usage: { leadId } }).catch(() => '')));
+        htmlChecks = analyzeHTML(html, extraPages);
       }
     } catch (err) {
       console.error('Crawl failed:', err);
     }
 
     // Get PageSpeed scores
-    const { mobile, speed } = await getPageSpeedScores(websiteUrl);
+    const { mobile, speed } = await getPageSpeedScores(websiteUrl, { forceRefresh });
 
     const auditData = {
       ssl_check,
@@ -219,6 +255,7 @@ export async function POST(request: NextRequest) {
       audit_status: 'complete',
       audit_score: auditData.overall_score,
       audit_data: auditData,
+      tech_profile: auditData.tech_profile ?? lead.tech_profile,
       lead_score: leadScore,
       lead_grade: grade,
       lead_priority: priority,
@@ -1,17 +1,42 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getKey } from '@/lib/sources/shared';
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { metered, openAITokens } from '@/lib/usage';
+import { providerFetch, providerJson } from '@/lib/http';
+import { socialPresence } from '@/lib/social';
+import type { SocialPlatform, UsageContext } from '@/lib/types';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-function getKey(envKey: string): string {
-  return process.env[envKey] || '';
+// ─── Provider responses (only the fields read here) ──────────
+interface DataForSeoSerpResponse {
+  tasks?: {
+    result?: {
+      items?: { type?: string; domain?: string; url?: string }[];
+      search_information?: { search_results_count?: number };
+    }[];
+  }[];
+}
+
+interface OutscraperPlace {
+  name?: string;
+  site?: string | null;
+  full_address?: string | null;
+  rating?: number | null;
+  reviews?: number | null;
+  reviews_data?: { review_rating?: number; review_text?: string | null; owner_answer?: string | null }[];
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
 }
 
 // ─── SEO Module ──────────────────────────────────────────────
-async function analyzeSEO(businessName: string, location: string, website: string) {
+async function analyzeSEO(businessName: string, location: string, website: string, cache: CacheOptions) {
   const login = getKey('DATAFORSEO_LOGIN');
   const password = getKey('DATAFORSEO_PASSWORD');
 
@@ -38,22 +63,23 @@ async function analyzeSEO(businessName: string, location: string, website: strin
     const auth = Buffer.from(`${login}:${password}`).toString('base64');
 
     for (const keyword of keywords) {
-      const response = await fetch('https://api.dataforseo.com/v3/serp/google/organic/live/advanced', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{
-          keyword,
-          location_name: location.includes(',') ? location : `${location}, United Kingdom`,
-          language_name: 'English',
-          device: 'desktop',
-          depth: 30,
-        }]),
-      });
-
-      const data = await response.json();
+      const task = {
+        keyword,
+        location_name: location.includes(',') ? location : `${location}, United Kingdom`,
+        language_name: 'English',
+        device: 'desktop',
+        depth: 30,
+      };
+      const data = await withProviderCache('dataforseo', task, () =>
+        metered('dataforseo', 'serp/google/organic/live/advanced', cache.usage, () =>
+          providerJson<DataForSeoSerpResponse>('dataforseo', 'https://api.dataforseo.com/v3/serp/google/organic/live/advanced', {
+            method: 'POST',
+            headers: {
+              'Authorization': `Basic ${auth}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify([task]),
+          })), cache);
       const items = data?.tasks?.[0]?.result?.[0]?.items || [];
       const position = items.findIndex((item: any) =>
         item.domain?.includes(domain) || item.url?.includes(domain)
@@ -97,7 +123,18 @@ async function analyzeSEO(businessName: string, location: string, website: strin
 }
 
 // ─── Competitor Module ───────────────────────────────────────
-async function analyzeCompetitors(businessName: string, niche: string, location: string) {
+// The networks a competitor's homepage links to, so pitches can set the lead against them
+async function competitorSocial(website: string | null): Promise<Record<SocialPlatform, boolean> | null> {
+  if (!website) return null;
+  try {
+    const response = await providerFetch('website', website.startsWith('http') ? website : `https://${website}`);
+    return socialPresence(await response.text());
+  } catch {
+    return null;
+  }
+}
+
+async function analyzeCompetitors(businessName: string, niche: string, location: string, cache: CacheOptions) {
   const apiKey = getKey('OUTSCRAPER_API_KEY');
   if (!apiKey) return { competitors: [], score: 50 };
 
@@ -105,11 +142,10 @@ async function analyzeCompetitors(businessName: string, niche: string, location:
     const query = `${niche} ${location}`;
     const url = `https://api.app.outscraper.com/maps/search-v3?query=${encodeURIComponent(query)}&limit=10&async=false`;
 
-    const response = await fetch(url, {
-      headers: { 'X-API-KEY': apiKey },
-    });
-
-    const data = await response.json();
+    const data = await withProviderCache('outscraper', { query, limit: '10' }, () =>
+      metered('outscraper', 'maps/search-v3', cache.usage, () =>
+        providerJson<{ data?: OutscraperPlace[][] }>('outscraper', url, { headers: { 'X-API-KEY': apiKey } }),
+      result => result?.data?.[0]?.length || 0), cache);
     const results = data?.data?.[0] || [];
 
     // Filter out the target business and get top 3 competitors
@@ -134,6 +170,7 @@ async function analyzeCompetitors(businessName: string, niche: string, location:
         ].filter(Boolean),
         rank: index + 1,
       }));
+    await Promise.all(competitors.map(async (c: any) => { c.social_platforms = await competitorSocial(c.website); }));
 
     // Score: how does the business compare?
     const avgCompRating = competitors.reduce((s: number, c: any) => s + (c.google_rating || 0), 0) / (competitors.length || 1);
@@ -149,7 +186,7 @@ async function analyzeCompetitors(businessName: string, niche: string, location:
 }
 
 // ─── Reviews Module ──────────────────────────────────────────
-async function analyzeReviews(businessName: string, location: string) {
+async function analyzeReviews(businessName: string, location: string, cache: CacheOptions) {
   const apiKey = getKey('OUTSCRAPER_API_KEY');
   if (!apiKey) return { data: null, score: 50 };
 
@@ -157,11 +194,10 @@ async function analyzeReviews(businessName: string, location: string) {
     const query = `${businessName} ${location}`;
     const url = `https://api.app.outscraper.com/maps/reviews-v3?query=${encodeURIComponent(query)}&reviewsLimit=50&sort=newest&async=false`;
 
-    const response = await fetch(url, {
-      headers: { 'X-API-KEY': apiKey },
-    });
-
-    const data = await response.json();
+    const data = await withProviderCache('outscraper_reviews', { query, reviewsLimit: 50, sort: 'newest' }, () =>
+      metered('outscraper', 'maps/reviews-v3', cache.usage, () =>
+        providerJson<{ data?: OutscraperPlace[] }>('outscraper', url, { headers: { 'X-API-KEY': apiKey } }),
+      result => result?.data?.[0]?.reviews_data?.length || 0), cache);
     const place = data?.data?.[0];
 
     if (!place) return { data: null, score: 50 };
@@ -226,7 +262,7 @@ async function analyzeReviews(businessName: string, location: string) {
 }
 
 // ─── AI Visibility Module ────────────────────────────────────
-async function analyzeAIVisibility(businessName: string, location: string) {
+async function analyzeAIVisibility(businessName: string, location: string, usage: UsageContext) {
   const openaiKey = getKey('OPENAI_API_KEY');
   if (!openaiKey) return { data: null, score: 50 };
 
@@ -240,25 +276,24 @@ async function analyzeAIVisibility(businessName: string, location: string) {
 
   for (const query of queries) {
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiKey}`,
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          messages: [
-            {
-              role: 'user',
-              content: query,
-            }
-          ],
-          max_tokens: 500,
-        }),
-      });
-
-      const data = await response.json();
+      const data = await metered('openai', 'chat/completions', usage, () =>
+        providerJson<ChatCompletionResponse>('openai', 'https://api.openai.com/v1/chat/completions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${openaiKey}`,
+          },
+          body: JSON.stringify({
+            model: 'gpt-4o-mini',
+            messages: [
+              {
+                role: 'user',
+                content: query,
+              }
+            ],
+            max_tokens: 500,
+          }),
+        }), openAITokens);
       const answer = data?.choices?.[0]?.message?.content || '';
       const mentioned = answer.toLowerCase().includes(businessName.toLowerCase());
 
@@ -304,7 +339,7 @@ async function analyzeAIVisibility(businessName: string, location: string) {
 
 export async function POST(request: NextRequest) {
   try {
-    const { leadId } = await request.json();
+    const { leadId, forceRefresh = false } = await request.json();
     if (!leadId) {
       return NextResponse.json({ error: 'leadId is required' }, { status: 400 });
     }
@@ -326,11 +361,12 @@ export async function POST(request: NextRequest) {
     const niche = 'med spa'; // Default niche
 
     // Run all modules in parallel
+    const cache = { forceRefresh, usage: { leadId } };
     const [seoResult, competitorResult, reviewsResult, aiResult] = await Promise.all([
-      analyzeSEO(lead.business_name, location, lead.website || ''),
-      analyzeCompetitors(lead.business_name, niche, location),
-      analyzeReviews(lead.business_name, location),
-      analyzeAIVisibility(lead.business_name, location),
+      analyzeSEO(lead.business_name, location, lead.website || '', cache),
+      analyzeCompetitors(lead.business_name, niche, location, cache),
+      analyzeReviews(lead.business_name, location, cache),
+      analyzeAIVisibility(lead.business_name, location, cache.usage),
     ]);
 
     // Calculate overall score
@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getKey } from '@/lib/sources/shared';
+import { metered, openAITokens } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { primaryContact, splitName } from '@/lib/contacts';
 
 const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
 
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
 export async function POST(request: NextRequest) {
   try {
     const { leadId, emailType = 'initial_outreach' } = await request.json();
     if (!leadId) return NextResponse.json({ error: 'leadId required' }, { status: 400 });
 
-    const openaiKey = process.env.OPENAI_API_KEY;
+    const openaiKey = getKey('OPENAI_API_KEY');
     if (!openaiKey) return NextResponse.json({ error: 'OpenAI API key not configured' }, { status: 400 });
 
     const { data: lead } = await supabase.from('leads').select('*').eq('id', leadId).single();
@@ -21,6 +29,12 @@ export async function POST(request: NextRequest) {
     const { data: audit } = await supabase.from('audits').select('*').eq('lead_id', leadId).order('created_at', { ascending: false }).limit(1).maybeSingle();
     const { data: deepAudit } = await supabase.from('deep_audits').select('*').eq('lead_id', leadId).order('created_at', { ascending: false }).limit(1).maybeSingle();
 
+    // Written to the primary contact (the owner or manager) when there is one
+    const contact = await primaryContact(leadId);
+    const recipient = contact?.name
+      ? `\nRecipient: ${contact.name}${contact.role ? `, ${contact.role}` : ''} (address them as "${splitName(contact.name).firstName}")`
+      : '';
+
     const agencyName = settings?.agency_name || 'Our Agency';
     const calendarUrl = settings?.calendar_url || '[Your Calendar Link]';
 
@@ -42,7 +56,7 @@ export async function POST(request: NextRequest) {
     const emailTemplates: Record<string, string> = {
       initial_outreach: `You are a professional digital marketing consultant writing a cold outreach email. Write in a consultative, professional tone. Be specific, data-driven, and genuinely helpful — not salesy.
 
-Business: ${lead.business_name}
+Business: ${lead.business_name}${recipient}
 Location: ${lead.city || lead.address || 'their area'}
 Website: ${lead.website || 'N/A'}
 Google Rating: ${lead.google_rating || 'N/A'} (${lead.google_review_count || 0} reviews)
@@ -61,7 +75,7 @@ Calendar link for CTA: ${calendarUrl}`,
 
       follow_up: `Write a brief, professional follow-up email for a lead who hasn't responded to initial outreach.
 
-Business: ${lead.business_name}
+Business: ${lead.business_name}${recipient}
 Agency: ${agencyName}
 Calendar: ${calendarUrl}
 
@@ -69,7 +83,7 @@ Be concise (under 100 words), add one new insight or value point, and make it ea
 
       post_audit: `Write a professional email sharing audit results with a business owner.
 
-Business: ${lead.business_name}
+Business: ${lead.business_name}${recipient}
 ${auditInsights.length > 0 ? `Key Findings:\n${auditInsights.map(i => `- ${i}`).join('\n')}` : 'General website review completed.'}
 
 Frame findings as opportunities. Include a CTA to discuss results on a call. From: ${agencyName}. Calendar: ${calendarUrl}. Keep under 200 words.`,
@@ -77,46 +91,44 @@ Frame findings as opportunities. Include a CTA to discuss results on a call. Fro
 
     const prompt = emailTemplates[emailType] || emailTemplates.initial_outreach;
 
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openaiKey}` },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a professional digital marketing consultant. Write concise, personalised emails that are consultative and data-driven. Never be generic or salesy.' },
-          { role: 'user', content: prompt },
-        ],
-        temperature: 0.7,
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) throw new Error(`OpenAI error: ${await response.text()}`);
-    const data = await response.json();
+    const data = await metered('openai', 'chat/completions', { leadId }, () =>
+      providerJson<ChatCompletionResponse>('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openaiKey}` },
+        body: JSON.stringify({
+          model: 'gpt-4o-mini',
+          messages: [
+            { role: 'system', content: 'You are a professional digital marketing consultant. Write concise, personalised emails that are consultative and data-driven. Never be generic or salesy.' },
+            { role: 'user', content: prompt },
+          ],
+          temperature: 0.7,
+          max_tokens: 500,
+        }),
+      }), openAITokens);
     const emailBody = data.choices?.[0]?.message?.content || '';
 
     // Generate subject line
-    const subjectResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openaiKey}` },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'Generate a short, compelling email subject line (max 8 words). No clickbait. Professional and specific.' },
-          { role: 'user', content: `Subject line for this email to ${lead.business_name}:\n\n${emailBody}` },
-        ],
-        temperature: 0.7,
-        max_tokens: 50,
-      }),
-    });
-
-    const subjectData = await subjectResponse.json();
+    const subjectData = await metered('openai', 'chat/completions', { leadId }, () =>
+      providerJson<ChatCompletionResponse>('openai', 'https://api.openai.com/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${openaiKey}` },
+        body: JSON.stringify({
+          model: 'gpt-4o-mini',
+          messages: [
+            { role: 'system', content: 'Generate a short, compelling email subject line (max 8 words). No clickbait. Professional and specific.' },
+            { role: 'user', content: `Subject line for this email to ${lead.business_name}:\n\n${emailBody}` },
+          ],
+          temperature: 0.7,
+          max_tokens: 50,
+        }),
+      }), openAITokens);
     const subject = subjectData.choices?.[0]?.message?.content?.replace(/["']/g, '').trim() || `Quick question about ${lead.business_name}`;
 
     return NextResponse.json({
       success: true,
       email: { subject, body: emailBody, type: emailType },
-      lead: { business_name: lead.business_name, email: lead.email },
+      lead: { business_name: lead.business_name, email: contact?.email || lead.email },
+      contact: contact ? { name: contact.name, role: contact.role, email: contact.email } : null,
     });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Email generation failed';
@@ -1,15 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { getKey } from '@/lib/sources/shared';
+import { providerFetch, providerJson } from '@/lib/http';
+import { primaryContact, splitName } from '@/lib/contacts';
+import { SOCIAL_PLATFORMS } from '@/lib/social';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-function getKey(envKey: string): string {
-  return process.env[envKey] || '';
-}
-
 export async function POST(request: NextRequest) {
   try {
     const { leadId } = await request.json();
@@ -46,16 +46,21 @@ export async function POST(request: NextRequest) {
     if (lead.lead_score) tags.push(`Score: ${lead.lead_score}`);
     if (lead.lead_priority) tags.push(`Priority: ${lead.lead_priority.toUpperCase()}`);
 
-    // Create contact in GHL
+    // Create contact in GHL, as the lead's primary contact when we know who that is
+    const person = await primaryContact(leadId);
     const contactPayload: Record<string, any> = {
       locationId,
-      name: lead.business_name,
+      name: person?.name || lead.business_name,
       companyName: lead.business_name,
       tags,
     };
+    if (person?.name) Object.assign(contactPayload, splitName(person.name));
+    if (person?.role) tags.push(`Role: ${person.role}`);
 
-    if (lead.email) contactPayload.email = lead.email;
-    if (lead.phone) contactPayload.phone = lead.phone;
+    const email = person?.email || lead.email;
+    const phone = person?.phone || lead.phone;
+    if (email) contactPayload.email = email;
+    if (phone) contactPayload.phone = phone;
     if (lead.website) contactPayload.website = lead.website;
     if (lead.address) contactPayload.address1 = lead.address;
 
@@ -75,7 +80,7 @@ export async function POST(request: NextRequest) {
       contactPayload.customFields = customFields;
     }
 
-    const contactResponse = await fetch('https://services.leadconnectorhq.com/contacts/', {
+    const contactData = await providerJson<{ contact?: { id?: string } }>('ghl', 'https://services.leadconnectorhq.com/contacts/', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -83,14 +88,7 @@ export async function POST(request: NextRequest) {
         'Version': '2021-07-28',
       },
       body: JSON.stringify(contactPayload),
-    });
-
-    if (!contactResponse.ok) {
-      const error = await contactResponse.text();
-      throw new Error(`GHL Contact creation failed: ${error}`);
-    }
-
-    const contactData = await contactResponse.json();
+    }, { idempotent: false });
     const contactId = contactData?.contact?.id;
 
     if (!contactId) {
@@ -100,10 +98,15 @@ export async function POST(request: NextRequest) {
     // Add a note with audit summary
     let noteBody = `📊 Prospex Lead Import\n\n`;
     noteBody += `Business: ${lead.business_name}\n`;
+    if (person?.name) noteBody += `Contact: ${person.name}${person.role ? ` (${person.role})` : ''}\n`;
+    if (person?.email && lead.email && person.email !== lead.email) noteBody += `Business email: ${lead.email}\n`;
     if (lead.lead_score) noteBody += `Lead Score: ${lead.lead_score}/100 (${lead.lead_grade || ''})\n`;
     if (lead.audit_score) noteBody += `Website Audit Score: ${lead.audit_score}/100\n`;
     if (lead.deep_audit_score) noteBody += `Deep Audit Score: ${lead.deep_audit_score}/100\n`;
     if (lead.google_rating) noteBody += `Google Rating: ${lead.google_rating} (${lead.google_review_count} reviews)\n`;
+    for (const platform of SOCIAL_PLATFORMS) {
+      if (lead.social_profiles?.[platform.id]) noteBody += `${platform.label}: ${lead.social_profiles[platform.id]}\n`;
+    }
     noteBody += `Source: ${lead.source.replace('_', ' ')}\n`;
     noteBody += `\nImported from Prospex on ${new Date().toLocaleDateString()}`;
 
@@ -114,7 +117,8 @@ export async function POST(request: NextRequest) {
       noteBody += `SSL: ${checks.ssl_check ? '✅' : '❌'}\n`;
       noteBody += `Mobile Score: ${checks.mobile_score || 'N/A'}\n`;
       noteBody += `Speed Score: ${checks.speed_score || 'N/A'}\n`;
-      noteBody += `Social Media: ${checks.has_social_media ? '✅' : '❌'}\n`;
+      const linked = checks.social_platforms ? SOCIAL_PLATFORMS.filter(p => checks.social_platforms[p.id]).map(p => p.label) : null;
+      noteBody += `Social Media: ${checks.has_social_media ? '✅' : '❌'}${linked && linked.length > 0 ? ` (${linked.join(', ')})` : ''}\n`;
       noteBody += `Click-to-Call: ${checks.has_click_to_call ? '✅' : '❌'}\n`;
       noteBody += `Online Booking: ${checks.has_booking ? '✅' : '❌'}\n`;
       noteBody += `Chatbot: ${checks.has_chatbot ? '✅' : '❌'}\n`;
@@ -122,7 +126,7 @@ export async function POST(request: NextRequest) {
     }
 
     try {
-      await fetch(`https://services.leadconnectorhq.com/contacts/${contactId}/notes`, {
+      await providerFetch('ghl', `https://services.leadconnectorhq.com/contacts/${contactId}/notes`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -130,7 +134,7 @@ export async function POST(request: NextRequest) {
           'Version': '2021-07-28',
         },
         body: JSON.stringify({ body: noteBody }),
-      });
+      }, { idempotent: false });
     } catch (noteErr) {
       console.error('Note creation failed (non-critical):', noteErr);
     }
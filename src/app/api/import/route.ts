@@ -1,8 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { calculateLeadScore } from '@/lib/scoring';
-
-const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+import type { BulkLeadRow, ContactDetails } from '@/lib/types';
 
 function parseCSV(text: string): Record<string, string>[] {
   const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
@@ -24,6 +21,20 @@ function parseCSV(text: string): Record<string, string>[] {
   });
 }
 
+// The person named on the row, if any; a row without a name or email has no contact
+function contactFrom(mapped: Record<string, string | null>): ContactDetails[] {
+  const name = mapped.contact_name || [mapped.contact_first_name, mapped.contact_last_name].filter(Boolean).join(' ') || null;
+  if (!name && !mapped.contact_email) return [];
+  return [{
+    name,
+    role: mapped.contact_role,
+    email: mapped.contact_email,
+    phone: mapped.contact_phone,
+    linkedin_url: mapped.linkedin_url,
+    source: 'csv_import',
+  }];
+}
+
 function mapFields(row: Record<string, string>): Record<string, string | null> {
   const fieldMap: Record<string, string[]> = {
     business_name: ['business_name', 'business name', 'company', 'company name', 'name', 'business'],
@@ -36,6 +47,13 @@ function mapFields(row: Record<string, string>): Record<string, string | null> {
     instagram_url: ['instagram', 'instagram_url', 'ig', 'instagram url'],
     google_rating: ['rating', 'google_rating', 'google rating', 'stars'],
     google_review_count: ['reviews', 'review_count', 'google_review_count', 'review count', 'num_reviews'],
+    contact_name: ['contact name', 'contact_name', 'contact', 'owner', 'owner name', 'full name', 'person'],
+    contact_first_name: ['first name', 'first_name', 'firstname'],
+    contact_last_name: ['last name', 'last_name', 'lastname', 'surname'],
+    contact_role: ['contact role', 'contact_role', 'role', 'job title', 'job_title', 'title', 'position'],
+    contact_email: ['contact email', 'contact_email', 'owner email', 'personal email'],
+    contact_phone: ['contact phone', 'contact_phone', 'direct phone', 'direct line'],
+    linkedin_url: ['linkedin', 'linkedin url', 'linkedin_url', 'contact linkedin'],
   };
 
   const result: Record<string, string | null> = {};
@@ -51,6 +69,7 @@ function mapFields(row: Record<string, string>): Record<string, string | null> {
   return result;
 }
 
+// Parse and map a CSV into lead rows; the page saves them through /api/leads/bulk
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
@@ -61,56 +80,24 @@ export async function POST(request: NextRequest) {
     const rows = parseCSV(text);
     if (rows.length === 0) return NextResponse.json({ error: 'No data rows found in CSV' }, { status: 400 });
 
-    let imported = 0;
-    let duplicates = 0;
-    let errors = 0;
-
-    for (const row of rows) {
-      try {
-        const mapped = mapFields(row);
-        if (!mapped.business_name) { errors++; continue; }
-
-        // Check duplicate
-        const { data: existing } = await supabase.from('leads').select('id').eq('business_name', mapped.business_name).maybeSingle();
-        if (existing) { duplicates++; continue; }
-
-        // Calculate score
-        const scoreResult = calculateLeadScore({
-          email: mapped.email,
-          phone: mapped.phone,
-          website: mapped.website,
-          business_name: mapped.business_name,
-          google_rating: mapped.google_rating ? parseFloat(mapped.google_rating) : null,
-          google_review_count: mapped.google_review_count ? parseInt(mapped.google_review_count) : null,
-        });
-
-        await supabase.from('leads').insert({
-          business_name: mapped.business_name,
-          email: mapped.email,
-          phone: mapped.phone,
-          website: mapped.website,
-          address: mapped.address,
-          city: mapped.city,
-          country: mapped.country,
-          instagram_url: mapped.instagram_url,
-          google_rating: mapped.google_rating ? parseFloat(mapped.google_rating) : null,
-          google_review_count: mapped.google_review_count ? parseInt(mapped.google_review_count) : null,
-          source: 'csv_import',
-          lead_score: scoreResult.total,
-          lead_grade: scoreResult.grade,
-          lead_priority: scoreResult.priority,
-        });
-
-        imported++;
-      } catch { errors++; }
-    }
-
-    await supabase.from('activity_log').insert({
-      action_type: 'scrape',
-      description: `CSV import: ${imported} imported, ${duplicates} duplicates, ${errors} errors from ${rows.length} rows`,
+    const leads: BulkLeadRow[] = rows.map(row => {
+      const mapped = mapFields(row);
+      return {
+        business_name: mapped.business_name || '',
+        email: mapped.email,
+        phone: mapped.phone,
+        website: mapped.website,
+        address: mapped.address,
+        city: mapped.city,
+        country: mapped.country,
+        instagram_url: mapped.instagram_url,
+        google_rating: mapped.google_rating ? parseFloat(mapped.google_rating) : null,
+        google_review_count: mapped.google_review_count ? parseInt(mapped.google_review_count) : null,
+        source: 'csv_import',
+        contacts: contactFrom(mapped),
+      };
     });
-
-    return NextResponse.json({ success: true, imported, duplicates, errors, total: rows.length });
+    return NextResponse.json({ rows: leads });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : 'Import failed';
     return NextResponse.json({ error: message }, { status: 500 });
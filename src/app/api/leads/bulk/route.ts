@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_BULK_ROWS, countOutcomes, upsertLeads } from '@/lib/lead-bulk';
+import type { BulkLeadRequest } from '@/lib/types';
+
+// ─── BULK LEAD UPSERT ──────────────────────────────────────────
+// Validates, dedupes, scores and saves a batch of leads in one transaction.
+// `outcomes` has one entry per row, in the order sent.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json() as BulkLeadRequest;
+    if (!Array.isArray(body.rows) || body.rows.length === 0) return NextResponse.json({ error: 'rows required' }, { status: 400 });
+    if (body.rows.length > MAX_BULK_ROWS) return NextResponse.json({ error: `At most ${MAX_BULK_ROWS} rows per request` }, { status: 400 });
+    if (body.on_existing && !['skip', 'update'].includes(body.on_existing)) return NextResponse.json({ error: 'on_existing must be skip or update' }, { status: 400 });
+    const outcomes = await upsertLeads(body);
+    return NextResponse.json({ outcomes, counts: countOutcomes(outcomes) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not save leads';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
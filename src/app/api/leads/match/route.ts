@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSavedLeads, matchResults } from '@/lib/lead-matching';
+import type { ScrapeResult } from '@/lib/types';
+
+// ─── MATCH RESULTS AGAINST SAVED LEADS ─────────────────────────
+// Labels each result new / existing / possible duplicate, with a field diff for
+// existing leads. Returned in the same order as the results sent.
+export async function POST(request: NextRequest) {
+  try {
+    const { results, country } = await request.json() as { results?: ScrapeResult[]; country?: string };
+    if (!Array.isArray(results) || !country) return NextResponse.json({ error: 'results and country required' }, { status: 400 });
+    const leads = await loadSavedLeads(country);
+    return NextResponse.json({ matches: matchResults(results, leads) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not match results';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { verifyEmail, verifyInBatches } from '@/lib/email-verification';
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+// ─── VERIFY LEAD EMAILS ────────────────────────────────────────
+// (Re)checks deliverability for the given leads and stores the result on each
+export async function POST(request: NextRequest) {
+  try {
+    const { leadIds } = await request.json();
+    if (!leadIds || !Array.isArray(leadIds)) return NextResponse.json({ error: 'leadIds array required' }, { status: 400 });
+
+    const { data: leads, error } = await supabase.from('leads').select('id, email').in('id', leadIds).not('email', 'is', null);
+    if (error) throw error;
+
+    const results = await verifyInBatches(leads || [], async lead => {
+      const verification = await verifyEmail(lead.email);
+      await supabase.from('leads').update(verification).eq('id', lead.id);
+      return { id: lead.id, email: lead.email, email_status: verification.email_status };
+    });
+    return NextResponse.json({ verified: results.length, results });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Verification failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { SOCIAL_PLATFORMS } from '@/lib/social';
+import type { TechProfile } from '@/lib/types';
 
 const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
 
@@ -44,11 +46,15 @@ function generateComprehensivePitch(lead: Record<string, unknown>, audit: Record
   const hasChatbot = auditData?.has_chatbot as boolean || false;
   const hasVideo = auditData?.has_video as boolean || false;
   const hasSocial = auditData?.has_social_media as boolean || false;
+  const socialPlatforms = auditData?.social_platforms as Record<string, boolean> | null | undefined;
+  const linkedSocial = socialPlatforms ? SOCIAL_PLATFORMS.filter(p => socialPlatforms[p.id]).map(p => p.label) : [];
+  const missingSocial = socialPlatforms ? SOCIAL_PLATFORMS.filter(p => !socialPlatforms[p.id]).map(p => p.label) : [];
   const hasMeta = auditData?.has_meta_description as boolean || false;
   const hasH1 = auditData?.has_h1 as boolean || false;
   const hasSchema = auditData?.has_schema as boolean || false;
   const hasAnalytics = auditData?.has_analytics as boolean || false;
   const hasClickToCall = auditData?.has_click_to_call as boolean || false;
+  const techProfile = lead.tech_profile as TechProfile | null;
 
   const rating = (lead.google_rating as number) || 0;
   const reviewCount = (lead.google_review_count as number) || 0;
@@ -61,6 +67,17 @@ function generateComprehensivePitch(lead: Record<string, unknown>, audit: Record
   const aiChecks = (aiData?.checks || []) as Array<Record<string, unknown>>;
   const aiMentioned = aiChecks.filter(c => c.is_mentioned).length;
   const competitors = (audit.competitor_data || []) as Array<Record<string, unknown>>;
+  // Competitors whose homepage could be read for social links, and how many link to each network the lead doesn't
+  const competitorSocial = competitors
+    .map(c => c.social_platforms as Record<string, boolean> | null | undefined)
+    .filter((platforms): platforms is Record<string, boolean> => !!platforms);
+  const socialGaps = socialPlatforms
+    ? SOCIAL_PLATFORMS
+      .filter(p => !socialPlatforms[p.id])
+      .map(p => ({ label: p.label, competitors: competitorSocial.filter(platforms => platforms[p.id]).length }))
+      .filter(gap => gap.competitors > 0)
+      .sort((a, b) => b.competitors - a.competitors)
+    : [];
 
   const adScore = (adData?.ad_score as number) || 0;
   const gAds = adData?.google_ads as Record<string, unknown> | undefined;
@@ -290,6 +307,22 @@ function generateComprehensivePitch(lead: Record<string, unknown>, audit: Record
       solution: `We'll set up and optimise profiles on Instagram, Facebook, and Google Business Profile. Your website will link to these, and we'll create a content calendar with weekly posts showcasing your work, client results, and behind-the-scenes content.`,
       timeline: 'Week 1-2 setup, ongoing content',
     });
+  } else if (missingSocial.length >= 3 || socialGaps.length > 0) {
+    const topGap = socialGaps[0];
+    const gapCounts = socialGaps.map(gap => `${gap.competitors} link to ${gap.label}`).join(', ');
+    problems.push({
+      title: topGap
+        ? `No ${topGap.label} while ${topGap.competitors} of ${competitorSocial.length} competitors are on it`
+        : `Not on ${missingSocial.slice(0, 3).join(', ')}`,
+      severity: topGap && topGap.competitors * 2 > competitorSocial.length ? 'medium' : 'low',
+      finding: `Your website links to ${linkedSocial.join(' and ')}, but not to ${missingSocial.join(', ')}.`
+        + (socialGaps.length > 0 ? ` Of the ${competitorSocial.length} local competitors we checked, ${gapCounts}.` : ` Customers who find businesses on those platforms won't find you there.`),
+      impact: topGap
+        ? `Customers browsing ${topGap.label} for businesses like yours find ${topGap.competitors === 1 ? 'a competitor' : `${topGap.competitors} of your competitors`} there and not you. Each platform reaches a different audience, and that audience is already following someone else.`
+        : `Each platform reaches a different audience: TikTok and YouTube are where people discover treatments and services through short videos, Facebook is where local recommendations get shared. Competitors who post there regularly are building an audience you're not reaching.`,
+      solution: `We'll set up profiles on the platforms that suit your business, link them from your website, and repurpose your existing content so each one stays active without extra work for your team.`,
+      timeline: 'Week 2-4 setup, ongoing content',
+    });
   }
 
   // Sort by severity
@@ -302,6 +335,9 @@ function generateComprehensivePitch(lead: Record<string, unknown>, audit: Record
   if (mobileScore > 0) dataPoints.push({ label: 'Mobile Score', value: `${mobileScore}/100`, type: mobileScore >= 70 ? 'positive' : 'negative' });
   dataPoints.push({ label: 'SSL Certificate', value: hasSsl ? 'Secure ✓' : 'Not Secure ✗', type: hasSsl ? 'positive' : 'negative' });
   dataPoints.push({ label: 'Online Booking', value: hasBooking ? 'Available ✓' : 'Missing ✗', type: hasBooking ? 'positive' : 'negative' });
+  if (techProfile) dataPoints.push({ label: 'Website Platform', value: techProfile.cms?.join(', ') || 'Custom build', type: 'neutral' });
+  if (techProfile?.booking) dataPoints.push({ label: 'Booking Platform', value: techProfile.booking.join(', '), type: 'neutral' });
+  if (socialPlatforms) dataPoints.push({ label: 'Social Profiles', value: `${linkedSocial.length}/${SOCIAL_PLATFORMS.length} platforms`, type: linkedSocial.length >= 3 ? 'positive' : 'negative' });
   if (rating > 0) dataPoints.push({ label: 'Google Rating', value: `${rating.toFixed(1)}/5 (${reviewCount} reviews)`, type: rating >= 4.5 ? 'positive' : 'negative' });
   if (seoScore > 0) dataPoints.push({ label: 'SEO Score', value: `${seoScore}/100`, type: seoScore >= 60 ? 'positive' : 'negative' });
   if (aiChecks.length > 0) dataPoints.push({ label: 'AI Visibility', value: `${aiMentioned}/${aiChecks.length} queries`, type: aiMentioned > aiChecks.length * 0.5 ? 'positive' : 'negative' });
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { selectSources } from '@/lib/sources';
+import { buildScrapeOptions } from '@/lib/scrape-jobs';
+import { nextRunAt } from '@/lib/saved-searches';
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+const SCHEDULES = ['daily', 'weekly'];
+const MODES = ['save', 'flag'];
+
+// Saved searches with their most recent runs
+export async function GET() {
+  try {
+    const { data: searches, error } = await supabase.from('saved_searches').select('*').order('created_at', { ascending: false });
+    if (error) throw error;
+    const { data: runs } = await supabase.from('saved_search_runs')
+      .select('id, saved_search_id, status, results_count, new_count, saved_count, error, created_at, finished_at')
+      .order('created_at', { ascending: false })
+      .limit(200);
+    return NextResponse.json({
+      searches: (searches || []).map(s => ({ ...s, runs: (runs || []).filter(r => r.saved_search_id === s.id).slice(0, 10) })),
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not load saved searches';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { niche, country = 'United Kingdom', source = 'all', schedule = 'weekly', mode = 'flag', options = {} } = body;
+    const location = body.location || (typeof options.center === 'string' ? options.center.trim() : '');
+    if (!niche || !location) {
+      return NextResponse.json({ error: 'Niche and location are required' }, { status: 400 });
+    }
+    if (!SCHEDULES.includes(schedule) || !MODES.includes(mode)) {
+      return NextResponse.json({ error: 'Schedule must be daily or weekly, and mode save or flag' }, { status: 400 });
+    }
+
+    let scrapeOptions;
+    try {
+      selectSources(source, country);
+      scrapeOptions = await buildScrapeOptions(options, country);
+    } catch (e: unknown) {
+      return NextResponse.json({ error: e instanceof Error ? e.message : 'Invalid search' }, { status: 400 });
+    }
+
+    const { data, error } = await supabase.from('saved_searches').insert({
+      name: body.name || `${niche} in ${location}`,
+      niche, location, country, source, schedule, mode,
+      options: scrapeOptions,
+      enabled: true,
+      // First run on the next cron tick
+      next_run_at: new Date().toISOString(),
+    }).select().single();
+    if (error) throw error;
+
+    return NextResponse.json({ search: { ...data, runs: [] } });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not save search';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// Pause/resume or change the schedule or mode
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id, enabled, schedule, mode } = await request.json();
+    if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+
+    const updates: Record<string, unknown> = {};
+    if (typeof enabled === 'boolean') updates.enabled = enabled;
+    if (SCHEDULES.includes(schedule)) {
+      updates.schedule = schedule;
+      updates.next_run_at = nextRunAt(schedule);
+    }
+    if (MODES.includes(mode)) updates.mode = mode;
+
+    const { data, error } = await supabase.from('saved_searches').update(updates).eq('id', id).select().single();
+    if (error) throw error;
+    return NextResponse.json({ search: data });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not update saved search';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+    const { error } = await supabase.from('saved_searches').delete().eq('id', id);
+    if (error) throw error;
+    return NextResponse.json({ success: true });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Could not delete saved search';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { waitUntil } from '@vercel/functions';
+import { enqueueDueSavedSearches, finishSavedSearchRun, startSavedSearch } from '@/lib/saved-searches';
+import { runQueuedScrapeJob } from '@/lib/scrape-jobs';
+import type { SavedSearch } from '@/lib/types';
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+export const maxDuration = 300;
+
+// ─── SCHEDULED RUNS ────────────────────────────────────────────
+// Hit by a cron every hour (vercel.json). Due searches are only queued here; the
+// scrape worker runs their jobs and finishes the runs. Set CRON_SECRET to require
+// `Authorization: Bearer <secret>`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  try {
+    const runs = await enqueueDueSavedSearches();
+    return NextResponse.json({ queued: runs.length, runs });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Scheduled run failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+// ─── RUN NOW ───────────────────────────────────────────────────
+// Queues the run and starts its job after responding, as /api/scrape does
+export async function POST(request: NextRequest) {
+  try {
+    const { id } = await request.json();
+    if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+    const { data: search } = await supabase.from('saved_searches').select('*').eq('id', id).maybeSingle();
+    if (!search) return NextResponse.json({ error: 'Saved search not found' }, { status: 404 });
+
+    const run = await startSavedSearch(search as SavedSearch);
+    if (run.status === 'error') return NextResponse.json({ error: run.error || 'Run failed', run }, { status: 500 });
+    const jobId = run.job_id as string;
+    // If this function dies first, the worker runs the job and finishes the run
+    waitUntil(runQueuedScrapeJob(jobId)
+      .then(() => finishSavedSearchRun(jobId))
+      .catch(err => console.error(`Saved search job ${jobId} failed:`, err)));
+    return NextResponse.json({ run, jobId }, { status: 202 });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Run failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
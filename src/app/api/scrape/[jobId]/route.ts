@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { failStaleScrapeJob } from '@/lib/scrape-jobs';
+import type { ScrapeJob } from '@/lib/types';
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+
+// Poll a scrape job for per-source progress and partial results. A job whose runner
+// died is reported failed, so the search page stops polling it.
+export async function GET(_request: NextRequest, { params }: { params: { jobId: string } }) {
+  const { data: job, error } = await supabase.from('scrape_jobs').select('*').eq('id', params.jobId).maybeSingle();
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+  if (!job) return NextResponse.json({ error: 'Scrape job not found' }, { status: 404 });
+  return NextResponse.json({ job: await failStaleScrapeJob(job as ScrapeJob) });
+}
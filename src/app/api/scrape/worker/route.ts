@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { failStaleScrapeJobs, runNextQueuedScrapeJob } from '@/lib/scrape-jobs';
+import { finishSavedSearchRuns } from '@/lib/saved-searches';
+
+export const maxDuration = 300;
+
+// ─── JOB WORKER ────────────────────────────────────────────────
+// Hit by a cron every minute (vercel.json). Fails jobs that lost their runner, runs
+// the oldest queued job, then finishes the saved search runs whose jobs are done.
+// Set CRON_SECRET to require `Authorization: Bearer <secret>`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  try {
+    const failed = await failStaleScrapeJobs();
+    const job = await runNextQueuedScrapeJob();
+    const runs = await finishSavedSearchRuns();
+    return NextResponse.json({ failed: failed.map(j => j.id), ran: job?.id || null, finishedRuns: runs.map(r => r.id) });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Worker run failed';
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
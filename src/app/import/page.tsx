@@ -2,12 +2,17 @@
 
 import { useState, useRef } from 'react';
 import Link from 'next/link';
-import { Upload, FileText, Check, AlertCircle, Loader2, Database, Download } from 'lucide-react';
+import { Upload, FileText, Check, AlertCircle, Loader2, Database, Download, Ban } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { BulkLeadOutcome, BulkLeadRow } from '@/lib/types';
+
+// Rows per /api/leads/bulk request; each batch is saved in one transaction
+const BATCH_SIZE = 500;
 
 interface ImportResult {
   imported: number;
   duplicates: number;
+  excluded: { business_name: string; reason: string }[]; // Rows on an exclusion list (Settings)
   errors: number;
   total: number;
 }
@@ -38,14 +43,32 @@ export default function ImportPage() {
       const response = await fetch('/api/import', { method: 'POST', body: formData });
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Import failed');
-      setResult(data);
+      const rows: BulkLeadRow[] = data.rows;
+
+      const outcomes: BulkLeadOutcome[] = [];
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        const batch = await fetch('/api/leads/bulk', {
+          method: 'POST', headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rows: rows.slice(i, i + BATCH_SIZE), source: 'csv_import', on_existing: 'skip', description: `CSV import of ${file.name}` }),
+        });
+        const saved = await batch.json();
+        if (!batch.ok) throw new Error(saved.error || 'Import failed');
+        outcomes.push(...saved.outcomes);
+      }
+      setResult({
+        imported: outcomes.filter(o => o.status === 'inserted').length,
+        duplicates: outcomes.filter(o => o.status === 'duplicate').length,
+        excluded: outcomes.flatMap((o, i) => o.status === 'excluded' ? [{ business_name: rows[i].business_name || '', reason: o.message || '' }] : []),
+        errors: outcomes.filter(o => o.status === 'invalid' || o.status === 'error').length,
+        total: rows.length,
+      });
     } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Import failed');
     } finally { setImporting(false); }
   };
 
   const downloadTemplate = () => {
-    const csv = 'business_name,email,phone,website,address,city,country,instagram,rating,reviews\n"Example Med Spa","hello@example.com","+44 7700 900000","https://example.com","123 High Street","London","United Kingdom","https://instagram.com/example","4.5","47"\n';
+    const csv = 'business_name,email,phone,website,address,city,country,instagram,rating,reviews,contact name,role,contact email,linkedin\n"Example Med Spa","hello@example.com","+44 7700 900000","https://example.com","123 High Street","London","United Kingdom","https://instagram.com/example","4.5","47","Jane Smith","Owner","jane@example.com","https://www.linkedin.com/in/janesmith"\n';
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a'); a.href = url; a.download = 'prospex-import-template.csv'; a.click(); URL.revokeObjectURL(url);
@@ -110,7 +133,7 @@ export default function ImportPage() {
             <div className="w-10 h-10 rounded-lg bg-prospex-green/20 flex items-center justify-center"><Check className="w-5 h-5 text-prospex-green" /></div>
             <div><p className="text-sm font-semibold text-prospex-text">Import Complete</p><p className="text-xs text-prospex-dim">{result.total} rows processed</p></div>
           </div>
-          <div className="grid grid-cols-3 gap-3">
+          <div className="grid grid-cols-4 gap-3">
             <div className="p-3 bg-prospex-green/10 border border-prospex-green/30 rounded-lg text-center">
               <p className="text-2xl font-mono font-bold text-prospex-green">{result.imported}</p>
               <p className="text-xs text-prospex-dim mt-1">Imported</p>
@@ -119,11 +142,26 @@ export default function ImportPage() {
               <p className="text-2xl font-mono font-bold text-prospex-amber">{result.duplicates}</p>
               <p className="text-xs text-prospex-dim mt-1">Duplicates</p>
             </div>
+            <div className="p-3 bg-prospex-surface border border-prospex-border rounded-lg text-center">
+              <p className="text-2xl font-mono font-bold text-prospex-muted">{result.excluded.length}</p>
+              <p className="text-xs text-prospex-dim mt-1">Excluded</p>
+            </div>
             <div className="p-3 bg-prospex-red/10 border border-prospex-red/30 rounded-lg text-center">
               <p className="text-2xl font-mono font-bold text-prospex-red">{result.errors}</p>
               <p className="text-xs text-prospex-dim mt-1">Errors</p>
             </div>
           </div>
+          {result.excluded.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-mono text-prospex-muted flex items-center gap-1.5"><Ban className="w-3.5 h-3.5" /> Skipped: on an exclusion list</p>
+              {result.excluded.map((row, i) => (
+                <div key={i} className="flex items-center justify-between gap-3 text-xs">
+                  <span className="text-prospex-text truncate">{row.business_name}</span>
+                  <span className="text-prospex-dim shrink-0">{row.reason}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="flex gap-3">
             <Link href="/leads" className="btn-primary flex-1 justify-center"><Database className="w-4 h-4" /> View Leads</Link>
             <button onClick={() => { setFile(null); setResult(null); }} className="btn-ghost flex-1">Import More</button>
@@ -146,6 +184,10 @@ export default function ImportPage() {
             { field: 'Instagram', aliases: 'instagram, ig, instagram_url' },
             { field: 'Rating', aliases: 'rating, google_rating, stars' },
             { field: 'Reviews', aliases: 'reviews, review_count' },
+            { field: 'Contact Name', aliases: 'contact name, owner, first name + last name' },
+            { field: 'Contact Role', aliases: 'role, job title, position' },
+            { field: 'Contact Email', aliases: 'contact email, owner email' },
+            { field: 'LinkedIn', aliases: 'linkedin, linkedin url' },
           ].map(item => (
             <div key={item.field} className="p-2 bg-prospex-bg rounded">
               <p className="font-mono text-prospex-text font-medium">{item.field}</p>
@@ -9,6 +9,7 @@ import {
   Phone,
   Mail,
   MapPin,
+  Clock,
   Star,
   Shield,
   Microscope,
@@ -27,10 +28,31 @@ import {
   Copy,
   Zap,
   ChevronDown,
+  Users,
+  Linkedin,
+  Crown,
+  Facebook,
+  Youtube,
+  Twitter,
+  Music2,
+  Share2,
+  type LucideIcon,
 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-import { cn, getScoreColor, getScoreBgColor, getGrade, getSourceConfig, getPriorityConfig, formatDate, formatRelativeTime } from '@/lib/utils';
-import type { Lead, DeepAudit, ActivityLog } from '@/lib/types';
+import { cn, getScoreColor, getScoreBgColor, getGrade, getSourceConfig, getPriorityConfig, formatDate, formatRelativeTime, getWhatsAppUrl, PHONE_TYPE_LABELS, EMAIL_STATUS_CONFIG } from '@/lib/utils';
+import { getProvenanceLabel } from '@/lib/provenance';
+import { SOCIAL_PLATFORMS } from '@/lib/social';
+import { TECH_CATEGORIES } from '@/lib/tech';
+import type { Lead, Contact, DeepAudit, ActivityLog, FieldProvenance, SocialPlatform } from '@/lib/types';
+
+const SOCIAL_ICONS: Record<SocialPlatform, LucideIcon> = {
+  instagram: Instagram,
+  facebook: Facebook,
+  tiktok: Music2,
+  linkedin: Linkedin,
+  youtube: Youtube,
+  x: Twitter,
+};
 
 interface Pitch {
   id: string;
@@ -80,6 +102,18 @@ function AuditCheck({ label, value, type = 'boolean' }: { label: string; value:
   );
 }
 
+// Where a contact field came from, and how far to trust it
+function FieldSource({ provenance }: { provenance?: FieldProvenance }) {
+  if (!provenance) return <span className="text-[10px] text-prospex-dim font-mono">source unknown</span>;
+  const pct = Math.round(provenance.confidence * 100);
+  const color = pct >= 80 ? 'text-prospex-green' : pct >= 60 ? 'text-prospex-amber' : 'text-prospex-red';
+  return (
+    <span className="text-[10px] text-prospex-dim font-mono" title={`Captured ${formatDate(provenance.captured_at)}`}>
+      via {getProvenanceLabel(provenance.source)} · {formatRelativeTime(provenance.captured_at)} · <span className={color}>{pct}% confidence</span>
+    </span>
+  );
+}
+
 export default function LeadDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -87,6 +121,7 @@ export default function LeadDetailPage() {
   const [lead, setLead] = useState<Lead | null>(null);
   const [deepAudit, setDeepAudit] = useState<DeepAudit | null>(null);
   const [activities, setActivities] = useState<ActivityLog[]>([]);
+  const [contacts, setContacts] = useState<Contact[]>([]);
   const [loading, setLoading] = useState(true);
   const [auditLoading, setAuditLoading] = useState(false);
   const [ghlLoading, setGhlLoading] = useState(false);
@@ -130,6 +165,16 @@ export default function LeadDetailPage() {
 
       setDeepAudit(daData);
 
+      // Fetch named contacts, primary first
+      const { data: contactData } = await supabase
+        .from('contacts')
+        .select('*')
+        .eq('lead_id', leadId)
+        .order('is_primary', { ascending: false })
+        .order('created_at', { ascending: true });
+
+      setContacts(contactData || []);
+
       // Fetch activities
       const { data: actData } = await supabase
         .from('activity_log')
@@ -217,6 +262,19 @@ export default function LeadDetailPage() {
     }
   };
 
+  // At most one primary per lead, so the old one is cleared first
+  const handleMakePrimary = async (contact: Contact) => {
+    await supabase.from('contacts').update({ is_primary: false }).eq('lead_id', contact.lead_id).eq('is_primary', true);
+    await supabase.from('contacts').update({ is_primary: true }).eq('id', contact.id);
+    await fetchLead();
+  };
+
+  const handleDeleteContact = async (contact: Contact) => {
+    if (!confirm(`Remove ${contact.name || contact.email} from this lead?`)) return;
+    await supabase.from('contacts').delete().eq('id', contact.id);
+    await fetchLead();
+  };
+
   const handleDelete = async () => {
     if (!lead) return;
     if (!confirm(`Delete "${lead.business_name}"? This cannot be undone.`)) return;
@@ -330,8 +388,8 @@ export default function LeadDetailPage() {
               </div>
             )}
           </div>
-          {lead.phone && (
-            <a href={`https://wa.me/${lead.phone.replace(/[^0-9]/g, "")}?text=Hi%2C%20I%20came%20across%20your%20business%20and%20wanted%20to%20reach%20out.`} target="_blank" rel="noopener noreferrer" className="btn text-xs bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30">
+          {lead.phone && lead.phone_whatsapp && (
+            <a href={getWhatsAppUrl(lead.phone)} target="_blank" rel="noopener noreferrer" className="btn text-xs bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30">
               <MessageCircle className="w-3.5 h-3.5" /> WhatsApp
             </a>
           )}
@@ -375,6 +433,7 @@ export default function LeadDetailPage() {
                   <span className="font-mono font-bold text-lg text-prospex-text">{lead.google_rating.toFixed(1)}</span>
                 </div>
                 <p className="text-xs text-prospex-dim">{lead.google_review_count} reviews</p>
+                <FieldSource provenance={lead.field_sources?.google_rating} />
               </div>
             )}
           </div>
@@ -386,16 +445,48 @@ export default function LeadDetailPage() {
                 <span className="text-prospex-muted">{lead.address}</span>
               </div>
             )}
+            {lead.opening_hours && (
+              <div className="flex items-center gap-3 text-sm">
+                <Clock className="w-4 h-4 text-prospex-dim shrink-0" />
+                <span className="text-prospex-muted">{lead.opening_hours}</span>
+              </div>
+            )}
             {lead.phone && (
               <div className="flex items-center gap-3 text-sm">
                 <Phone className="w-4 h-4 text-prospex-dim shrink-0" />
                 <a href={`tel:${lead.phone}`} className="text-prospex-cyan hover:underline">{lead.phone}</a>
+                {lead.phone_type && <span className="text-[10px] text-prospex-dim">{PHONE_TYPE_LABELS[lead.phone_type]}</span>}
+                <FieldSource provenance={lead.field_sources?.phone} />
               </div>
             )}
             {lead.email && (
               <div className="flex items-center gap-3 text-sm">
                 <Mail className="w-4 h-4 text-prospex-dim shrink-0" />
                 <a href={`mailto:${lead.email}`} className="text-prospex-cyan hover:underline">{lead.email}</a>
+                {lead.email_status && <span className={cn('badge', EMAIL_STATUS_CONFIG[lead.email_status].color)} title={lead.email_verified_at ? `Verified ${formatDate(lead.email_verified_at)}` : undefined}>{EMAIL_STATUS_CONFIG[lead.email_status].label}</span>}
+                <FieldSource provenance={lead.field_sources?.email} />
+              </div>
+            )}
+            {lead.instagram_url && (
+              <div className="flex items-center gap-3 text-sm">
+                <Instagram className="w-4 h-4 text-prospex-dim shrink-0" />
+                <a href={lead.instagram_url} target="_blank" rel="noopener noreferrer" className="text-prospex-cyan hover:underline">{lead.instagram_url.replace(/https?:\/\/(www\.)?/, '')}</a>
+                <FieldSource provenance={lead.field_sources?.instagram_url} />
+              </div>
+            )}
+            {SOCIAL_PLATFORMS.some(p => p.id !== 'instagram' && lead.social_profiles?.[p.id]) && (
+              <div className="flex items-center gap-3 text-sm">
+                <Share2 className="w-4 h-4 text-prospex-dim shrink-0" />
+                <div className="flex flex-wrap items-center gap-3">
+                  {SOCIAL_PLATFORMS.filter(p => p.id !== 'instagram' && lead.social_profiles?.[p.id]).map(platform => {
+                    const Icon = SOCIAL_ICONS[platform.id];
+                    return (
+                      <a key={platform.id} href={lead.social_profiles[platform.id]} target="_blank" rel="noopener noreferrer" className="text-prospex-cyan hover:underline flex items-center gap-1" title={lead.social_profiles[platform.id]}>
+                        <Icon className="w-3.5 h-3.5" /> {platform.label}
+                      </a>
+                    );
+                  })}
+                </div>
               </div>
             )}
             {lead.website && (
@@ -404,6 +495,7 @@ export default function LeadDetailPage() {
                 <a href={lead.website} target="_blank" rel="noopener noreferrer" className="text-prospex-cyan hover:underline flex items-center gap-1">
                   {lead.website} <ExternalLink className="w-3 h-3" />
                 </a>
+                <FieldSource provenance={lead.field_sources?.website} />
               </div>
             )}
           </div>
@@ -447,6 +539,49 @@ export default function LeadDetailPage() {
         </div>
       </div>
 
+      {/* Contacts */}
+      {contacts.length > 0 && (
+        <div className="card p-6">
+          <h2 className="font-mono font-semibold text-prospex-text flex items-center gap-2 mb-4">
+            <Users className="w-5 h-5 text-prospex-cyan" />
+            Contacts
+          </h2>
+          <div className="space-y-2">
+            {contacts.map(contact => (
+              <div key={contact.id} className="flex items-center justify-between gap-4 p-3 bg-prospex-bg rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-prospex-text">{contact.name || 'Unnamed'}</span>
+                    {contact.role && <span className="text-xs text-prospex-muted">{contact.role}</span>}
+                    {contact.is_primary && (
+                      <span className="badge bg-prospex-cyan/20 text-prospex-cyan border-prospex-cyan/40">
+                        <Crown className="w-3 h-3" /> Primary
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3 mt-1 text-xs">
+                    {contact.email && <a href={`mailto:${contact.email}`} className="text-prospex-cyan hover:underline flex items-center gap-1"><Mail className="w-3 h-3" /> {contact.email}</a>}
+                    {contact.phone && <a href={`tel:${contact.phone}`} className="text-prospex-cyan hover:underline flex items-center gap-1"><Phone className="w-3 h-3" /> {contact.phone}</a>}
+                    {contact.linkedin_url && <a href={contact.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-prospex-cyan hover:underline flex items-center gap-1"><Linkedin className="w-3 h-3" /> LinkedIn</a>}
+                    <span className="text-[10px] text-prospex-dim font-mono">via {getProvenanceLabel(contact.source)}</span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {!contact.is_primary && (
+                    <button onClick={() => handleMakePrimary(contact)} className="btn-ghost text-xs" title="Send outreach and the GHL push to this person">
+                      <Crown className="w-3.5 h-3.5" /> Make primary
+                    </button>
+                  )}
+                  <button onClick={() => handleDeleteContact(contact)} className="p-1.5 rounded hover:bg-prospex-red/20 text-prospex-dim hover:text-prospex-red transition-colors" title="Remove contact">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Website Audit Results */}
       {lead.audit_data && (
         <div className="card p-6">
@@ -479,6 +614,33 @@ export default function LeadDetailPage() {
               <AuditCheck label="Schema Markup" value={lead.audit_data.has_schema} />
             </div>
           </div>
+          {lead.audit_data.social_platforms && (
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <span className="text-sm text-prospex-muted mr-1">Social platforms linked</span>
+              {SOCIAL_PLATFORMS.map(platform => {
+                const Icon = SOCIAL_ICONS[platform.id];
+                const linked = lead.audit_data!.social_platforms![platform.id];
+                return (
+                  <span key={platform.id} className={cn('badge', linked ? 'bg-prospex-green/20 text-prospex-green border-prospex-green/40' : 'bg-prospex-red/10 text-prospex-red border-prospex-red/30')}>
+                    <Icon className="w-3 h-3" /> {platform.label}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+          {lead.tech_profile && (
+            <div className="mt-4 pt-4 border-t border-prospex-border space-y-2">
+              <span className="text-sm text-prospex-muted">Built with</span>
+              {TECH_CATEGORIES.map(category => (
+                <div key={category.id} className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-prospex-dim font-mono w-44">{category.label}</span>
+                  {lead.tech_profile![category.id]?.length
+                    ? lead.tech_profile![category.id]!.map(name => <span key={name} className="badge bg-prospex-cyan/10 text-prospex-cyan border-prospex-cyan/30">{name}</span>)
+                    : <span className="text-xs text-prospex-dim">None detected</span>}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
 
@@ -568,8 +730,8 @@ export default function LeadDetailPage() {
                     <a href={`/pitch/${pitch.id}`} target="_blank" rel="noopener noreferrer" className="btn-ghost text-xs">
                       <ExternalLink className="w-3.5 h-3.5" /> View
                     </a>
-                    {lead?.phone && (
-                      <a href={`https://wa.me/${lead.phone.replace(/[^0-9]/g, "")}?text=${encodeURIComponent(`Hi! I put together a quick report for ${lead.business_name} — take a look: ${pitchUrl}`)}`} target="_blank" rel="noopener noreferrer" className="btn text-xs bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30">
+                    {lead?.phone && lead.phone_whatsapp && (
+                      <a href={getWhatsAppUrl(lead.phone, `Hi! I put together a quick report for ${lead.business_name} — take a look: ${pitchUrl}`)} target="_blank" rel="noopener noreferrer" className="btn text-xs bg-green-500/20 text-green-400 border border-green-500/40 hover:bg-green-500/30">
                         <Send className="w-3.5 h-3.5" /> Send
                       </a>
                     )}
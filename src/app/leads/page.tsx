@@ -4,8 +4,10 @@ import { useEffect, useState, useCallback } from 'react';
 import Link from 'next/link';
 import { Database, Search, Shield, Upload, Download, Trash2, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, RefreshCw, ExternalLink, Check, MessageCircle, Instagram, Flame, Sun, Snowflake } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-import { cn, getScoreColor, getSourceConfig, getPriorityConfig, formatDate } from '@/lib/utils';
-import type { Lead, TableSort, TableFilter } from '@/lib/types';
+import { listSourceMeta } from '@/lib/sources/meta';
+import { cn, getScoreColor, getSourceConfig, getPriorityConfig, formatDate, getWhatsAppUrl, EMAIL_STATUS_CONFIG } from '@/lib/utils';
+import { TECH_CATEGORIES, techInCategory } from '@/lib/tech';
+import type { EmailStatus, Lead, TableSort, TableFilter, TechCategory } from '@/lib/types';
 
 const PAGE_SIZE = 50;
 
@@ -25,11 +27,10 @@ function PriorityBadge({ priority }: { priority: 'hot' | 'warm' | 'cold' | null
   return <span className={cn('badge', config.bg, config.text, config.border)}>{config.emoji} {config.label}</span>;
 }
 
-function WhatsAppButton({ phone }: { phone: string | null }) {
-  if (!phone) return null;
-  const cleaned = phone.replace(/[^0-9+]/g, '');
+function WhatsAppButton({ phone, whatsapp }: { phone: string | null; whatsapp: boolean }) {
+  if (!phone || !whatsapp) return null;
   return (
-    <a href={`https://wa.me/${cleaned.replace('+', '')}?text=Hi%2C%20I%20came%20across%20your%20business%20and%20wanted%20to%20reach%20out.`}
+    <a href={getWhatsAppUrl(phone)}
       target="_blank" rel="noopener noreferrer"
       className="p-1.5 rounded hover:bg-green-500/20 text-prospex-dim hover:text-green-400 transition-colors" title="WhatsApp">
       <MessageCircle className="w-3.5 h-3.5" />
@@ -62,7 +63,7 @@ export default function LeadsPage() {
   const [page, setPage] = useState(0);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [sort, setSort] = useState<TableSort>({ column: 'created_at', direction: 'desc' });
-  const [filter, setFilter] = useState<TableFilter>({ search: '', source: null, priority: null, scoreRange: null, auditStatus: null });
+  const [filter, setFilter] = useState<TableFilter>({ search: '', source: null, priority: null, scoreRange: null, auditStatus: null, emailStatus: null, tech: null });
 
   const fetchLeads = useCallback(async () => {
     setLoading(true);
@@ -73,6 +74,11 @@ export default function LeadsPage() {
       if (filter.search) query = query.or(`business_name.ilike.%${filter.search}%,address.ilike.%${filter.search}%,email.ilike.%${filter.search}%`);
       if (filter.source) query = query.eq('source', filter.source);
       if (filter.priority) query = query.eq('lead_priority', filter.priority);
+      if (filter.emailStatus === 'not_verified') query = query.not('email', 'is', null).is('email_status', null);
+      else if (filter.emailStatus) query = query.eq('email_status', filter.emailStatus);
+      // A technology the site runs, or audited sites with nothing in that category
+      if (filter.tech?.name) query = query.contains('tech_profile', { [filter.tech.category]: [filter.tech.name] });
+      else if (filter.tech) query = query.not('tech_profile', 'is', null).is(`tech_profile->${filter.tech.category}`, null);
       const { data, count, error } = await query;
       if (error) throw error;
       setLeads(data || []);
@@ -138,11 +144,30 @@ export default function LeadsPage() {
           <input type="text" placeholder="Search leads..." value={filter.search} onChange={(e) => setFilter(prev => ({ ...prev, search: e.target.value }))} className="input pl-9" />
         </div>
         <select value={filter.source || ''} onChange={(e) => setFilter(prev => ({ ...prev, source: e.target.value || null }))} className="input w-auto">
-          <option value="">All Sources</option><option value="google_maps">Google Maps</option><option value="yelp">Yelp</option><option value="fresha">Fresha</option>
+          <option value="">All Sources</option>
+          {[...listSourceMeta().map(s => s.id), 'csv_import'].map(id => <option key={id} value={id}>{getSourceConfig(id).label}</option>)}
+        </select>
+        <select value={filter.emailStatus || ''} onChange={(e) => { setFilter(prev => ({ ...prev, emailStatus: (e.target.value || null) as TableFilter['emailStatus'] })); setPage(0); }} className="input w-auto">
+          <option value="">Any Email Status</option>
+          {(Object.keys(EMAIL_STATUS_CONFIG) as EmailStatus[]).map(status => <option key={status} value={status}>{EMAIL_STATUS_CONFIG[status].label}</option>)}
+          <option value="not_verified">Not verified</option>
+        </select>
+        <select value={filter.tech ? `${filter.tech.category}:${filter.tech.name || ''}` : ''} onChange={(e) => {
+          const [category, name] = e.target.value.split(/:(.*)/);
+          setFilter(prev => ({ ...prev, tech: category ? { category: category as TechCategory, name: name || null } : null })); setPage(0);
+        }} className="input w-auto">
+          <option value="">Any Technology</option>
+          {TECH_CATEGORIES.map(category => (
+            <optgroup key={category.id} label={category.label}>
+              <option value={`${category.id}:`}>None detected</option>
+              {techInCategory(category.id).map(name => <option key={name} value={`${category.id}:${name}`}>{name}</option>)}
+            </optgroup>
+          ))}
         </select>
         {selectedIds.size > 0 && (<>
           <div className="w-px h-6 bg-prospex-border" />
           <button onClick={async () => { await fetch('/api/score', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leadIds: Array.from(selectedIds) }) }); fetchLeads(); }} className="btn-ghost text-xs" title="Score selected leads">⭐ Score ({selectedIds.size})</button>
+          <button onClick={async () => { await fetch('/api/leads/verify-email', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leadIds: Array.from(selectedIds) }) }); fetchLeads(); }} className="btn-ghost text-xs" title="Check email deliverability">✉️ Verify ({selectedIds.size})</button>
           <button onClick={async () => { await fetch('/api/enrich', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leadIds: Array.from(selectedIds) }) }); fetchLeads(); }} className="btn-ghost text-xs" title="Enrich emails from websites">🔍 Enrich ({selectedIds.size})</button>
           <button onClick={handleExportCSV} className="btn-primary text-xs"><Download className="w-3.5 h-3.5" /> Export ({selectedIds.size})</button>
           <button onClick={handleBulkDelete} className="btn-danger text-xs"><Trash2 className="w-3.5 h-3.5" /> Delete ({selectedIds.size})</button>
@@ -177,6 +202,7 @@ export default function LeadsPage() {
                   <td className="px-3 py-3">
                     <Link href={`/leads/${lead.id}`} className="text-sm font-medium text-prospex-text hover:text-prospex-cyan transition-colors">{lead.business_name}</Link>
                     <p className="text-xs text-prospex-dim mt-0.5 truncate max-w-[250px]">{lead.address || lead.phone || 'No contact info'}</p>
+                    {lead.email && lead.email_status && <span title={lead.email} className={cn('badge mt-1', EMAIL_STATUS_CONFIG[lead.email_status].color)}>{EMAIL_STATUS_CONFIG[lead.email_status].label}</span>}
                   </td>
                   <td className="px-3 py-3"><SourceBadge source={lead.source} /></td>
                   <td className="px-3 py-3"><ScoreBadge score={lead.lead_score} /></td>
@@ -185,7 +211,7 @@ export default function LeadsPage() {
                   <td className="px-3 py-3">{lead.audit_status === 'complete' ? <span className="badge bg-prospex-green/20 text-prospex-green border-prospex-green/40"><Check className="w-3 h-3" /> {lead.audit_score}</span> : lead.audit_status === 'running' ? <span className="badge bg-prospex-amber/20 text-prospex-amber border-prospex-amber/40"><RefreshCw className="w-3 h-3 animate-spin" /> Running</span> : <span className="text-xs text-prospex-dim">—</span>}</td>
                   <td className="px-3 py-3 text-right">
                     <div className="flex items-center justify-end gap-0.5">
-                      <WhatsAppButton phone={lead.phone} />
+                      <WhatsAppButton phone={lead.phone} whatsapp={lead.phone_whatsapp} />
                       <InstagramButton url={lead.instagram_url} />
                       {lead.website && lead.audit_status !== 'complete' && <button onClick={() => fetch('/api/audit', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leadId: lead.id }) }).then(() => fetchLeads())} className="p-1.5 rounded hover:bg-prospex-amber/20 text-prospex-dim hover:text-prospex-amber transition-colors" title="Run Audit"><Shield className="w-3.5 h-3.5" /></button>}
                       {!lead.ghl_contact_id && <button onClick={() => fetch('/api/ghl', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ leadId: lead.id }) }).then(() => fetchLeads())} className="p-1.5 rounded hover:bg-prospex-green/20 text-prospex-dim hover:text-prospex-green transition-colors" title="Push to GHL"><Upload className="w-3.5 h-3.5" /></button>}
@@ -164,6 +164,7 @@ export default function DashboardPage() {
     ghl_push: 'bg-prospex-green',
     export: 'bg-blue-400',
     score: 'bg-pink-400',
+    enrich: 'bg-teal-400',
   };
 
   return (
@@ -1,27 +1,77 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Search, MapPin, Globe, Loader2, Check, Database, AlertCircle, Plus, Clock, Flag } from 'lucide-react';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { Search, MapPin, Globe, Loader2, Check, Database, AlertCircle, Plus, Clock, Flag, CalendarClock, Play, Pause, Trash2, Bookmark, Ban, ChevronDown, ChevronRight } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { cn, getSourceConfig, formatRelativeTime } from '@/lib/utils';
-import type { ScrapeResult, SearchHistory } from '@/lib/types';
+import { COUNTRY_OPTIONS } from '@/lib/countries';
+import { DIFF_FIELD_LABELS } from '@/lib/diff-fields';
+import type { BulkLeadOutcome, BulkLeadRow, DiffField, ExcludedResult, ResultMatch, SavedSearch, SavedSearchRun, ScrapeJob, ScrapeResult, SearchHistory, SourceInfo } from '@/lib/types';
 
-const COUNTRIES = ['United Kingdom', 'United States', 'Canada', 'Australia', 'Ireland', 'Germany', 'France', 'Spain', 'Italy', 'Netherlands'];
+// Rows per /api/leads/bulk request; each batch is saved in one transaction
+const SAVE_BATCH_SIZE = 500;
+
+type SourceOption = SourceInfo & { configured: boolean };
+type SavedSearchWithRuns = SavedSearch & { runs: Omit<SavedSearchRun, 'job_id' | 'new_businesses'>[] };
+
+function sourceOptionLabel(s: SourceOption): string {
+  const notes = [s.countries ? s.countries.join('/') : null, s.requiredKeys.length === 0 ? 'Free' : null, !s.configured ? 'no API key' : null].filter(Boolean);
+  return notes.length > 0 ? `${s.label} (${notes.join(', ')})` : s.label;
+}
+
+// Selection survives new results arriving, and merges, while the job is polled.
+// Results from before the job runner set ids fall back to their source and name.
+function resultKey(result: ScrapeResult): string {
+  return result.result_id || `${result.source}|${result.business_name}|${result.address || ''}`;
+}
+
+async function fetchMatches(results: ScrapeResult[], country: string): Promise<Map<ScrapeResult, ResultMatch>> {
+  const response = await fetch('/api/leads/match', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ results, country }) });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Could not check results against saved leads');
+  return new Map(results.map((r, i) => [r, data.matches[i] as ResultMatch]));
+}
+
+function formatDiffValue(value: string | number | null): string {
+  return value === null || value === '' ? '—' : String(value);
+}
 
 export default function SearchPage() {
   const [niche, setNiche] = useState('');
   const [location, setLocation] = useState('');
   const [country, setCountry] = useState('United Kingdom');
-  const [source, setSource] = useState<'google_maps' | 'yelp' | 'fresha' | 'all'>('google_maps');
+  const [source, setSource] = useState('google_maps');
+  const [sources, setSources] = useState<SourceOption[]>([]);
+  const [exhaustive, setExhaustive] = useState(false);
+  const [maxResults, setMaxResults] = useState(500);
+  const [radiusMode, setRadiusMode] = useState(false);
+  const [center, setCenter] = useState('');
+  const [radius, setRadius] = useState(5);
+  const [radiusUnit, setRadiusUnit] = useState<'mi' | 'km'>('mi');
+  const [forceRefresh, setForceRefresh] = useState(false);
   const [loading, setLoading] = useState(false);
   const [results, setResults] = useState<ScrapeResult[]>([]);
+  const [excluded, setExcluded] = useState<ExcludedResult[]>([]);
+  const [matches, setMatches] = useState<Map<ScrapeResult, ResultMatch>>(new Map());
+  const [acceptedFields, setAcceptedFields] = useState<Map<ScrapeResult, Set<DiffField>>>(new Map());
+  const [expandedDiff, setExpandedDiff] = useState<ScrapeResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(false);
-  const [selectedResults, setSelectedResults] = useState<Set<number>>(new Set());
+  const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
   const [searchHistory, setSearchHistory] = useState<SearchHistory[]>([]);
+  const [job, setJob] = useState<ScrapeJob | null>(null);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchWithRuns[]>([]);
+  const [saveSchedule, setSaveSchedule] = useState<SavedSearch['schedule']>('weekly');
+  const [saveMode, setSaveMode] = useState<SavedSearch['mode']>('flag');
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [runningSavedId, setRunningSavedId] = useState<string | null>(null);
+  const knownResults = useRef<Set<string>>(new Set());
 
   useEffect(() => {
+    fetch('/api/scrape').then(res => res.json()).then(data => setSources(data.sources || [])).catch(() => setSources([]));
+    fetch('/api/saved-searches').then(res => res.json()).then(data => setSavedSearches(data.searches || [])).catch(() => setSavedSearches([]));
     supabase.from('search_history').select('*').order('created_at', { ascending: false }).limit(20)
       .then(({ data }) => setSearchHistory(data || []));
     supabase.from('settings').select('default_niche, default_location, default_country').limit(1).maybeSingle()
@@ -34,43 +84,203 @@ export default function SearchPage() {
       });
   }, []);
 
+  const refreshHistory = async () => {
+    const { data: history } = await supabase.from('search_history').select('*').order('created_at', { ascending: false }).limit(20);
+    setSearchHistory(history || []);
+  };
+
+  // Pick up a job that is still running (e.g. the tab was closed mid-search)
+  useEffect(() => {
+    supabase.from('scrape_jobs').select('*').in('status', ['queued', 'running', 'enriching'])
+      .order('created_at', { ascending: false }).limit(1).maybeSingle()
+      .then(({ data }) => {
+        if (!data) return;
+        setNiche(data.niche); setLocation(data.location); setCountry(data.country); setSource(data.source);
+        setExhaustive(!!data.options?.exhaustive); if (data.options?.maxResults) setMaxResults(data.options.maxResults);
+        if (data.options?.centerLabel) {
+          setRadiusMode(true); setCenter(data.options.centerLabel);
+          if (data.options.radius) setRadius(data.options.radius);
+          setRadiusUnit(data.options.radiusUnit === 'km' ? 'km' : 'mi');
+        }
+        setJob(data as ScrapeJob); setLoading(true);
+      });
+  }, []);
+
+  // Label results against saved leads. Every changed field is accepted by default;
+  // possible duplicates are deselected until someone has looked at them.
+  const labelResults = async (list: ScrapeResult[], searchCountry: string) => {
+    try {
+      const labels = await fetchMatches(list, searchCountry);
+      setMatches(labels);
+      setAcceptedFields(new Map(Array.from(labels.entries()).map(([r, m]) => [r, new Set(m.diff.map(d => d.field))])));
+      const duplicates = new Set(list.filter(r => labels.get(r)?.status === 'possible_duplicate').map(resultKey));
+      setSelectedResults(prev => new Set(Array.from(prev).filter(key => !duplicates.has(key))));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not check results against saved leads');
+    }
+  };
+
+  // Poll the active job for per-source progress and partial results
+  useEffect(() => {
+    if (!job || job.status === 'complete' || job.status === 'error') return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/scrape/${job.id}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Lost track of search');
+        const next: ScrapeJob = data.job;
+        const nextResults = next.results || [];
+        // Newly arrived results are selected by default; ones merged away or excluded drop out
+        const keys = new Set(nextResults.map(resultKey));
+        const known = knownResults.current;
+        setSelectedResults(prev => new Set([...Array.from(prev).filter(key => keys.has(key)), ...Array.from(keys).filter(key => !known.has(key))]));
+        knownResults.current = keys;
+        setResults(nextResults);
+        setExcluded(next.excluded || []);
+        setJob(next);
+        if (next.status === 'error') { setError(next.error || 'Search failed'); setLoading(false); }
+        if (next.status === 'complete') {
+          if (nextResults.length === 0 && (next.excluded || []).length === 0) setError('No results found. Try a different niche or location.');
+          if (nextResults.length > 0) labelResults(nextResults, next.country);
+          setLoading(false);
+          refreshHistory();
+        }
+      } catch (err: unknown) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+        setLoading(false);
+      }
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  const searchBody = () => ({
+    niche, location, country, source,
+    options: { exhaustive, maxResults, forceRefresh, ...(radiusMode ? { center, radius, radiusUnit } : {}) },
+  });
+
+  const validateSearch = (): boolean => {
+    if (radiusMode && !center.trim()) { setError('Enter a postcode or lat,lng to search around'); return false; }
+    if (!niche.trim() || (!location.trim() && !radiusMode)) { setError('Please enter both a niche and location'); return false; }
+    return true;
+  };
+
   const handleSearch = async () => {
-    if (!niche.trim() || !location.trim()) { setError('Please enter both a niche and location'); return; }
-    setLoading(true); setError(null); setResults([]); setSaved(false); setSelectedResults(new Set());
+    if (!validateSearch()) return;
+    setLoading(true); setError(null); setResults([]); setExcluded([]); setMatches(new Map()); setAcceptedFields(new Map()); setExpandedDiff(null); setSaved(false); setSelectedResults(new Set()); setJob(null);
+    knownResults.current = new Set();
     try {
       const response = await fetch('/api/scrape', {
         method: 'POST', headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ niche, location, country, source }),
+        body: JSON.stringify(searchBody()),
       });
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Search failed');
-      setResults(data.results || []);
-      setSelectedResults(new Set((data.results || []).map((_: ScrapeResult, i: number) => i)));
-      if (data.results?.length === 0) setError('No results found. Try a different niche or location.');
-      // Save search history
-      await supabase.from('search_history').insert({ niche, location, country, source, results_count: data.results?.length || 0 });
-      const { data: history } = await supabase.from('search_history').select('*').order('created_at', { ascending: false }).limit(20);
-      setSearchHistory(history || []);
+      setJob(data.job);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Search failed';
       setError(message);
-    } finally { setLoading(false); }
+      setLoading(false);
+    }
+  };
+
+  // ─── Saved searches ───
+  const loadSavedSearches = async () => {
+    const response = await fetch('/api/saved-searches');
+    const data = await response.json();
+    setSavedSearches(data.searches || []);
+  };
+
+  // Runs are finished in the background; check back until none is still going
+  useEffect(() => {
+    if (!savedSearches.some(s => s.runs.some(run => run.status === 'running'))) return;
+    const timer = setTimeout(loadSavedSearches, 5000);
+    return () => clearTimeout(timer);
+  }, [savedSearches]);
+
+  const handleSaveSearch = async () => {
+    if (!validateSearch()) return;
+    setSavingSearch(true); setError(null);
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST', headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...searchBody(), schedule: saveSchedule, mode: saveMode }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Could not save search');
+      setSavedSearches(prev => [data.search, ...prev]);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not save search');
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const runSavedSearchNow = async (id: string) => {
+    setRunningSavedId(id);
+    try {
+      const response = await fetch('/api/saved-searches/run', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ id }) });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Run failed');
+      await loadSavedSearches();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Run failed');
+    } finally {
+      setRunningSavedId(null);
+    }
+  };
+
+  const toggleSavedSearch = async (s: SavedSearchWithRuns) => {
+    await fetch('/api/saved-searches', { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ id: s.id, enabled: !s.enabled }) });
+    setSavedSearches(prev => prev.map(x => x.id === s.id ? { ...x, enabled: !s.enabled } : x));
+  };
+
+  const deleteSavedSearch = async (id: string) => {
+    await fetch(`/api/saved-searches?id=${id}`, { method: 'DELETE' });
+    setSavedSearches(prev => prev.filter(x => x.id !== id));
+  };
+
+  // Load a flagged run's new businesses into the results table to review and save
+  const reviewRun = async (s: SavedSearchWithRuns, runId: string) => {
+    const { data } = await supabase.from('saved_search_runs').select('new_businesses').eq('id', runId).single();
+    const newBusinesses: ScrapeResult[] = data?.new_businesses || [];
+    setNiche(s.niche); setLocation(s.location); setCountry(s.country); setSource(s.source);
+    setJob(null); setError(null); setSaved(false); setExcluded([]); setMatches(new Map()); setAcceptedFields(new Map()); setExpandedDiff(null);
+    setResults(newBusinesses);
+    setSelectedResults(new Set(newBusinesses.map(resultKey)));
+    if (newBusinesses.length > 0) labelResults(newBusinesses, s.country);
   };
 
   const handleSaveAll = async () => {
-    const toSave = selectedResults.size > 0 ? results.filter((_, i) => selectedResults.has(i)) : results;
-    if (toSave.length === 0) return;
+    const selected = selectedResults.size > 0 ? results.filter(r => selectedResults.has(resultKey(r))) : results;
+    if (selected.length === 0) return;
     setSaving(true);
     try {
-      for (const result of toSave) {
-        const { data: existing } = await supabase.from('leads').select('id').eq('business_name', result.business_name).eq('source', result.source).maybeSingle();
-        if (existing) {
-          await supabase.from('leads').update({ phone: result.phone || undefined, email: result.email || undefined, website: result.website || undefined, instagram_url: result.instagram_url || undefined, google_rating: result.google_rating || undefined, google_review_count: result.google_review_count || undefined, updated_at: new Date().toISOString() }).eq('id', existing.id);
-        } else {
-          await supabase.from('leads').insert({ business_name: result.business_name, address: result.address, city: location, country, phone: result.phone, email: result.email, website: result.website, instagram_url: result.instagram_url, google_rating: result.google_rating, google_review_count: result.google_review_count, google_maps_url: result.google_maps_url, source: result.source });
-        }
+      // Existing leads take only the fields accepted in their diff
+      const rows: BulkLeadRow[] = selected.map(r => ({
+        ...r, city: location || r.city, country,
+        accept_fields: matches.get(r)?.status === 'existing' ? Array.from(acceptedFields.get(r) || []) : undefined,
+      }));
+      const outcomes: BulkLeadOutcome[] = [];
+      for (let i = 0; i < rows.length; i += SAVE_BATCH_SIZE) {
+        const response = await fetch('/api/leads/bulk', {
+          method: 'POST', headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ rows: rows.slice(i, i + SAVE_BATCH_SIZE), country, search_id: job?.search_id || null, on_existing: 'update', description: `Scraped leads for "${niche}" in "${job?.location || location}, ${country}" from ${source}` }),
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Save failed');
+        outcomes.push(...data.outcomes);
+      }
+
+      // Exclusion lists may have changed since the search ran (or these came from a saved search run)
+      const newlyExcluded: ExcludedResult[] = outcomes.flatMap((o, i) => o.status === 'excluded' ? [{ result: selected[i], reason: o.message || '', exclusion_id: o.exclusion_id || '' }] : []);
+      if (newlyExcluded.length > 0) {
+        setExcluded(prev => [...prev, ...newlyExcluded]);
+        setResults(prev => prev.filter(r => !newlyExcluded.some(e => e.result === r)));
+        const excludedKeys = new Set(newlyExcluded.map(e => resultKey(e.result)));
+        setSelectedResults(prev => new Set(Array.from(prev).filter(key => !excludedKeys.has(key))));
       }
-      await supabase.from('activity_log').insert({ action_type: 'scrape', description: `Scraped ${toSave.length} leads for "${niche}" in "${location}, ${country}" from ${source}` });
+      const failed = outcomes.find(o => o.status === 'error' || o.status === 'invalid');
+      if (failed) throw new Error(failed.message || 'Some leads could not be saved');
       setSaved(true);
     } catch (err: unknown) {
       const message = err instanceof Error ? err.message : 'Save failed';
@@ -78,9 +288,23 @@ export default function SearchPage() {
     } finally { setSaving(false); }
   };
 
-  const toggleResult = (index: number) => setSelectedResults(prev => { const next = new Set(prev); if (next.has(index)) next.delete(index); else next.add(index); return next; });
-  const toggleAll = () => selectedResults.size === results.length ? setSelectedResults(new Set()) : setSelectedResults(new Set(results.map((_, i) => i)));
-  const rerunSearch = (h: SearchHistory) => { setNiche(h.niche); setLocation(h.location); if (h.country) setCountry(h.country); setSource(h.source as typeof source); };
+  const toggleField = (result: ScrapeResult, field: DiffField) => setAcceptedFields(prev => {
+    const fields = new Set(prev.get(result) || []);
+    if (fields.has(field)) fields.delete(field); else fields.add(field);
+    return new Map(prev).set(result, fields);
+  });
+  const matchCounts = Array.from(matches.values()).reduce((counts, m) => ({ ...counts, [m.status]: (counts[m.status] || 0) + 1 }), {} as Record<string, number>);
+
+  const toggleResult = (key: string) => setSelectedResults(prev => { const next = new Set(prev); if (next.has(key)) next.delete(key); else next.add(key); return next; });
+  const toggleAll = () => selectedResults.size === results.length ? setSelectedResults(new Set()) : setSelectedResults(new Set(results.map(resultKey)));
+  const rerunSearch = (h: SearchHistory) => { setNiche(h.niche); setLocation(h.location); if (h.country) setCountry(h.country); setSource(h.source); };
+  const coversCountry = (s: SourceOption, c: string) => s.countries === null || s.countries.includes(c);
+  const availableSources = sources.filter(s => coversCountry(s, country));
+  const changeCountry = (c: string) => {
+    setCountry(c);
+    const current = sources.find(s => s.id === source);
+    if (current && !coversCountry(current, c)) setSource('all');
+  };
 
   return (
     <div className="max-w-7xl mx-auto flex gap-6">
@@ -88,7 +312,7 @@ export default function SearchPage() {
       <div className="flex-1 space-y-6">
         <div>
           <h1 className="text-2xl font-mono font-bold text-prospex-text flex items-center gap-3"><Search className="w-6 h-6 text-prospex-cyan" />Lead Search</h1>
-          <p className="text-sm text-prospex-dim mt-1">Find businesses from Google Maps, Yelp, and Fresha</p>
+          <p className="text-sm text-prospex-dim mt-1">Find businesses from {sources.length > 0 ? sources.map(s => s.label).join(', ') : 'Google Maps, Yelp, and more'}</p>
         </div>
 
         <div className="card p-6">
@@ -102,21 +326,22 @@ export default function SearchPage() {
             <div>
               <label className="block text-xs font-mono text-prospex-dim uppercase mb-1.5">Location</label>
               <div className="relative"><MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-prospex-dim" />
-                <input type="text" placeholder="e.g. London" value={location} onChange={(e) => setLocation(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSearch()} className="input pl-9" />
+                <input type="text" placeholder={radiusMode ? 'Optional label' : 'e.g. London'} value={location} onChange={(e) => setLocation(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSearch()} className="input pl-9" />
               </div>
             </div>
             <div>
               <label className="block text-xs font-mono text-prospex-dim uppercase mb-1.5">Country</label>
               <div className="relative"><Flag className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-prospex-dim" />
-                <select value={country} onChange={(e) => setCountry(e.target.value)} className="input pl-9">
-                  {COUNTRIES.map(c => <option key={c} value={c}>{c}</option>)}
+                <select value={country} onChange={(e) => changeCountry(e.target.value)} className="input pl-9">
+                  {COUNTRY_OPTIONS.map(c => <option key={c} value={c}>{c}</option>)}
                 </select>
               </div>
             </div>
             <div>
               <label className="block text-xs font-mono text-prospex-dim uppercase mb-1.5">Source</label>
-              <select value={source} onChange={(e) => setSource(e.target.value as typeof source)} className="input">
-                <option value="google_maps">Google Maps</option><option value="yelp">Yelp</option><option value="fresha">Fresha</option><option value="yell">Yell.com (UK Free)</option><option value="yellow_pages">Yellow Pages (US Free)</option><option value="bark">Bark.com (Free)</option><option value="all">All Sources</option>
+              <select value={source} onChange={(e) => setSource(e.target.value)} className="input">
+                {availableSources.map(s => <option key={s.id} value={s.id}>{sourceOptionLabel(s)}</option>)}
+                <option value="all">All Sources</option>
               </select>
             </div>
             <div className="flex items-end">
@@ -125,14 +350,81 @@ export default function SearchPage() {
               </button>
             </div>
           </div>
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-xs font-mono text-prospex-muted cursor-pointer">
+              <input type="checkbox" checked={radiusMode} onChange={(e) => setRadiusMode(e.target.checked)} className="rounded" />
+              Search by radius
+            </label>
+            {radiusMode && (
+              <>
+                <input type="text" placeholder="Postcode or lat,lng" value={center} onChange={(e) => setCenter(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleSearch()} className="input w-48 py-1" />
+                <label className="flex items-center gap-2 text-xs font-mono text-prospex-dim">
+                  within
+                  <input type="number" min={0.5} max={100} step={0.5} value={radius} onChange={(e) => setRadius(Number(e.target.value) || 5)} className="input w-20 py-1" />
+                  <select value={radiusUnit} onChange={(e) => setRadiusUnit(e.target.value as 'mi' | 'km')} className="input w-20 py-1">
+                    <option value="mi">miles</option>
+                    <option value="km">km</option>
+                  </select>
+                </label>
+              </>
+            )}
+            <label className="flex items-center gap-2 text-xs font-mono text-prospex-muted cursor-pointer" title="Ignore cached provider responses and spend credits on a fresh fetch">
+              <input type="checkbox" checked={forceRefresh} onChange={(e) => setForceRefresh(e.target.checked)} className="rounded" />
+              Refresh cached results
+            </label>
+          </div>
+          {(source === 'google_maps' || source === 'all') && (
+            <div className="mt-4 flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-xs font-mono text-prospex-muted cursor-pointer">
+                <input type="checkbox" checked={exhaustive} onChange={(e) => setExhaustive(e.target.checked)} className="rounded" />
+                Exhaustive Google Maps search (splits the area into map tiles)
+              </label>
+              {exhaustive && (
+                <label className="flex items-center gap-2 text-xs font-mono text-prospex-dim">
+                  Max results (credit ceiling)
+                  <input type="number" min={50} max={5000} step={50} value={maxResults} onChange={(e) => setMaxResults(Number(e.target.value) || 500)} className="input w-24 py-1" />
+                </label>
+              )}
+            </div>
+          )}
+          <div className="mt-4 flex flex-wrap items-center gap-3 pt-4 border-t border-prospex-border/50">
+            <span className="text-xs font-mono text-prospex-dim flex items-center gap-1.5"><CalendarClock className="w-3.5 h-3.5" />Rerun this search</span>
+            <select value={saveSchedule} onChange={(e) => setSaveSchedule(e.target.value as SavedSearch['schedule'])} className="input w-28 py-1">
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+            </select>
+            <select value={saveMode} onChange={(e) => setSaveMode(e.target.value as SavedSearch['mode'])} className="input w-56 py-1">
+              <option value="flag">Flag new businesses for review</option>
+              <option value="save">Save new businesses as leads</option>
+            </select>
+            <button onClick={handleSaveSearch} disabled={savingSearch} className="btn-ghost text-xs">
+              {savingSearch ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Bookmark className="w-3.5 h-3.5" />}Save search
+            </button>
+          </div>
           {error && <div className="mt-4 p-3 bg-prospex-red/10 border border-prospex-red/30 rounded-lg flex items-center gap-2"><AlertCircle className="w-4 h-4 text-prospex-red shrink-0" /><p className="text-sm text-prospex-red">{error}</p></div>}
+          {job && (loading || Object.values(job.source_status || {}).some(st => st.status === 'error')) && (
+            <div className="mt-4 p-3 bg-prospex-bg border border-prospex-border rounded-lg">
+              <p className="text-xs font-mono text-prospex-muted mb-2">
+                {job.status === 'queued' ? 'Queued…' : job.status === 'running' ? 'Searching sources…' : job.status === 'enriching' ? 'Enriching results from websites…' : job.status === 'complete' ? 'Search complete' : 'Search failed'}
+                {loading && <span className="text-prospex-dim"> · keeps running if you leave this page</span>}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(job.source_status || {}).map(([id, st]) => (
+                  <span key={id} title={st.error || undefined} className={cn('badge', st.status === 'complete' ? 'bg-prospex-green/20 text-prospex-green border-prospex-green/40' : st.status === 'error' ? 'bg-prospex-red/20 text-prospex-red border-prospex-red/40' : st.status === 'running' ? 'bg-prospex-amber/20 text-prospex-amber border-prospex-amber/40' : 'bg-prospex-surface text-prospex-dim border-prospex-border')}>
+                    {st.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                    {getSourceConfig(id).label}{st.status === 'complete' && ` · ${st.count}`}{st.status === 'error' && ' · failed'}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Results */}
         {results.length > 0 && (
           <div className="card overflow-hidden">
             <div className="p-4 border-b border-prospex-border flex items-center justify-between">
-              <div><h2 className="font-mono font-semibold text-prospex-text text-sm">{results.length} Results Found</h2><p className="text-xs text-prospex-dim mt-0.5">{selectedResults.size} selected</p></div>
+              <div><h2 className="font-mono font-semibold text-prospex-text text-sm">{results.length} Results Found</h2><p className="text-xs text-prospex-dim mt-0.5">{selectedResults.size} selected{matches.size > 0 && ` · ${matchCounts.new || 0} new · ${matchCounts.existing || 0} already saved · ${matchCounts.possible_duplicate || 0} possible duplicates`}</p></div>
               <div className="flex items-center gap-2">
                 <button onClick={toggleAll} className="btn-ghost text-xs">{selectedResults.size === results.length ? 'Deselect All' : 'Select All'}</button>
                 <button onClick={handleSaveAll} disabled={saving || saved || selectedResults.size === 0} className={cn(saved ? 'btn-success' : 'btn-primary', 'text-xs')}>
@@ -152,24 +444,90 @@ export default function SearchPage() {
                   <th className="text-left px-3 py-2.5 text-xs font-mono text-prospex-dim uppercase">Source</th>
                 </tr></thead>
                 <tbody>
-                  {results.map((result, index) => (
-                    <tr key={index} className={cn('table-row cursor-pointer', selectedResults.has(index) && 'bg-prospex-cyan/5')} onClick={() => toggleResult(index)}>
-                      <td className="px-3 py-2.5"><input type="checkbox" checked={selectedResults.has(index)} onChange={() => toggleResult(index)} className="rounded" /></td>
-                      <td className="px-3 py-2.5"><p className="text-sm font-medium text-prospex-text">{result.business_name}</p><p className="text-xs text-prospex-dim truncate max-w-[200px]">{result.address || '—'}</p></td>
+                  {results.map(result => {
+                    const key = resultKey(result);
+                    const match = matches.get(result);
+                    const accepted = acceptedFields.get(result) || new Set<DiffField>();
+                    return (
+                    <Fragment key={key}>
+                    <tr className={cn('table-row cursor-pointer', selectedResults.has(key) && 'bg-prospex-cyan/5')} onClick={() => toggleResult(key)}>
+                      <td className="px-3 py-2.5"><input type="checkbox" checked={selectedResults.has(key)} onChange={() => toggleResult(key)} className="rounded" /></td>
+                      <td className="px-3 py-2.5">
+                        <p className="text-sm font-medium text-prospex-text">{result.business_name}</p>
+                        <p className="text-xs text-prospex-dim truncate max-w-[200px]">{result.address || '—'}</p>
+                        {match && (
+                          <div className="flex items-center gap-1.5 mt-1" onClick={(e) => e.stopPropagation()}>
+                            {match.status === 'new' && <span className="badge bg-prospex-green/20 text-prospex-green border-prospex-green/40">New</span>}
+                            {match.status === 'existing' && match.lead && <Link href={`/leads/${match.lead.id}`} className="badge bg-prospex-cyan/20 text-prospex-cyan border-prospex-cyan/40">Already saved</Link>}
+                            {match.status === 'possible_duplicate' && match.lead && <Link href={`/leads/${match.lead.id}`} title={`Looks like ${match.lead.business_name}`} className="badge bg-prospex-amber/20 text-prospex-amber border-prospex-amber/40">Possible duplicate</Link>}
+                            {match.status === 'existing' && (match.diff.length > 0
+                              ? <button onClick={() => setExpandedDiff(expandedDiff === result ? null : result)} className="text-xs text-prospex-muted hover:text-prospex-text flex items-center gap-0.5">{expandedDiff === result ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}{accepted.size}/{match.diff.length} changes</button>
+                              : <span className="text-xs text-prospex-dim">No changes</span>)}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-3 py-2.5"><span className="text-xs text-prospex-muted font-mono">{result.phone || <span className="text-prospex-dim">—</span>}</span></td>
                       <td className="px-3 py-2.5"><span className="text-xs text-prospex-muted truncate block max-w-[150px]">{result.email || <span className="text-prospex-dim">—</span>}</span></td>
                       <td className="px-3 py-2.5">{result.website ? <span className="text-xs text-prospex-cyan truncate block max-w-[120px]">{result.website.replace(/https?:\/\/(www\.)?/, '')}</span> : <span className="text-xs text-prospex-dim">—</span>}</td>
                       <td className="px-3 py-2.5">{result.google_rating ? <span className="text-xs font-mono text-prospex-text">{result.google_rating.toFixed(1)} <span className="text-prospex-dim">({result.google_review_count})</span></span> : <span className="text-xs text-prospex-dim">—</span>}</td>
                       <td className="px-3 py-2.5">{(() => { const config = getSourceConfig(result.source); return <span className={cn('badge', config.color)}>{config.label}</span>; })()}</td>
                     </tr>
-                  ))}
+                    {/* What saving would change on the existing lead; unticked fields are left as they are */}
+                    {match && expandedDiff === result && (
+                      <tr className="bg-prospex-bg">
+                        <td />
+                        <td colSpan={6} className="px-3 py-2.5">
+                          <table className="w-full">
+                            <thead><tr>
+                              <th className="w-8" />
+                              <th className="text-left py-1 text-xs font-mono text-prospex-dim uppercase">Field</th>
+                              <th className="text-left py-1 text-xs font-mono text-prospex-dim uppercase">Saved</th>
+                              <th className="text-left py-1 text-xs font-mono text-prospex-dim uppercase">New scrape</th>
+                            </tr></thead>
+                            <tbody>
+                              {match.diff.map(d => (
+                                <tr key={d.field} className="cursor-pointer" onClick={() => toggleField(result, d.field)}>
+                                  <td className="py-1"><input type="checkbox" checked={accepted.has(d.field)} onChange={() => toggleField(result, d.field)} onClick={(e) => e.stopPropagation()} className="rounded" /></td>
+                                  <td className="py-1 text-xs text-prospex-muted">{DIFF_FIELD_LABELS[d.field]}</td>
+                                  <td className="py-1 text-xs text-prospex-dim line-through truncate max-w-[240px]">{formatDiffValue(d.current)}</td>
+                                  <td className="py-1 text-xs text-prospex-text truncate max-w-[240px]">{formatDiffValue(d.incoming)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                    </Fragment>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           </div>
         )}
 
-        {!loading && results.length === 0 && !error && (
+        {/* Excluded: on an exclusion list (Settings), shown with the reason and never saved */}
+        {excluded.length > 0 && (
+          <div className="card overflow-hidden">
+            <div className="p-4 border-b border-prospex-border">
+              <h2 className="font-mono font-semibold text-prospex-muted text-sm flex items-center gap-2"><Ban className="w-4 h-4" /> {excluded.length} Excluded</h2>
+              <p className="text-xs text-prospex-dim mt-0.5">On an exclusion list, so not saved. Manage lists in Settings.</p>
+            </div>
+            <table className="w-full">
+              <tbody>
+                {excluded.map((e, index) => (
+                  <tr key={index} className="table-row">
+                    <td className="px-3 py-2.5"><p className="text-sm text-prospex-muted">{e.result.business_name}</p><p className="text-xs text-prospex-dim truncate max-w-[240px]">{e.result.website?.replace(/https?:\/\/(www\.)?/, '') || e.result.phone || e.result.address || '—'}</p></td>
+                    <td className="px-3 py-2.5 text-right"><span className="badge bg-prospex-surface text-prospex-dim border-prospex-border">{e.reason}</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!loading && results.length === 0 && excluded.length === 0 && !error && (
           <div className="card p-12 text-center">
             <Search className="w-12 h-12 text-prospex-dim mx-auto mb-3" /><p className="text-sm text-prospex-dim font-mono">Enter a niche and location to find leads</p>
             <div className="flex flex-wrap items-center justify-center gap-2 mt-4">
@@ -181,22 +539,67 @@ export default function SearchPage() {
         )}
       </div>
 
-      {/* Search History Sidebar */}
-      <div className="w-72 shrink-0">
-        <h2 className="text-sm font-mono font-semibold text-prospex-muted uppercase tracking-wider mb-3 flex items-center gap-2"><Clock className="w-4 h-4" /> Search History</h2>
-        <div className="space-y-2 max-h-[calc(100vh-200px)] overflow-y-auto">
-          {searchHistory.length === 0 ? (
-            <div className="card p-4 text-center"><p className="text-xs text-prospex-dim font-mono">No searches yet</p></div>
-          ) : searchHistory.map(h => (
-            <button key={h.id} onClick={() => rerunSearch(h)} className="card card-interactive p-3 w-full text-left">
-              <p className="text-xs font-medium text-prospex-text truncate">{h.niche} in {h.location}</p>
-              <div className="flex items-center justify-between mt-1">
-                <span className="text-[10px] text-prospex-dim font-mono">{h.results_count} results · {h.source}</span>
-                <span className="text-[10px] text-prospex-dim font-mono">{formatRelativeTime(h.created_at)}</span>
-              </div>
-              {h.country && <p className="text-[10px] text-prospex-dim mt-0.5">{h.country}</p>}
-            </button>
-          ))}
+      {/* Saved Searches + Search History Sidebar */}
+      <div className="w-72 shrink-0 space-y-6">
+        {savedSearches.length > 0 && (
+          <div>
+            <h2 className="text-sm font-mono font-semibold text-prospex-muted uppercase tracking-wider mb-3 flex items-center gap-2"><CalendarClock className="w-4 h-4" /> Saved Searches</h2>
+            <div className="space-y-2">
+              {savedSearches.map(s => (
+                <div key={s.id} className={cn('card p-3', !s.enabled && 'opacity-60')}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-medium text-prospex-text truncate">{s.name}</p>
+                      <p className="text-[10px] text-prospex-dim font-mono">{s.schedule} · {s.mode === 'save' ? 'auto-save' : 'flag only'}{s.last_run_at && ` · ran ${formatRelativeTime(s.last_run_at)}`}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button onClick={() => runSavedSearchNow(s.id)} disabled={runningSavedId !== null} title="Run now" className="text-prospex-dim hover:text-prospex-cyan">
+                        {runningSavedId === s.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                      </button>
+                      <button onClick={() => toggleSavedSearch(s)} title={s.enabled ? 'Pause' : 'Resume'} className="text-prospex-dim hover:text-prospex-amber">
+                        {s.enabled ? <Pause className="w-3.5 h-3.5" /> : <CalendarClock className="w-3.5 h-3.5" />}
+                      </button>
+                      <button onClick={() => deleteSavedSearch(s.id)} title="Delete" className="text-prospex-dim hover:text-prospex-red"><Trash2 className="w-3.5 h-3.5" /></button>
+                    </div>
+                  </div>
+                  {s.runs.length > 0 && (
+                    <div className="mt-2 space-y-1">
+                      {s.runs.slice(0, 5).map(run => (
+                        <div key={run.id} className="flex items-center justify-between text-[10px] font-mono">
+                          <span className="text-prospex-dim">{formatRelativeTime(run.created_at)}</span>
+                          {run.status === 'complete' ? (
+                            run.new_count > 0 && s.mode === 'flag'
+                              ? <button onClick={() => reviewRun(s, run.id)} className="text-prospex-green hover:underline">{run.new_count} new · review</button>
+                              : <span className={run.new_count > 0 ? 'text-prospex-green' : 'text-prospex-dim'}>{run.new_count} new{run.saved_count > 0 && ` · ${run.saved_count} saved`}</span>
+                          ) : run.status === 'error' ? (
+                            <span className="text-prospex-red" title={run.error || undefined}>failed</span>
+                          ) : <span className="text-prospex-amber">running…</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h2 className="text-sm font-mono font-semibold text-prospex-muted uppercase tracking-wider mb-3 flex items-center gap-2"><Clock className="w-4 h-4" /> Search History</h2>
+          <div className="space-y-2 max-h-[calc(100vh-200px)] overflow-y-auto">
+            {searchHistory.length === 0 ? (
+              <div className="card p-4 text-center"><p className="text-xs text-prospex-dim font-mono">No searches yet</p></div>
+            ) : searchHistory.map(h => (
+              <button key={h.id} onClick={() => rerunSearch(h)} className="card card-interactive p-3 w-full text-left">
+                <p className="text-xs font-medium text-prospex-text truncate">{h.niche} in {h.location}</p>
+                <div className="flex items-center justify-between mt-1">
+                  <span className="text-[10px] text-prospex-dim font-mono">{h.results_count} results · {h.source}</span>
+                  <span className="text-[10px] text-prospex-dim font-mono">{formatRelativeTime(h.created_at)}</span>
+                </div>
+                {h.country && <p className="text-[10px] text-prospex-dim mt-0.5">{h.country}</p>}
+              </button>
+            ))}
+          </div>
         </div>
       </div>
     </div>
@@ -1,15 +1,18 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Settings, Save, Eye, EyeOff, Check, X, Loader2, Wifi, AlertCircle, Building } from 'lucide-react';
+import { Settings, Save, Eye, EyeOff, Check, X, Loader2, Wifi, AlertCircle, Building, Ban, Plus, Trash2 } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
+import { EXCLUSION_KINDS } from '@/lib/exclusions';
+import type { Exclusion, ExclusionKind } from '@/lib/types';
 
 interface ApiKeyField { key: string; label: string; envName: string; placeholder: string; group: string; }
 
 const fields: ApiKeyField[] = [
   { key: 'outscraper_key', label: 'Outscraper API Key', envName: 'OUTSCRAPER_API_KEY', placeholder: 'Enter Outscraper API key', group: 'Scraping' },
   { key: 'apify_key', label: 'Apify API Token', envName: 'APIFY_API_TOKEN', placeholder: 'Enter Apify token', group: 'Scraping' },
+  { key: 'bing_maps_key', label: 'Bing Maps Key', envName: 'BING_MAPS_KEY', placeholder: 'Enter Bing Maps key', group: 'Scraping' },
   { key: 'firecrawl_key', label: 'Firecrawl API Key', envName: 'FIRECRAWL_API_KEY', placeholder: 'Enter Firecrawl API key', group: 'Auditing' },
   { key: 'openai_key', label: 'OpenAI API Key', envName: 'OPENAI_API_KEY', placeholder: 'sk-...', group: 'AI' },
   { key: 'dataforseo_login', label: 'DataForSEO Login', envName: 'DATAFORSEO_LOGIN', placeholder: 'Enter login email', group: 'SEO' },
@@ -18,6 +21,65 @@ const fields: ApiKeyField[] = [
   { key: 'ghl_location_id', label: 'GHL Location ID', envName: 'GHL_LOCATION_ID', placeholder: 'Enter GHL Location ID', group: 'CRM' },
 ];
 
+// Saved as soon as they're added or removed, separately from the Save Settings button
+function ExclusionLists() {
+  const [exclusions, setExclusions] = useState<Exclusion[]>([]);
+  const [kind, setKind] = useState<ExclusionKind>('domain');
+  const [value, setValue] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.from('exclusions').select('*').order('created_at', { ascending: false })
+      .then(({ data }) => setExclusions(data || []));
+  }, []);
+
+  const addExclusion = async () => {
+    if (!value.trim()) return;
+    setError(null);
+    const { data, error: insertError } = await supabase.from('exclusions')
+      .insert({ kind, value: value.trim(), note: note.trim() || null }).select().single();
+    if (insertError || !data) { setError(insertError?.message || 'Could not add exclusion'); return; }
+    setExclusions(prev => [data, ...prev]);
+    setValue(''); setNote('');
+  };
+
+  const removeExclusion = async (id: string) => {
+    await supabase.from('exclusions').delete().eq('id', id);
+    setExclusions(prev => prev.filter(e => e.id !== id));
+  };
+
+  const placeholder = EXCLUSION_KINDS.find(k => k.id === kind)?.placeholder;
+
+  return (
+    <div className="card p-6">
+      <h2 className="font-mono font-semibold text-prospex-text text-sm uppercase tracking-wider mb-1 flex items-center gap-2"><Ban className="w-4 h-4" />Exclusion Lists</h2>
+      <p className="text-xs text-prospex-dim mb-4">Existing clients, chains and do-not-contact businesses. Matching results are set aside in searches and skipped on import. Use * in name patterns as a wildcard.</p>
+      <div className="flex items-center gap-2">
+        <select value={kind} onChange={(e) => setKind(e.target.value as ExclusionKind)} className="input w-44">
+          {EXCLUSION_KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+        </select>
+        <input type="text" value={value} onChange={(e) => setValue(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addExclusion()} placeholder={placeholder} className="input flex-1" />
+        <input type="text" value={note} onChange={(e) => setNote(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && addExclusion()} placeholder="Reason (optional)" className="input flex-1" />
+        <button onClick={addExclusion} disabled={!value.trim()} className="btn-primary text-xs whitespace-nowrap"><Plus className="w-3.5 h-3.5" /> Add</button>
+      </div>
+      {error && <p className="text-xs text-prospex-red mt-2">{error}</p>}
+      {exclusions.length > 0 && (
+        <div className="mt-4 space-y-1.5">
+          {exclusions.map(e => (
+            <div key={e.id} className="flex items-center gap-3 text-xs">
+              <span className="badge bg-prospex-surface text-prospex-dim border-prospex-border w-32 justify-center">{EXCLUSION_KINDS.find(k => k.id === e.kind)?.label}</span>
+              <span className="font-mono text-prospex-text flex-1 truncate">{e.value}</span>
+              {e.note && <span className="text-prospex-dim truncate">{e.note}</span>}
+              <button onClick={() => removeExclusion(e.id)} title="Remove" className="text-prospex-dim hover:text-prospex-red"><Trash2 className="w-3.5 h-3.5" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function SettingsPage() {
   const [settings, setSettings] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
@@ -153,6 +215,8 @@ export default function SettingsPage() {
         <div className="mt-4"><label className="block text-xs font-mono text-prospex-muted mb-1.5">GHL Pipeline ID</label><input type="text" value={ghlPipelineId} onChange={(e) => setGhlPipelineId(e.target.value)} placeholder="Pipeline ID" className="input" /></div>
       </div>
 
+      <ExclusionLists />
+
       <div className="p-4 bg-prospex-cyan/5 border border-prospex-cyan/20 rounded-lg flex items-start gap-3">
         <AlertCircle className="w-5 h-5 text-prospex-cyan shrink-0 mt-0.5" />
         <div className="text-xs text-prospex-muted"><p className="font-semibold text-prospex-text mb-1">Agency Profile saves permanently</p><p>Your agency name, email, phone, and calendar link will auto-fill on every pitch page and export. Set it once here and forget about it.</p></div>
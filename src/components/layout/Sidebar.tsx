@@ -4,6 +4,7 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { LayoutDashboard, Database, Search, Settings, Crosshair, FileText, BarChart3, Columns3, Upload } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { isSandbox } from '@/lib/sandbox/mode';
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
@@ -51,10 +52,17 @@ export default function Sidebar() {
       </nav>
 
       <div className="p-4 border-t border-prospex-border">
-        <div className="flex items-center gap-2">
-          <div className="w-2 h-2 rounded-full bg-prospex-green animate-pulse-slow" />
-          <span className="text-[10px] font-mono text-prospex-dim">SYSTEM ONLINE</span>
-        </div>
+        {isSandbox() ? (
+          <div className="flex items-center gap-2" title="Provider calls are answered with sample data; no API credits are used">
+            <div className="w-2 h-2 rounded-full bg-prospex-amber animate-pulse-slow" />
+            <span className="text-[10px] font-mono text-prospex-amber">SANDBOX MODE</span>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-prospex-green animate-pulse-slow" />
+            <span className="text-[10px] font-mono text-prospex-dim">SYSTEM ONLINE</span>
+          </div>
+        )}
         <p className="text-[10px] font-mono text-prospex-dim mt-1">Prospex v2.0 Elite</p>
       </div>
     </aside>
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { matchesLocation, parseAddress } from '../address';
+import type { ScrapeResult } from '../types';
+
+// Geocoding (lib/geo) caches through Supabase; nothing here geocodes
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function result(address: string, country: string): ScrapeResult {
+  return {
+    business_name: 'Peachtree Dental', address, city: null, country, phone: null, email: null, website: null,
+    instagram_url: null, google_rating: null, google_review_count: null, google_maps_url: null,
+    latitude: null, longitude: null, opening_hours: null, source: 'yellow_pages',
+  };
+}
+
+describe('parseAddress', () => {
+  it('reads a trailing state that shares its name with a country as the state', () => {
+    expect(parseAddress('230 Peachtree St NW, Atlanta, Georgia', 'United States'))
+      .toEqual({ street: '230 Peachtree St NW', city: 'Atlanta', region: 'GA', postcode: null, country_code: 'us' });
+  });
+
+  it('reads a trailing state abbreviation as the state, not a country code', () => {
+    expect(parseAddress('800 W Olympic Blvd, Los Angeles, CA', 'United States'))
+      .toMatchObject({ city: 'Los Angeles', region: 'CA', country_code: 'us' });
+  });
+
+  it('prefers the longest spelled-out region', () => {
+    expect(parseAddress('1 Capitol St, Charleston, West Virginia 25301', 'United States'))
+      .toMatchObject({ city: 'Charleston', region: 'WV', postcode: '25301' });
+  });
+
+  it('still reads a trailing country', () => {
+    expect(parseAddress('12 Rustaveli Ave, Tbilisi, Georgia', 'United Kingdom'))
+      .toMatchObject({ city: 'Tbilisi', country_code: 'ge' });
+  });
+
+  it('reads a territory searched with the country as a place in it', () => {
+    expect(parseAddress('12 High St, Jersey', 'United Kingdom'))
+      .toEqual({ street: '12 High St', city: 'Jersey', region: null, postcode: null, country_code: 'gb' });
+  });
+
+  it('joins a unit or shop number to the street after it', () => {
+    expect(parseAddress('Shop 3, 120 George St, Sydney NSW 2000', 'Australia'))
+      .toEqual({ street: 'Shop 3, 120 George St', city: 'Sydney', region: 'NSW', postcode: '2000', country_code: 'au' });
+    expect(parseAddress('Unit 4B, Kirkstall Rd, Leeds, LS3 1LH', 'United Kingdom'))
+      .toMatchObject({ street: 'Unit 4B, Kirkstall Rd', city: 'Leeds' });
+  });
+});
+
+describe('matchesLocation', () => {
+  const target = { query: 'Atlanta, Georgia', country: 'United States', area: null };
+
+  it('keeps results in Atlanta, Georgia', () => {
+    expect(matchesLocation(result('230 Peachtree St NW, Atlanta, Georgia', 'United States'), target)).toBe(true);
+  });
+
+  it('keeps a Jersey address in a UK search for Jersey', () => {
+    expect(matchesLocation(result('12 High St, Jersey', 'United Kingdom'), { query: 'Jersey', country: 'United Kingdom', area: null })).toBe(true);
+  });
+
+  it('drops results from another city', () => {
+    expect(matchesLocation(result('100 Congress Ave, Austin, Texas', 'United States'), target)).toBe(false);
+  });
+});
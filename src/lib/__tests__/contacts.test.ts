@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { planContacts } from '../contacts';
+import type { Contact, ContactDetails } from '@/lib/types';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function saved(id: string, details: Partial<Contact>): Contact {
+  return { id, lead_id: 'lead-1', name: null, role: null, email: null, phone: null, linkedin_url: null, source: 'website_crawl', is_primary: false, created_at: '2026-01-01T00:00:00Z', ...details };
+}
+
+function found(details: Partial<ContactDetails>): ContactDetails {
+  return { name: null, role: null, email: null, phone: null, linkedin_url: null, source: 'csv_import', ...details };
+}
+
+describe('planContacts', () => {
+  it('picks the best new contact for a lead with no contacts', () => {
+    const manager = found({ name: 'Sam Lee', role: 'Practice Manager' });
+    const owner = found({ name: 'Jane Doe', role: 'Owner' });
+    expect(planContacts([], [manager, owner])).toEqual({ fresh: [manager, owner], primary: owner });
+  });
+
+  it('picks from saved and new contacts together when the lead has no primary', () => {
+    const owner = saved('c1', { name: 'Jane Doe', role: 'Owner', email: 'jane@salon.co.uk' });
+    const receptionist = saved('c2', { name: 'Amy Hart', role: 'Receptionist' });
+    const manager = found({ name: 'Sam Lee', role: 'Practice Manager' });
+    const { fresh, primary } = planContacts([receptionist, owner], [manager]);
+    expect(fresh).toEqual([manager]);
+    expect(primary).toBe(owner);
+  });
+
+  it('skips people the lead already has', () => {
+    const owner = saved('c1', { name: 'Jane Doe', role: 'Owner' });
+    expect(planContacts([owner], [found({ name: 'jane doe', role: 'Owner' })]).fresh).toEqual([]);
+  });
+
+  it('keeps a primary contact that is already set', () => {
+    const receptionist = saved('c1', { name: 'Amy Hart', role: 'Receptionist', is_primary: true });
+    expect(planContacts([receptionist], [found({ name: 'Jane Doe', role: 'Owner' })]).primary).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setEmailResolver, verifyEmail, verifyInBatches, type EmailResolver } from '../email-verification';
+
+// A resolver answering from fixed tables: mail hosts per domain, and what each
+// host says when asked to deliver to a made-up recipient
+function standIn(hosts: Record<string, string[]>, probes: Record<string, boolean | null> = {}): EmailResolver & { lookups: string[] } {
+  const lookups: string[] = [];
+  return {
+    lookups,
+    async mailHosts(domain) {
+      lookups.push(domain);
+      if (!(domain in hosts)) throw Object.assign(new Error('DNS timed out'), { code: 'ETIMEOUT' });
+      return hosts[domain];
+    },
+    async acceptsAnyRecipient(host) {
+      return probes[host] ?? null;
+    },
+  };
+}
+
+describe('verifyEmail', () => {
+  beforeEach(() => setEmailResolver(null));
+  afterEach(() => setEmailResolver(null));
+
+  it('marks an address on a domain with no mail server invalid', async () => {
+    setEmailResolver(standIn({ 'closed-salon.co.uk': [] }));
+    const { email_status, email_checks } = await verifyEmail('jane@closed-salon.co.uk');
+    expect(email_status).toBe('invalid');
+    expect(email_checks).toMatchObject({ syntax: true, mx: false, catch_all: null });
+  });
+
+  it('passes an address with a mail server when SMTP probing is off', async () => {
+    setEmailResolver(standIn({ 'glowclinic.co.uk': ['mx1.glowclinic.co.uk'] }));
+    const { email_status, email_checks } = await verifyEmail('jane@glowclinic.co.uk');
+    expect(email_status).toBe('valid');
+    expect(email_checks).toMatchObject({ mx: true, catch_all: null, role: false, disposable: false });
+  });
+
+  it('passes an address whose mail server rejects made-up recipients', async () => {
+    setEmailResolver(standIn({ 'glowclinic.co.uk': ['mx1.glowclinic.co.uk'] }, { 'mx1.glowclinic.co.uk': false }));
+    const { email_status, email_checks } = await verifyEmail('Jane@GlowClinic.co.uk');
+    expect(email_status).toBe('valid');
+    expect(email_checks.catch_all).toBe(false);
+  });
+
+  it('flags a catch-all domain', async () => {
+    setEmailResolver(standIn({ 'acceptall.com': ['mail.acceptall.com'] }, { 'mail.acceptall.com': true }));
+    const { email_status, email_checks } = await verifyEmail('anyone@acceptall.com');
+    expect(email_status).toBe('catch_all');
+    expect(email_checks.catch_all).toBe(true);
+  });
+
+  it('flags a role mailbox on a working domain', async () => {
+    setEmailResolver(standIn({ 'glowclinic.co.uk': ['mx1.glowclinic.co.uk'] }, { 'mx1.glowclinic.co.uk': false }));
+    const { email_status, email_checks } = await verifyEmail('info+web@glowclinic.co.uk');
+    expect(email_status).toBe('role');
+    expect(email_checks.role).toBe(true);
+  });
+
+  it('reports unknown when DNS cannot answer', async () => {
+    setEmailResolver(standIn({}));
+    const { email_status, email_checks } = await verifyEmail('jane@flaky-dns.com');
+    expect(email_status).toBe('unknown');
+    expect(email_checks.mx).toBeNull();
+  });
+
+  it('rejects bad syntax without a lookup', async () => {
+    const resolver = standIn({});
+    setEmailResolver(resolver);
+    expect((await verifyEmail('jane@@glowclinic')).email_status).toBe('invalid');
+    expect(resolver.lookups).toEqual([]);
+  });
+
+  it('looks each domain up once', async () => {
+    const resolver = standIn({ 'glowclinic.co.uk': ['mx1.glowclinic.co.uk'] });
+    setEmailResolver(resolver);
+    await Promise.all(['jane@glowclinic.co.uk', 'sam@glowclinic.co.uk', 'info@glowclinic.co.uk'].map(verifyEmail));
+    expect(resolver.lookups).toEqual(['glowclinic.co.uk']);
+  });
+});
+
+describe('verifyInBatches', () => {
+  it('keeps only a few verifications in flight, and results in order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const verify = vi.fn(async (n: number) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return n * 2;
+    });
+    const items = Array.from({ length: 23 }, (_, i) => i);
+    expect(await verifyInBatches(items, verify)).toEqual(items.map(n => n * 2));
+    expect(peak).toBeLessThanOrEqual(5);
+    expect(verify).toHaveBeenCalledTimes(23);
+  });
+
+  it('reports progress after every batch', async () => {
+    const done: number[] = [];
+    await verifyInBatches(Array.from({ length: 12 }, (_, i) => i), async n => n, count => { done.push(count); });
+    expect(done).toEqual([5, 10, 12]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { resolveEntities } from '../entity-resolution';
+import type { ParsedAddress, ScrapeResult } from '../types';
+
+// Distances come from lib/geo, which caches through Supabase; nothing here geocodes
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+function result(details: Partial<ScrapeResult>): ScrapeResult {
+  return {
+    business_name: 'Glow Skin Clinic', address: null, city: 'Leeds', country: 'United Kingdom', phone: null, email: null,
+    website: null, instagram_url: null, google_rating: null, google_review_count: null, google_maps_url: null,
+    latitude: null, longitude: null, opening_hours: null, source: 'google_maps', ...details,
+  };
+}
+
+function postcode(code: string, city: string): ParsedAddress {
+  return { street: null, city, region: null, postcode: code, country_code: 'gb' };
+}
+
+describe('resolveEntities', () => {
+  it('merges records that share only a phone number', () => {
+    const resolved = resolveEntities([
+      result({ business_name: 'Glow Skin Clinic', phone: '+44 113 249 6000', website: 'https://glowskinclinic.co.uk' }),
+      result({ business_name: 'Dr Sarah Lee Aesthetics', phone: '0113 249 6000', email: 'sarah@glowskinclinic.co.uk', source: 'yell' }),
+    ]);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({ business_name: 'Glow Skin Clinic', email: 'sarah@glowskinclinic.co.uk', source: 'google_maps' });
+  });
+
+  it('keeps branches of a chain in different cities apart despite a shared domain', () => {
+    const resolved = resolveEntities([
+      result({ website: 'https://www.glowskinclinic.co.uk/leeds', city: 'Leeds', address_parts: postcode('LS1 4AP', 'Leeds') }),
+      result({ website: 'https://glowskinclinic.co.uk/manchester', city: 'Manchester', address_parts: postcode('M1 1AE', 'Manchester') }),
+    ]);
+    expect(resolved.map(r => r.city)).toEqual(['Leeds', 'Manchester']);
+  });
+
+  it('merges a near-duplicate name in the same postcode district', () => {
+    const resolved = resolveEntities([
+      result({ business_name: 'Glow Skin Clinic', address_parts: postcode('LS1 4AP', 'Leeds') }),
+      result({ business_name: 'Glow Skin Clinics Ltd', phone: '0113 249 6000', address_parts: postcode('LS1 5DL', 'Leeds'), source: 'yell' }),
+    ]);
+    expect(resolved).toHaveLength(1);
+    expect(resolved[0]).toMatchObject({ business_name: 'Glow Skin Clinic', phone: '0113 249 6000' });
+  });
+
+  it('keeps records apart when their names are not similar enough', () => {
+    const resolved = resolveEntities([
+      result({ business_name: 'Glow Skin Clinic', address_parts: postcode('LS1 4AP', 'Leeds') }),
+      result({ business_name: 'Glow Nail Studio', address_parts: postcode('LS1 4AP', 'Leeds') }),
+    ]);
+    expect(resolved.map(r => r.business_name)).toEqual(['Glow Skin Clinic', 'Glow Nail Studio']);
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { upsertLeads } from '../lead-bulk';
+import { loadSavedLeads, type SavedLead } from '@/lib/lead-matching';
+import type { Contact, ContactDetails } from '@/lib/types';
+
+const db = vi.hoisted(() => ({
+  contacts: [] as unknown[],
+  rpc: vi.fn(async (_name: string, _params: Record<string, unknown>) => ({ data: [] as string[], error: null as { message: string } | null })),
+}));
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ in: () => ({ order: async () => ({ data: db.contacts, error: null }) }) }) }),
+    rpc: db.rpc,
+  },
+}));
+vi.mock('@/lib/exclusions', async importOriginal => ({ ...await importOriginal<object>(), loadExclusions: async () => [] }));
+vi.mock('@/lib/lead-matching', async importOriginal => ({ ...await importOriginal<object>(), loadSavedLeads: vi.fn() }));
+
+const lead: SavedLead = {
+  id: 'lead-1', business_name: 'Glow Skin Clinic', city: 'Leeds', address_parts: null, latitude: null, longitude: null,
+  field_sources: {}, audit_score: null, social_profiles: {},
+  phone: '+441132496000', email: null, website: 'https://glowskinclinic.co.uk', instagram_url: null,
+  google_rating: null, google_review_count: null, address: null, opening_hours: null, google_maps_url: null,
+};
+
+function savedContact(id: string, details: Partial<Contact>): Contact {
+  return { id, lead_id: 'lead-1', name: null, role: null, email: null, phone: null, linkedin_url: null, source: 'website_crawl', is_primary: false, created_at: '2026-01-01T00:00:00Z', ...details };
+}
+
+const row = (people: Pick<ContactDetails, 'name' | 'role'>[]) => ({
+  business_name: 'Glow Skin Clinic', phone: '0113 249 6000', website: 'https://glowskinclinic.co.uk', city: 'Leeds',
+  contacts: people.map(person => ({ email: null, phone: null, linkedin_url: null, source: 'csv_import', ...person })),
+});
+
+describe('upsertLeads contacts', () => {
+  beforeEach(() => {
+    db.rpc.mockClear();
+    vi.mocked(loadSavedLeads).mockResolvedValue([lead]);
+  });
+
+  it('makes a saved contact primary when it outranks the new ones', async () => {
+    db.contacts = [savedContact('c1', { name: 'Amy Hart', role: 'Receptionist' }), savedContact('c2', { name: 'Jane Doe', role: 'Owner' })];
+    const [outcome] = await upsertLeads({ rows: [row([{ name: 'Sam Lee', role: 'Practice Manager' }])], country: 'United Kingdom', source: 'csv_import', on_existing: 'update' });
+
+    expect(outcome).toMatchObject({ status: 'unchanged', lead_id: 'lead-1' });
+    const params = db.rpc.mock.calls[0][1];
+    expect(params.primary_contacts).toEqual(['c2']);
+    expect(params.new_contacts).toEqual([expect.objectContaining({ lead_id: 'lead-1', name: 'Sam Lee', is_primary: false })]);
+  });
+
+  it('makes a new contact primary when it outranks the saved ones', async () => {
+    db.contacts = [savedContact('c1', { name: 'Amy Hart', role: 'Receptionist' })];
+    await upsertLeads({ rows: [row([{ name: 'Jane Doe', role: 'Owner' }])], country: 'United Kingdom', source: 'csv_import', on_existing: 'update' });
+
+    const params = db.rpc.mock.calls[0][1];
+    expect(params.primary_contacts).toEqual([]);
+    expect(params.new_contacts).toEqual([expect.objectContaining({ name: 'Jane Doe', is_primary: true })]);
+  });
+
+  it('leaves the primary alone on a lead that has one', async () => {
+    db.contacts = [savedContact('c1', { name: 'Amy Hart', role: 'Receptionist', is_primary: true })];
+    await upsertLeads({ rows: [row([{ name: 'Jane Doe', role: 'Owner' }])], country: 'United Kingdom', source: 'csv_import', on_existing: 'update' });
+
+    const params = db.rpc.mock.calls[0][1];
+    expect(params.primary_contacts).toEqual([]);
+    expect(params.new_contacts).toEqual([expect.objectContaining({ name: 'Jane Doe', is_primary: false })]);
+  });
+
+  it('fails the row when the transaction fails', async () => {
+    db.contacts = [savedContact('c1', { name: 'Amy Hart', role: 'Receptionist' })];
+    db.rpc.mockResolvedValueOnce({ data: [], error: { message: 'deadlock detected' } });
+    const [outcome] = await upsertLeads({ rows: [row([])], country: 'United Kingdom', source: 'csv_import', on_existing: 'update' });
+    expect(outcome).toMatchObject({ status: 'error', message: 'deadlock detected' });
+  });
+});
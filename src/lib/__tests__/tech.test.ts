@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectTech } from '../tech';
+
+describe('detectTech', () => {
+  it('reads script and stylesheet URLs and the generator tag', () => {
+    const html = `<html><head>
+      <meta name="generator" content="WordPress 6.5.2">
+      <link rel="stylesheet" href="https://salon.co.uk/wp-content/themes/salon/style.css">
+      <script src="https://static.cloudflareinsights.com/beacon.min.js"></script>
+      <script src="https://www.googletagmanager.com/gtm.js?id=GTM-ABCD12"></script>
+    </head><body></body></html>`;
+    expect(detectTech([html])).toEqual({
+      cms: ['WordPress'],
+      hosting: ['Cloudflare'],
+      analytics: ['Google Tag Manager'],
+    });
+  });
+
+  it('reads embedded booking widgets and inline loader snippets', () => {
+    const html = `<body>
+      <iframe src="https://widget.fresha.com/embed/glow-skin-clinic"></iframe>
+      <script>!function(f,b,e,v,n,t,s){}(window, document,'script','https://connect.facebook.net/en_US/fbevents.js');fbq('init', '123');</script>
+    </body>`;
+    expect(detectTech([html])).toEqual({ booking: ['Fresha'], pixels: ['Meta Pixel'] });
+  });
+
+  it('reads markup the tool adds', () => {
+    const html = `<html data-wf-page="64f0" data-wf-site="64ef"><body class="woocommerce-no-js"><!-- This is Squarespace. --></body></html>`;
+    expect(detectTech([html])).toEqual({ cms: ['Squarespace', 'Webflow'], ecommerce: ['WooCommerce'] });
+  });
+
+  it('ignores the page text and links that do not lead into a tool', () => {
+    const html = `<body>
+      <article><h2>Why we left Hostinger for SiteGround</h2><p>PrestaShop vs Shopify: which is right for you?</p></article>
+      <p>We love <a href="https://www.fresha.com/for-business">Fresha</a>, <a href="https://booksy.com/">Booksy</a> and <a href="https://calendly.com/pricing">Calendly</a>.</p>
+      <img src="/images/team.jpg" alt="Our team at the Calendly conference">
+      <script type="application/ld+json">{"description": "Book online with fresha.com or calendly.com"}</script>
+    </body>`;
+    expect(detectTech([html])).toEqual({});
+  });
+
+  it('counts a "Book now" link to the business on a booking platform', () => {
+    const homepage = `<body>
+      <nav><a class="btn" href="https://www.fresha.com/a/glow-skin-clinic-leeds-12-park-row-abc123?pId=456">Book now</a></nav>
+    </body>`;
+    expect(detectTech([homepage])).toEqual({ booking: ['Fresha'] });
+    expect(detectTech(['<a href="https://booksy.com/en-gb/123456_glow-skin-clinic_beauty-salon_12345_leeds">Book</a>'])).toEqual({ booking: ['Booksy'] });
+    expect(detectTech(['<a href="https://glowskin.setmore.com">Book</a>'])).toEqual({ booking: ['Setmore'] });
+    expect(detectTech(['<a href="https://www.treatwell.co.uk/place/glow-skin-clinic/">Book</a>'])).toEqual({ booking: ['Treatwell'] });
+  });
+
+  it('counts a click-to-chat link as a chat widget', () => {
+    expect(detectTech(['<a href="https://wa.me/447700900123">Message us</a>'])).toEqual({ chat: ['WhatsApp'] });
+  });
+
+  it('combines what every page shows, listing each technology once', () => {
+    const homepage = '<script src="https://static.parastorage.com/services/wix-thunderbolt/dist/main.js"></script>';
+    const booking = '<script src="https://static.parastorage.com/unpkg/react.js"></script><script src="https://assets.calendly.com/assets/external/widget.js"></script>';
+    expect(detectTech([homepage, booking])).toEqual({ cms: ['Wix'], booking: ['Calendly'] });
+  });
+});
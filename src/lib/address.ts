@@ -0,0 +1,219 @@
+import { countryCode } from '@/lib/countries';
+import { inBoundingBox, type GeoArea } from '@/lib/geo';
+import type { ParsedAddress, ScrapeResult } from '@/lib/types';
+
+// ─── ADDRESS PARSING ───────────────────────────────────────────
+// Split a one-line address into street, city, region and postcode, using the
+// country's postcode format and region abbreviations where we know them.
+
+const POSTCODE_PATTERNS: Record<string, RegExp> = {
+  gb: /\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/i,
+  us: /\b(\d{5})(?:-\d{4})?\b/,
+  ca: /\b([A-Z]\d[A-Z])\s?(\d[A-Z]\d)\b/i,
+  ie: /\b([AC-FHKNPRTV-Y]\d{2}|D6W)\s?([\dAC-FHKNPRTV-Y]{4})\b/i,
+  nl: /\b(\d{4})\s?([A-Z]{2})\b/,
+  au: /\b(\d{4})\b/,
+  nz: /\b(\d{4})\b/,
+};
+const GENERIC_POSTCODE = /\b(\d{4,6})\b/;
+
+// Postcode districts a search might be for ("SW1", "M4"), short of a full postcode
+const PARTIAL_POSTCODES: Record<string, RegExp> = {
+  gb: /^[A-Z]{1,2}\d[A-Z\d]?$/i,
+  ca: /^[A-Z]\d[A-Z]$/i,
+};
+
+const REGIONS: Record<string, string[]> = {
+  us: ['AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY'],
+  ca: ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'],
+  au: ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'],
+};
+
+// Full names, for addresses that spell the region out ("Atlanta, Georgia")
+const REGION_NAMES: Record<string, Record<string, string>> = {
+  us: {
+    alabama: 'AL', alaska: 'AK', arizona: 'AZ', arkansas: 'AR', california: 'CA', colorado: 'CO', connecticut: 'CT',
+    delaware: 'DE', 'district of columbia': 'DC', florida: 'FL', georgia: 'GA', hawaii: 'HI', idaho: 'ID', illinois: 'IL',
+    indiana: 'IN', iowa: 'IA', kansas: 'KS', kentucky: 'KY', louisiana: 'LA', maine: 'ME', maryland: 'MD',
+    massachusetts: 'MA', michigan: 'MI', minnesota: 'MN', mississippi: 'MS', missouri: 'MO', montana: 'MT',
+    nebraska: 'NE', nevada: 'NV', 'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+    'north carolina': 'NC', 'north dakota': 'ND', ohio: 'OH', oklahoma: 'OK', oregon: 'OR', pennsylvania: 'PA',
+    'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD', tennessee: 'TN', texas: 'TX', utah: 'UT',
+    vermont: 'VT', virginia: 'VA', washington: 'WA', 'west virginia': 'WV', wisconsin: 'WI', wyoming: 'WY',
+  },
+  ca: {
+    alberta: 'AB', 'british columbia': 'BC', manitoba: 'MB', 'new brunswick': 'NB', 'newfoundland and labrador': 'NL',
+    'nova scotia': 'NS', 'northwest territories': 'NT', nunavut: 'NU', ontario: 'ON', 'prince edward island': 'PE',
+    quebec: 'QC', saskatchewan: 'SK', yukon: 'YT',
+  },
+  au: {
+    'australian capital territory': 'ACT', 'new south wales': 'NSW', 'northern territory': 'NT', queensland: 'QLD',
+    'south australia': 'SA', tasmania: 'TAS', victoria: 'VIC', 'western australia': 'WA',
+  },
+};
+
+function postcodePattern(code: string | null): RegExp {
+  return (code && POSTCODE_PATTERNS[code]) || GENERIC_POSTCODE;
+}
+
+// Canonical form for comparison: upper case, single space before a UK/CA inward code
+function normalisePostcode(value: string, code: string | null): string {
+  const compact = value.toUpperCase().replace(/\s+/g, '');
+  if (code === 'gb' && compact.length > 4) return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+  if (code === 'ca' && compact.length === 6) return `${compact.slice(0, 3)} ${compact.slice(3)}`;
+  return code === 'us' ? compact.slice(0, 5) : compact;
+}
+
+// The end of a part, when it's one of the country's regions: abbreviated, or spelled
+// out with the longest name tried first ("West Virginia" before "Virginia")
+function splitRegion(text: string, code: string | null): { rest: string; region: string | null } {
+  const regions = code ? REGIONS[code] : undefined;
+  if (!code || !regions) return { rest: text, region: null };
+  const match = text.match(/^(.*?)\s*\b([A-Za-z]{2,3})$/);
+  if (match && regions.includes(match[2].toUpperCase())) return { rest: match[1].trim(), region: match[2].toUpperCase() };
+
+  const lower = text.toLowerCase();
+  const name = Object.keys(REGION_NAMES[code] || {}).sort((a, b) => b.length - a.length)
+    .find(n => lower === n || lower.endsWith(` ${n}`));
+  if (!name) return { rest: text, region: null };
+  return { rest: text.slice(0, text.length - name.length).trim(), region: REGION_NAMES[code][name] };
+}
+
+// Territories with their own country code whose places are searched under another country:
+// a UK search takes in Jersey, so "12 High St, Jersey" stays a UK address
+const SEARCHED_WITH: Record<string, string[]> = {
+  gb: ['je', 'gg', 'im'],
+  us: ['pr', 'vi', 'gu', 'as', 'mp'],
+  au: ['cx', 'cc', 'nf'],
+  nz: ['ck', 'nu'],
+};
+
+// Unit, shop and suite numbers that sit in front of the street ("Shop 3, 120 George St")
+const UNIT_PREFIX = /^(?:shop|unit|suite|ste|flat|apartment|apt|level|floor|office|room)\.?\s*[\w/-]+$/i;
+
+// Each unit part joined to the street after it
+function joinUnits(parts: string[]): string[] {
+  const joined: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    if (UNIT_PREFIX.test(parts[i]) && i + 1 < parts.length) {
+      joined.push(`${parts[i]}, ${parts[i + 1]}`);
+      i++;
+    } else {
+      joined.push(parts[i]);
+    }
+  }
+  return joined;
+}
+
+export function parseAddress(address: string | null | undefined, country?: string | null): ParsedAddress | null {
+  if (!address || !address.trim()) return null;
+  const parts = address.split(',').map(p => p.trim()).filter(Boolean);
+
+  let code = countryCode(country);
+  // A region sharing its name with a country ("Atlanta, Georgia") is read as the region,
+  // and a territory searched with the country ("Jersey" in the UK) as a place in it
+  const last = parts[parts.length - 1];
+  const lastIsRegion = splitRegion(last, code).rest === '';
+  const trailingCountry = parts.length > 1 && !lastIsRegion ? countryCode(last) : null;
+  const isLocal = !!code && !!trailingCountry && !!SEARCHED_WITH[code]?.includes(trailingCountry);
+  if (trailingCountry && !isLocal) {
+    code = trailingCountry;
+    parts.pop();
+  }
+
+  let postcode: string | null = null;
+  let region: string | null = null;
+  let city: string | null = null;
+  let localityIndex = parts.length; // Parts from here on are postcode/region, not street or city
+
+  // Postcode, and the region and city that usually sit beside it ("Sydney NSW 2000", "IL 62704")
+  for (let i = parts.length - 1; i >= 0 && i >= parts.length - 2; i--) {
+    const match = parts[i].match(postcodePattern(code));
+    if (!match) continue;
+    postcode = normalisePostcode(match[0], code);
+    const split = splitRegion(parts[i].replace(match[0], '').trim(), code);
+    region = split.region;
+    if (split.rest && !/\d/.test(split.rest)) city = split.rest;
+    localityIndex = i;
+    break;
+  }
+  if (!region && localityIndex > 1) {
+    const split = splitRegion(parts[localityIndex - 1], code);
+    if (split.region) {
+      region = split.region;
+      if (split.rest) city = city || split.rest;
+      localityIndex--;
+    }
+  }
+
+  const remaining = joinUnits(parts.slice(0, localityIndex));
+  // Street is the part with a house number, or else the first part when something follows it
+  const streetIndex = remaining.findIndex(p => /\d/.test(p));
+  const street = streetIndex >= 0 ? remaining[streetIndex] : remaining.length > 1 || city ? remaining[0] ?? null : null;
+  if (!city) {
+    const candidates = remaining.filter(p => p !== street && !/\d/.test(p));
+    city = candidates.length > 0 ? candidates[candidates.length - 1] : null;
+  }
+
+  return { street, city, region, postcode, country_code: code };
+}
+
+// ─── LOCATION MATCHING ─────────────────────────────────────────
+// Does a result belong to the searched location? Coordinates inside the geocoded
+// area settle it (which covers boroughs and suburbs the address may name instead
+// of the city); postcode searches compare postcodes; otherwise the address text.
+
+export interface LocationTarget {
+  query: string;
+  country: string;
+  area: GeoArea | null;
+}
+
+const AREA_MARGIN_KM = 1;
+
+function normaliseText(value: string): string {
+  return ` ${value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+function inArea(lat: number, lng: number, area: GeoArea): boolean {
+  // Small areas (a postcode, a village) get a margin so businesses on the boundary aren't lost
+  const latMargin = AREA_MARGIN_KM / 111;
+  const lngMargin = latMargin / Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+  const { south, north, west, east } = area.bbox;
+  return inBoundingBox({ lat, lng }, { south: south - latMargin, north: north + latMargin, west: west - lngMargin, east: east + lngMargin });
+}
+
+// A search for a postcode or postcode district ("SW1A 1AA", "SW1", "90210")
+export function searchedPostcode(query: string, country: string): string | null {
+  const code = countryCode(country);
+  const value = query.trim();
+  if (code && PARTIAL_POSTCODES[code]?.test(value)) return value.toUpperCase();
+  const match = value.match(postcodePattern(code));
+  return match && value.replace(match[0], '').trim() === '' ? normalisePostcode(match[0], code) : null;
+}
+
+function postcodeMatches(searched: string, found: string): boolean {
+  if (searched.includes(' ') || !found.includes(' ')) return searched.replace(/\s+/g, '') === found.replace(/\s+/g, '');
+  // A district matches every postcode in it, including sub-districts ("SW1" → "SW1A 1AA"), but not "SW15"
+  const district = found.split(' ')[0];
+  return district === searched || (district.length === searched.length + 1 && district.startsWith(searched) && /[A-Z]$/.test(district));
+}
+
+export function matchesLocation(result: ScrapeResult, target: LocationTarget): boolean {
+  const parsed = result.address_parts ?? parseAddress(result.address, result.country);
+  const targetCode = countryCode(target.country);
+  if (parsed?.country_code && targetCode && parsed.country_code !== targetCode) return false;
+
+  const postcode = searchedPostcode(target.query, target.country);
+  if (postcode && parsed?.postcode) return postcodeMatches(postcode, parsed.postcode);
+
+  if (target.area && result.latitude !== null && result.longitude !== null) {
+    return inArea(result.latitude, result.longitude, target.area);
+  }
+
+  // No coordinates: look for the place name in the address
+  const place = normaliseText(target.query.split(',')[0]);
+  const haystack = normaliseText([result.address, result.city, parsed?.city, parsed?.region].filter(Boolean).join(' '));
+  if (haystack.trim() === '') return true; // Nothing to go on; the source was searched for this location
+  return haystack.includes(place);
+}
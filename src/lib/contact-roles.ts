@@ -0,0 +1,43 @@
+import type { ContactDetails } from '@/lib/types';
+
+// ─── CONTACT ROLES ─────────────────────────────────────────────
+// Seniority and de-duplication for contacts, with no server dependencies so entity
+// resolution can merge the contacts of two listings wherever it runs.
+
+// Decision-making roles, most senior first
+const ROLE_RANKS: RegExp[] = [
+  /\b(owner|co-?owner|founder|co-?founder|proprietor|ceo|chief executive|managing director|principal)\b/i,
+  /\b(director|partner)\b/i,
+  /\b(practice|clinic|salon|spa|studio|general|office|business|operations) manager\b/i,
+  /\b(manager|head of|lead)\b/i,
+];
+
+// Lower is more senior; ROLE_RANKS.length for anyone else
+export function roleRank(role: string | null): number {
+  const rank = role ? ROLE_RANKS.findIndex(pattern => pattern.test(role)) : -1;
+  return rank === -1 ? ROLE_RANKS.length : rank;
+}
+
+export function isDecisionMaker(role: string | null): boolean {
+  return roleRank(role) < ROLE_RANKS.length;
+}
+
+export function samePerson(a: ContactDetails, b: ContactDetails): boolean {
+  if (a.email && b.email && a.email.toLowerCase() === b.email.toLowerCase()) return true;
+  return !!a.name && !!b.name && a.name.toLowerCase() === b.name.toLowerCase();
+}
+
+// The contacts with the incoming ones added; someone already there only has their gaps filled
+export function mergeContacts(existing: ContactDetails[], incoming: ContactDetails[]): ContactDetails[] {
+  const merged = existing.map(c => ({ ...c }));
+  for (const contact of incoming) {
+    const same = merged.find(c => samePerson(c, contact));
+    if (!same) { merged.push({ ...contact }); continue; }
+    same.name = same.name || contact.name;
+    if (roleRank(contact.role) < roleRank(same.role)) same.role = contact.role;
+    same.email = same.email || contact.email;
+    same.phone = same.phone || contact.phone;
+    same.linkedin_url = same.linkedin_url || contact.linkedin_url;
+  }
+  return merged;
+}
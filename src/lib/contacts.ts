@@ -0,0 +1,91 @@
+import { supabase } from '@/lib/supabase';
+import { isRoleMailbox } from '@/lib/email-verification';
+import { roleRank, samePerson } from '@/lib/contact-roles';
+import type { Contact, ContactDetails } from '@/lib/types';
+
+export { isDecisionMaker, mergeContacts, roleRank } from '@/lib/contact-roles';
+
+// ─── CONTACTS ──────────────────────────────────────────────────
+// The people behind a lead: owners, practice managers and other decision makers,
+// found on the site's team and about pages or brought in by CSV. One of them is
+// the primary contact, who outreach emails and the GHL push are addressed to.
+
+// A personal address reaches the person; info@ reaches whoever reads it
+function emailRank(email: string | null): number {
+  if (!email) return 2;
+  return isRoleMailbox(email) ? 1 : 0;
+}
+
+// Most senior first, then whoever we can actually reach
+export function choosePrimaryContact<T extends ContactDetails>(contacts: T[]): T | null {
+  return [...contacts].sort((a, b) =>
+    roleRank(a.role) - roleRank(b.role)
+    || emailRank(a.email) - emailRank(b.email)
+    || Number(!a.phone) - Number(!b.phone))[0] ?? null;
+}
+
+export function splitName(name: string): { firstName: string; lastName: string } {
+  const words = name.replace(/^(dr|mr|mrs|ms|miss|prof)\.?\s+/i, '').trim().split(/\s+/);
+  return { firstName: words[0] || '', lastName: words.slice(1).join(' ') };
+}
+
+export async function loadContacts(leadId: string): Promise<Contact[]> {
+  const { data, error } = await supabase.from('contacts').select('*').eq('lead_id', leadId)
+    .order('is_primary', { ascending: false }).order('created_at', { ascending: true });
+  if (error) throw new Error(`Could not load contacts: ${error.message}`);
+  return data || [];
+}
+
+// The marked primary contact, or the best candidate if the marked one was deleted
+export async function primaryContact(leadId: string): Promise<Contact | null> {
+  const contacts = await loadContacts(leadId);
+  return contacts.find(c => c.is_primary) || choosePrimaryContact(contacts);
+}
+
+// The people not already on the lead, and who becomes primary: the best of everyone,
+// old and new, when the lead has no primary contact (none yet, or it was deleted).
+// Saving one lead's contacts and a bulk upsert both follow this.
+export function planContacts(existing: Contact[], incoming: ContactDetails[]): { fresh: ContactDetails[]; primary: Contact | ContactDetails | null } {
+  const fresh = incoming.filter(contact => !existing.some(c => samePerson(c, contact)));
+  const primary = existing.some(c => c.is_primary) ? null : choosePrimaryContact<ContactDetails>([...existing, ...fresh]);
+  return { fresh, primary };
+}
+
+// Lead ids per contacts query; the ids go in the URL
+const CONTACT_LEADS_PER_QUERY = 200;
+
+// Every contact on these leads, by lead
+export async function loadContactsByLead(leadIds: string[]): Promise<Map<string, Contact[]>> {
+  const byLead = new Map<string, Contact[]>();
+  for (let i = 0; i < leadIds.length; i += CONTACT_LEADS_PER_QUERY) {
+    const { data, error } = await supabase.from('contacts').select('*').in('lead_id', leadIds.slice(i, i + CONTACT_LEADS_PER_QUERY))
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(`Could not load contacts: ${error.message}`);
+    for (const contact of (data || []) as Contact[]) byLead.set(contact.lead_id, [...(byLead.get(contact.lead_id) || []), contact]);
+  }
+  return byLead;
+}
+
+// Adds the people not already on the lead, choosing a primary contact if it has none
+export async function saveContacts(leadId: string, incoming: ContactDetails[]): Promise<number> {
+  const existing = await loadContacts(leadId);
+  const { fresh, primary } = planContacts(existing, incoming);
+  const existingPrimary = existing.find(c => c === primary);
+  if (existingPrimary) {
+    const { error } = await supabase.from('contacts').update({ is_primary: true }).eq('id', existingPrimary.id);
+    if (error) throw new Error(`Could not set primary contact: ${error.message}`);
+  }
+  if (fresh.length === 0) return 0;
+  const { error } = await supabase.from('contacts').insert(fresh.map(contact => ({
+    lead_id: leadId,
+    name: contact.name,
+    role: contact.role,
+    email: contact.email,
+    phone: contact.phone,
+    linkedin_url: contact.linkedin_url,
+    source: contact.source,
+    is_primary: contact === primary,
+  })));
+  if (error) throw new Error(`Could not save contacts: ${error.message}`);
+  return fresh.length;
+}
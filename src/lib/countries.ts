@@ -0,0 +1,67 @@
+// ─── COUNTRIES ─────────────────────────────────────────────────
+// Country names ↔ ISO 3166 region codes, and the main language for each, so
+// providers get the right region and language for any country, not a fixed list.
+
+// Offered in the search page's country picker; anything Intl knows is accepted elsewhere
+export const COUNTRY_OPTIONS = [
+  'United Kingdom', 'United States', 'Canada', 'Australia', 'New Zealand', 'Ireland',
+  'Germany', 'France', 'Spain', 'Italy', 'Netherlands', 'Belgium', 'Portugal', 'Sweden',
+  'Denmark', 'Norway', 'Switzerland', 'Austria', 'Poland', 'South Africa', 'United Arab Emirates', 'Singapore',
+];
+
+// Primary language by region code. Anything missing falls back to English.
+const LANGUAGES: Record<string, string> = {
+  gb: 'en', us: 'en', ca: 'en', au: 'en', nz: 'en', ie: 'en', za: 'en', sg: 'en', in: 'en', ng: 'en', ke: 'en', ph: 'en',
+  de: 'de', at: 'de', ch: 'de', li: 'de',
+  fr: 'fr', be: 'fr', lu: 'fr', mc: 'fr', sn: 'fr', ci: 'fr',
+  es: 'es', mx: 'es', ar: 'es', co: 'es', cl: 'es', pe: 'es', ve: 'es', uy: 'es', ec: 'es',
+  it: 'it', sm: 'it', pt: 'pt', br: 'pt', nl: 'nl', se: 'sv', dk: 'da', no: 'nb', fi: 'fi', is: 'is',
+  pl: 'pl', cz: 'cs', sk: 'sk', hu: 'hu', ro: 'ro', bg: 'bg', gr: 'el', cy: 'el', hr: 'hr', si: 'sl', rs: 'sr',
+  ee: 'et', lv: 'lv', lt: 'lt', ua: 'uk', ru: 'ru', tr: 'tr', il: 'he',
+  ae: 'ar', sa: 'ar', qa: 'ar', kw: 'ar', eg: 'ar', ma: 'ar',
+  jp: 'ja', kr: 'ko', cn: 'zh-CN', tw: 'zh-TW', hk: 'zh-TW', th: 'th', vn: 'vi', id: 'id', my: 'ms',
+};
+
+// Names people type that Intl doesn't use
+const ALIASES: Record<string, string> = {
+  uk: 'gb', 'great britain': 'gb', britain: 'gb', england: 'gb', scotland: 'gb', wales: 'gb', 'northern ireland': 'gb',
+  usa: 'us', 'united states of america': 'us', america: 'us', uae: 'ae', holland: 'nl', 'the netherlands': 'nl',
+  'republic of ireland': 'ie', 'south korea': 'kr', 'czech republic': 'cz',
+};
+
+// Codes Intl still names that aren't current countries (UK, East Germany, the EU, ...)
+const NOT_COUNTRIES = new Set(['ac', 'an', 'bu', 'cp', 'cs', 'dd', 'dg', 'ea', 'eu', 'ez', 'fx', 'ic', 'nt', 'qo', 'su', 'ta', 'tp', 'uk', 'un', 'xa', 'xb', 'yu', 'zr', 'zz']);
+
+let namesToCodes: Map<string, string> | null = null;
+
+// Every region Intl can name, built once
+function regionIndex(): Map<string, string> {
+  if (namesToCodes) return namesToCodes;
+  namesToCodes = new Map();
+  const names = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+  for (const a of letters) {
+    for (const b of letters) {
+      const name = names.of(`${a}${b}`);
+      const code = `${a}${b}`.toLowerCase();
+      if (name && !NOT_COUNTRIES.has(code)) namesToCodes.set(name.toLowerCase(), code);
+    }
+  }
+  return namesToCodes;
+}
+
+// "United Kingdom", "UK" or "gb" → "gb"; null when it isn't a country
+export function countryCode(country: string | null | undefined): string | null {
+  const key = (country || '').trim().toLowerCase().replace(/\.$/, '');
+  if (!key) return null;
+  if (ALIASES[key]) return ALIASES[key];
+  const index = regionIndex();
+  if (index.has(key)) return index.get(key)!;
+  if (/^[a-z]{2}$/.test(key) && Array.from(index.values()).includes(key)) return key;
+  return null;
+}
+
+export function languageFor(country: string): string {
+  const code = countryCode(country);
+  return (code && LANGUAGES[code]) || 'en';
+}
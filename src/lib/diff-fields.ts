@@ -0,0 +1,21 @@
+import type { DiffField } from '@/lib/types';
+
+// ─── SCRAPE DIFF FIELDS ────────────────────────────────────────
+// The lead fields a new scrape can change, and their labels. Kept apart from
+// lib/lead-matching, which the search page must not bundle with its database client.
+
+export const DIFF_FIELDS: DiffField[] = [
+  'phone', 'email', 'website', 'instagram_url', 'google_rating', 'google_review_count', 'address', 'opening_hours', 'google_maps_url',
+];
+
+export const DIFF_FIELD_LABELS: Record<DiffField, string> = {
+  phone: 'Phone',
+  email: 'Email',
+  website: 'Website',
+  instagram_url: 'Instagram',
+  google_rating: 'Rating',
+  google_review_count: 'Reviews',
+  address: 'Address',
+  opening_hours: 'Opening hours',
+  google_maps_url: 'Google Maps',
+};
@@ -0,0 +1,205 @@
+import { promises as dns } from 'dns';
+import net from 'net';
+import { isSandbox } from '@/lib/sandbox';
+import { sandboxResolver } from '@/lib/sandbox/mail';
+import type { EmailChecks, EmailStatus } from '@/lib/types';
+
+// ─── EMAIL VERIFICATION ────────────────────────────────────────
+// Every email we keep is checked before anyone sends to it: syntax, a mail
+// server for the domain (MX, or an A record as the fallback), disposable and
+// role-based addresses, and catch-all domains. Bounces cost us sender reputation.
+
+export interface EmailVerification {
+  email_status: EmailStatus;
+  email_checks: EmailChecks;
+  email_verified_at: string;
+}
+
+// Lookups the checks need. Swapped out in sandbox mode and tests (setEmailResolver).
+export interface EmailResolver {
+  // Mail hosts by preference; [] when the domain has no mail server; throws when DNS can't answer
+  mailHosts(domain: string): Promise<string[]>;
+  // Does the mail host accept a made-up recipient? null when it couldn't be asked
+  acceptsAnyRecipient(host: string, domain: string): Promise<boolean | null>;
+}
+
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com', 'tempmail.com',
+  'temp-mail.org', 'yopmail.com', 'trashmail.com', 'getnada.com', 'dispostable.com', 'maildrop.cc', 'throwawaymail.com',
+  'fakeinbox.com', 'mintemail.com', 'emailondeck.com', 'mohmal.com', 'tempail.com', 'burnermail.io', 'spamgourmet.com',
+]);
+
+// Shared mailboxes rather than a person. Deliverable, but less likely to be read by the owner.
+const ROLE_MAILBOXES = new Set([
+  'admin', 'administrator', 'info', 'hello', 'hi', 'contact', 'enquiries', 'enquiry', 'inquiries', 'sales', 'support',
+  'office', 'reception', 'bookings', 'booking', 'appointments', 'team', 'mail', 'marketing', 'accounts', 'billing',
+  'help', 'postmaster', 'webmaster', 'hostmaster', 'abuse', 'careers', 'jobs', 'hr', 'noreply', 'no-reply',
+]);
+
+const SMTP_TIMEOUT_MS = 8000;
+const DOMAIN_CACHE_MS = 60 * 60 * 1000;
+const VERIFY_BATCH_SIZE = 5;
+
+// ─── SYSTEM RESOLVER ───
+function isMissing(err: unknown): boolean {
+  const code = (err as { code?: string })?.code;
+  return code === 'ENODATA' || code === 'ENOTFOUND';
+}
+
+// One SMTP conversation: greet, then ask to deliver to a random address at the domain
+function probeRecipient(host: string, domain: string): Promise<boolean | null> {
+  return new Promise(resolve => {
+    const socket = net.createConnection({ host, port: 25 });
+    const recipient = `prospex-probe-${Math.random().toString(36).slice(2, 10)}@${domain}`;
+    const steps = ['EHLO prospex.local', 'MAIL FROM:<>', `RCPT TO:<${recipient}>`];
+    let buffer = '';
+    const finish = (result: boolean | null) => {
+      socket.removeAllListeners();
+      socket.on('error', () => {});
+      socket.end('QUIT\r\n');
+      socket.destroy();
+      resolve(result);
+    };
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => finish(null));
+    socket.on('error', () => finish(null));
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      // A reply is complete at a line with a space after the code ("250 OK", not "250-SIZE")
+      const lines = buffer.split('\r\n');
+      const last = lines.reverse().find(line => /^\d{3} /.test(line));
+      if (!last) return;
+      buffer = '';
+      const code = Number(last.slice(0, 3));
+      if (steps.length === 0) return finish(code === 250 || code === 251 ? true : code >= 500 ? false : null);
+      if (code >= 400) return finish(null);
+      socket.write(`${steps.shift()}\r\n`);
+    });
+  });
+}
+
+const systemResolver: EmailResolver = {
+  async mailHosts(domain) {
+    try {
+      const records = await dns.resolveMx(domain);
+      return records.sort((a, b) => a.priority - b.priority).map(r => r.exchange).filter(Boolean);
+    } catch (err) {
+      if (!isMissing(err)) throw err;
+    }
+    // No MX record: mail goes to the domain's own address, if it has one
+    try {
+      return (await dns.resolve4(domain)).length > 0 ? [domain] : [];
+    } catch (err) {
+      if (isMissing(err)) return [];
+      throw err;
+    }
+  },
+  // Port 25 is blocked on most hosting, so probing is opt-in
+  async acceptsAnyRecipient(host, domain) {
+    if (process.env.EMAIL_SMTP_PROBE !== 'true') return null;
+    return probeRecipient(host, domain);
+  },
+};
+
+let customResolver: EmailResolver | null = null;
+
+export function setEmailResolver(resolver: EmailResolver | null): void {
+  customResolver = resolver;
+  domainCache.clear();
+}
+
+function activeResolver(): EmailResolver {
+  return customResolver || (isSandbox() ? sandboxResolver : systemResolver);
+}
+
+// ─── CHECKS ───
+interface DomainCheck {
+  mx: boolean | null; // null: DNS couldn't answer
+  catchAll: boolean | null;
+}
+
+const domainCache = new Map<string, { check: Promise<DomainCheck>; expires: number }>();
+
+async function checkDomain(domain: string): Promise<DomainCheck> {
+  const resolver = activeResolver();
+  let hosts: string[];
+  try {
+    hosts = await resolver.mailHosts(domain);
+  } catch {
+    return { mx: null, catchAll: null };
+  }
+  if (hosts.length === 0) return { mx: false, catchAll: null };
+  return { mx: true, catchAll: await resolver.acceptsAnyRecipient(hosts[0], domain).catch(() => null) };
+}
+
+// Leads on the same domain (a chain, a shared host) share one lookup
+function cachedDomainCheck(domain: string): Promise<DomainCheck> {
+  const cached = domainCache.get(domain);
+  if (cached && cached.expires > Date.now()) return cached.check;
+  const check = checkDomain(domain);
+  domainCache.set(domain, { check, expires: Date.now() + DOMAIN_CACHE_MS });
+  return check;
+}
+
+export function isValidEmailSyntax(email: string): boolean {
+  const at = email.lastIndexOf('@');
+  if (at < 1) return false;
+  const local = email.slice(0, at);
+  const domain = email.slice(at + 1);
+  if (local.length > 64 || domain.length > 253) return false;
+  if (!/^[a-z0-9!#$%&'*+/=?^_`{|}~.-]+$/i.test(local) || /^\.|\.$|\.\./.test(local)) return false;
+  return /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i.test(domain);
+}
+
+export function isRoleMailbox(email: string): boolean {
+  const local = email.trim().toLowerCase();
+  return ROLE_MAILBOXES.has(local.slice(0, local.lastIndexOf('@')).split('+')[0]);
+}
+
+// Worst finding wins: invalid, then disposable, catch-all, role-based
+function statusOf(checks: EmailChecks): EmailStatus {
+  if (!checks.syntax || checks.mx === false) return 'invalid';
+  if (checks.disposable) return 'disposable';
+  if (checks.mx === null) return 'unknown';
+  if (checks.catch_all) return 'catch_all';
+  if (checks.role) return 'role';
+  return 'valid';
+}
+
+export async function verifyEmail(email: string): Promise<EmailVerification> {
+  const address = email.trim().toLowerCase();
+  const syntax = isValidEmailSyntax(address);
+  const domain = address.slice(address.lastIndexOf('@') + 1);
+  const domainCheck = syntax ? await cachedDomainCheck(domain) : { mx: null, catchAll: null };
+  const checks: EmailChecks = {
+    syntax,
+    mx: domainCheck.mx,
+    disposable: DISPOSABLE_DOMAINS.has(domain),
+    role: isRoleMailbox(address),
+    catch_all: domainCheck.catchAll,
+  };
+  return { email_status: statusOf(checks), email_checks: checks, email_verified_at: new Date().toISOString() };
+}
+
+// The record with its email verified; without an email the verification is cleared
+export async function withVerifiedEmail<T extends { email: string | null }>(
+  record: T,
+): Promise<T & { email_status: EmailStatus | null; email_checks: EmailChecks | null; email_verified_at: string | null }> {
+  if (!record.email) return { ...record, email_status: null, email_checks: null, email_verified_at: null };
+  return { ...record, ...await verifyEmail(record.email) };
+}
+
+// Run `verify` over many items a few at a time, in order: every new domain is a DNS
+// lookup and maybe an SMTP connection, and a big selection mustn't open them all at once.
+// afterBatch runs between batches, with how many are done, so long runs can report progress.
+export async function verifyInBatches<T, R>(
+  items: T[],
+  verify: (item: T) => Promise<R>,
+  afterBatch?: (done: number) => Promise<void> | void,
+): Promise<R[]> {
+  const results: R[] = [];
+  for (let i = 0; i < items.length; i += VERIFY_BATCH_SIZE) {
+    results.push(...await Promise.all(items.slice(i, i + VERIFY_BATCH_SIZE).map(verify)));
+    await afterBatch?.(results.length);
+  }
+  return results;
+}
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { decodeCloudflareEmail, revealEmails } from '../obfuscation';
+
+// Saved contact pages, in ../__fixtures__
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '..', '__fixtures__', name), 'utf8');
+}
+
+// Every address written out plainly in a page
+function emailsIn(text: string): string[] {
+  return Array.from(text.matchAll(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*\.[a-zA-Z]{2,}/g), m => m[0]);
+}
+
+describe('decodeCloudflareEmail', () => {
+  it('XORs every byte with the key in the first', () => {
+    expect(decodeCloudflareEmail('0a63646c654a796b666564246965247f61')).toBe('info@salon.co.uk');
+    expect(decodeCloudflareEmail('3f5d5050545651584c7f585350484c545651115c50114a54')).toBe('bookings@glowskin.co.uk');
+  });
+
+  it('rejects input that is not hex or does not decode to an address', () => {
+    expect(decodeCloudflareEmail('0a6364zz')).toBeNull();
+    expect(decodeCloudflareEmail('0a')).toBeNull();
+    expect(decodeCloudflareEmail('0a63646c654a796b666564')).toBeNull(); // "info@salon", cut short
+    expect(decodeCloudflareEmail('1179747d7d7e5162707d7e7f')).toBeNull(); // "hello@salon", no top-level domain
+  });
+});
+
+describe('revealEmails', () => {
+  it('decodes Cloudflare data-cfemail spans and email-protection links in HTML', () => {
+    const page = revealEmails(fixture('cloudflare.html'));
+    expect(page).toContain('<a href="mailto:info@salon.co.uk">info@salon.co.uk</a>');
+    expect(page).toContain('<a href="mailto:bookings@glowskin.co.uk">Email our bookings team</a>');
+    expect(page).not.toContain('email-protection#');
+  });
+
+  it('leaves a data-cfemail span alone when it does not decode', () => {
+    expect(revealEmails(fixture('cloudflare.html'))).toContain('data-cfemail="1179747d7d7e5162707d7e7f"');
+  });
+
+  it('decodes Cloudflare email-protection links in crawled markdown', () => {
+    const page = revealEmails(fixture('cloudflare.md'));
+    expect(page).toContain('(mailto:info@salon.co.uk)');
+    expect(page).toContain('[Email our bookings team](mailto:bookings@glowskin.co.uk)');
+    expect(page).not.toContain('[email protected]');
+  });
+
+  it('decodes decimal, hex and named HTML entities', () => {
+    const page = revealEmails(fixture('encoded.html'));
+    expect(page).toContain('Reception: info@salon.co.uk');
+    expect(page).toContain('Bookings: book@salon.co.uk');
+    expect(page).toContain('Press: press@salon.co.uk');
+  });
+
+  it('decodes percent-encoded mailto: links', () => {
+    const page = revealEmails(fixture('encoded.html'));
+    expect(page).toContain('href="mailto:hello@salon.co.uk?subject=Enquiry from website"');
+    expect(page).toContain('href="mailto:jobs@salon.co.uk"');
+  });
+
+  it('leaves a malformed percent-encoded mailto: link as it was', () => {
+    expect(revealEmails('<a href="mailto:info%E0%A4%A@salon.co.uk">')).toBe('<a href="mailto:info%E0%A4%A@salon.co.uk">');
+  });
+
+  it('writes out bracketed, spelled-out and spaced addresses', () => {
+    expect(emailsIn(revealEmails(fixture('spelled-out.html')))).toEqual([
+      'appointments@salon.co.uk',
+      'jane.doe@salon.co.uk',
+      'accounts@salon.co.uk',
+      'gifts@salon.com',
+      'orders@salon.co.uk',
+    ]);
+  });
+
+  it('leaves times, directions and other prose with "at" and "dot" untouched', () => {
+    const html = fixture('spelled-out.html');
+    const prose = html.slice(html.indexOf('<section class="hours">'));
+    expect(revealEmails(prose)).toBe(prose);
+    expect(revealEmails('We open at 9 dot 30.')).toBe('We open at 9 dot 30.');
+    expect(revealEmails('Please meet us at reception.')).toBe('Please meet us at reception.');
+  });
+
+  it('does not change a page with no hidden addresses', () => {
+    const page = '<p>Email <a href="mailto:info@salon.co.uk">info@salon.co.uk</a> &middot; 0113 249 6000</p>';
+    expect(revealEmails(page)).toBe(page);
+  });
+});
@@ -0,0 +1,238 @@
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerFetch, providerJson } from '@/lib/http';
+import { revealEmails } from './obfuscation';
+
+// ─── SITE CRAWL ────────────────────────────────────────────────
+// Contact details are rarely all on the homepage, and sites name their contact
+// page anything from /contact to /en/get-in-touch. The crawl reads robots.txt and
+// the sitemap, adds the homepage's own links, and fetches the pages that look like
+// contact, team, about or booking pages, up to a page budget.
+
+export type PageKind = 'home' | 'contact' | 'team' | 'about' | 'booking';
+
+export interface CrawledPage {
+  url: string;
+  kind: PageKind;
+  markdown: string;
+}
+
+export interface CrawlOptions extends CacheOptions {
+  pageBudget?: number; // Pages fetched beyond the homepage; each is a Firecrawl credit
+}
+
+const DEFAULT_PAGE_BUDGET = 4;
+const MAX_SITEMAPS = 3;
+const MIN_PAGE_LENGTH = 100; // Shorter than this is an error or empty page
+
+// The last path segment that marks each kind of page, in order of usefulness
+const PAGE_KINDS: { kind: Exclude<PageKind, 'home'>; pattern: RegExp }[] = [
+  { kind: 'contact', pattern: /^(contact|contacts|contact-us|contactus|get-in-touch|find-us|visit-us|kontakt|contacto|contatti|contato|nous-contacter)$/ },
+  { kind: 'team', pattern: /^(team|our-team|the-team|meet-the-team|meet-us|staff|our-staff|people|practitioners|therapists|stylists|unser-team|equipe|equipo)$/ },
+  { kind: 'about', pattern: /^(about|about-us|aboutus|who-we-are|our-story|ueber-uns|uber-uns|qui-sommes-nous|a-propos|sobre-nosotros|chi-siamo|over-ons)$/ },
+  { kind: 'booking', pattern: /^(book|booking|bookings|book-now|book-online|appointments|reservations|termin|reservar)$/ },
+];
+const KIND_ORDER: PageKind[] = ['contact', 'team', 'about', 'booking'];
+
+// Guessed when neither the sitemap nor the homepage links anywhere useful
+const FALLBACK_PATHS = ['/contact', '/contact-us', '/about', '/about-us'];
+
+const LANGUAGE_PREFIX = /^[a-z]{2}(-[a-z]{2})?$/;
+
+function hostOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
+
+// What kind of page a URL on the site is, from its path ("/en-gb/get-in-touch/" → contact)
+export function pageKind(url: string, site: URL): PageKind | null {
+  let parsed: URL;
+  try { parsed = new URL(url, site); } catch { return null; }
+  if (hostOf(parsed) !== hostOf(site)) return null;
+  const segments = parsed.pathname.toLowerCase().split('/').filter(Boolean).map(s => s.replace(/\.(html?|php|aspx?)$/, ''));
+  if (segments.length === 0) return 'home';
+  // One level deep, or two under a language prefix
+  if (segments.length > 2 || (segments.length === 2 && !LANGUAGE_PREFIX.test(segments[0]))) return null;
+  const last = segments[segments.length - 1];
+  return PAGE_KINDS.find(k => k.pattern.test(last))?.kind ?? null;
+}
+
+// ─── robots.txt ───
+interface Robots {
+  disallow: string[]; // For all user agents
+  sitemaps: string[];
+}
+
+export function parseRobots(text: string): Robots {
+  const robots: Robots = { disallow: [], sitemaps: [] };
+  let appliesToUs = false;
+  let inAgentLines = false;
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const [, field, value] = match;
+    switch (field.toLowerCase()) {
+      case 'user-agent':
+        // Consecutive User-agent lines share one group of rules
+        appliesToUs = (inAgentLines && appliesToUs) || value === '*';
+        inAgentLines = true;
+        break;
+      case 'disallow':
+        inAgentLines = false;
+        if (appliesToUs && value) robots.disallow.push(value.replace(/\*$/, ''));
+        break;
+      case 'sitemap':
+        robots.sitemaps.push(value);
+        break;
+      default:
+        inAgentLines = false;
+    }
+  }
+  return robots;
+}
+
+function isAllowed(url: string, robots: Robots): boolean {
+  const path = new URL(url).pathname;
+  return !robots.disallow.some(rule => rule.endsWith('$') ? path === rule.slice(0, -1) : path.startsWith(rule));
+}
+
+// robots.txt, sitemaps and the like; null when the site doesn't have it
+async function fetchText(url: string): Promise<string | null> {
+  try {
+    const response = await providerFetch('website', url, { headers: { Accept: 'text/plain, application/xml, text/xml' } });
+    return await response.text();
+  } catch {
+    return null;
+  }
+}
+
+// ─── sitemap.xml ───
+function sitemapLocations(xml: string): string[] {
+  return Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi)).map(m => m[1].replace(/&amp;/g, '&'));
+}
+
+// Page URLs from the site's sitemaps, following a sitemap index a little way
+async function sitemapPages(sitemaps: string[]): Promise<string[]> {
+  const pages: string[] = [];
+  const queue = [...sitemaps];
+  for (let fetched = 0; queue.length > 0 && fetched < MAX_SITEMAPS; fetched++) {
+    const xml = await fetchText(queue.shift()!);
+    if (!xml) continue;
+    const locations = sitemapLocations(xml);
+    if (/<sitemapindex/i.test(xml)) {
+      // Page sitemaps before post, product and image ones
+      queue.push(...locations.sort((a, b) => Number(!/page/i.test(a)) - Number(!/page/i.test(b))));
+    } else {
+      pages.push(...locations);
+    }
+  }
+  return pages;
+}
+
+// ─── Firecrawl ───
+interface FirecrawlPage {
+  markdown: string;
+  links: string[];
+}
+
+// The page's markdown comes back with hidden email addresses written out (./obfuscation)
+async function crawlPage(url: string, firecrawlKey: string, withLinks: boolean, cache: CacheOptions): Promise<FirecrawlPage> {
+  const formats = withLinks ? ['markdown', 'links'] : ['markdown'];
+  const page = await withProviderCache('firecrawl', { url, formats, onlyMainContent: false }, () =>
+    metered('firecrawl', 'scrape', cache.usage, async () => {
+      const data = await providerJson<{ data?: { markdown?: string; links?: string[] } }>('firecrawl', 'https://api.firecrawl.dev/v1/scrape', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${firecrawlKey}` },
+        body: JSON.stringify({
+          url,
+          formats,
+          onlyMainContent: false, // Get full page including footer (where contact info often lives)
+        }),
+      });
+      return { markdown: data?.data?.markdown || '', links: data?.data?.links || [] };
+    }), cache);
+  return { ...page, markdown: revealEmails(page.markdown) };
+}
+
+interface Candidate {
+  url: string;
+  kind: PageKind;
+  linked: boolean; // Linked from the homepage, so visitors are sent there
+}
+
+// Best candidate of each kind first, then the rest; homepage links before sitemap-only pages
+function choosePages(candidates: Candidate[], budget: number): Candidate[] {
+  const ranked = [...candidates].sort((a, b) =>
+    KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+    || Number(b.linked) - Number(a.linked)
+    || new URL(a.url).pathname.length - new URL(b.url).pathname.length);
+  const firstOfKind = KIND_ORDER.map(kind => ranked.find(c => c.kind === kind)).filter((c): c is Candidate => !!c);
+  const rest = ranked.filter(c => !firstOfKind.includes(c));
+  return [...firstOfKind, ...rest].slice(0, budget);
+}
+
+// The homepage and the site's contact-like pages, homepage first. Pages that fail are skipped.
+export async function crawlSite(website: string, firecrawlKey: string, options: CrawlOptions = {}): Promise<CrawledPage[]> {
+  const site = new URL(website.startsWith('http') ? website : `https://${website}`);
+  const budget = options.pageBudget ?? DEFAULT_PAGE_BUDGET;
+  const pages: CrawledPage[] = [];
+
+  const robotsText = await fetchText(new URL('/robots.txt', site).toString());
+  const robots = robotsText ? parseRobots(robotsText) : { disallow: [], sitemaps: [] };
+  const sitemaps = robots.sitemaps.length > 0 ? robots.sitemaps : [new URL('/sitemap.xml', site).toString()];
+
+  let homeLinks: string[] = [];
+  try {
+    const home = await crawlPage(site.toString(), firecrawlKey, true, options);
+    pages.push({ url: site.toString(), kind: 'home', markdown: home.markdown });
+    homeLinks = home.links;
+  } catch {
+    // Still worth trying the other pages
+  }
+  if (budget <= 0) return pages;
+
+  const candidates = new Map<string, Candidate>();
+  const consider = (url: string, linked: boolean) => {
+    const kind = pageKind(url, site);
+    if (!kind || kind === 'home') return;
+    const clean = new URL(url, site);
+    clean.hash = '';
+    clean.search = '';
+    const key = clean.toString().replace(/\/$/, '');
+    if (!isAllowed(key, robots)) return;
+    const existing = candidates.get(key);
+    if (!existing) candidates.set(key, { url: clean.toString(), kind, linked });
+    else if (linked) existing.linked = true;
+  };
+  homeLinks.forEach(url => consider(url, true));
+  (await sitemapPages(sitemaps)).forEach(url => consider(url, false));
+
+  if (candidates.size === 0) {
+    // Nothing to go on: try the usual paths until one has content
+    for (const path of FALLBACK_PATHS.slice(0, budget)) {
+      const url = new URL(path, site).toString();
+      if (!isAllowed(url, robots)) continue;
+      try {
+        const { markdown } = await crawlPage(url, firecrawlKey, false, options);
+        if (markdown.length > MIN_PAGE_LENGTH) {
+          pages.push({ url, kind: pageKind(url, site)!, markdown });
+          break;
+        }
+      } catch {
+        // Skip
+      }
+    }
+    return pages;
+  }
+
+  const chosen = choosePages(Array.from(candidates.values()), budget);
+  const crawled = await Promise.all(chosen.map(async candidate => {
+    try {
+      const { markdown } = await crawlPage(candidate.url, firecrawlKey, false, options);
+      return markdown.length > MIN_PAGE_LENGTH ? { url: candidate.url, kind: candidate.kind, markdown } : null;
+    } catch {
+      return null;
+    }
+  }));
+  return [...pages, ...crawled.filter((p): p is CrawledPage => !!p)];
+}
@@ -0,0 +1,179 @@
+import type { ContactDetails, FieldSources, ScrapeResult, SocialPlatform, SocialProfiles } from '@/lib/types';
+import { getKey } from '@/lib/sources/shared';
+import { stampFields } from '@/lib/provenance';
+import { mergeContacts } from '@/lib/contacts';
+import { mergeSocialProfiles, SOCIAL_PLATFORM_LABELS } from '@/lib/social';
+import { normalisePhone } from '@/lib/phone';
+import { verifyEmail } from '@/lib/email-verification';
+import { crawlSite, type CrawledPage, type CrawlOptions } from './crawl';
+import { extractContacts, topSocialProfiles } from './extract';
+import { extractPeople } from './people';
+
+// ─── ENRICHMENT ENGINE ─────────────────────────────────────────
+// Fills in a lead from its website: the homepage plus contact, team and about pages
+// are crawled for the most prominent email, phone and social profiles, and the owners
+// and managers named there. The scrape job's auto-enrichment, /api/enrich and any
+// bulk job all run this; each picks its steps and gets an outcome per field.
+
+export type EnrichmentStep = 'email' | 'phone' | 'social' | 'contacts' | 'verify_email';
+
+export const ENRICHMENT_STEPS: EnrichmentStep[] = ['email', 'phone', 'social', 'contacts', 'verify_email'];
+
+export type EnrichmentField = 'email' | 'phone' | 'instagram_url' | 'social_profiles' | 'contacts';
+
+export type EnrichmentStatus =
+  | 'found' // Filled in from the site
+  | 'present' // Already set, and kept
+  | 'not_found' // The site was crawled and it wasn't there
+  | 'skipped'; // Not asked for, or there was nothing to crawl
+
+export interface FieldOutcome {
+  status: EnrichmentStatus;
+  found: string[]; // The email or phone, new social platforms, or new contacts' names
+}
+
+export interface EnrichmentOptions extends CrawlOptions {
+  steps?: EnrichmentStep[]; // Every step when not given
+  origin?: string; // Provenance stamped on filled fields; 'website_crawl' by default
+}
+
+// What the engine reads and fills; scrape results and saved leads both fit
+export type EnrichableLead = Pick<ScrapeResult, 'website' | 'country' | 'email' | 'phone' | 'instagram_url'> & {
+  field_sources?: FieldSources;
+  social_profiles?: SocialProfiles;
+  contacts?: ContactDetails[];
+};
+
+export interface EnrichmentReport<T extends EnrichableLead> {
+  lead: T;
+  outcomes: Record<EnrichmentField, FieldOutcome>;
+  pages: number; // Pages crawled
+  skipped: string | null; // Why the site wasn't crawled
+}
+
+function siteDomain(website: string): string | null {
+  try {
+    return new URL(website.startsWith('http') ? website : `https://${website}`).hostname.toLowerCase().replace(/^www\./, '');
+  } catch { return null; }
+}
+
+// The step that fills each field
+const FIELD_STEPS: Record<EnrichmentField, EnrichmentStep> = {
+  email: 'email',
+  phone: 'phone',
+  instagram_url: 'social',
+  social_profiles: 'social',
+  contacts: 'contacts',
+};
+
+function hasValue(lead: EnrichableLead, field: EnrichmentField): boolean {
+  if (field === 'social_profiles') return Object.keys(lead.social_profiles || {}).length > 0;
+  if (field === 'contacts') return (lead.contacts?.length ?? 0) > 0;
+  return !!lead[field];
+}
+
+// Outcomes before anything is crawled: set fields are kept, the rest not looked for yet
+function initialOutcomes(lead: EnrichableLead, steps: EnrichmentStep[]): Record<EnrichmentField, FieldOutcome> {
+  return Object.fromEntries((Object.keys(FIELD_STEPS) as EnrichmentField[]).map((field): [EnrichmentField, FieldOutcome] => [field, {
+    status: steps.includes(FIELD_STEPS[field]) && hasValue(lead, field) ? 'present' : 'skipped',
+    found: [],
+  }])) as Record<EnrichmentField, FieldOutcome>;
+}
+
+function outcome(found: string[], wasSet: boolean): FieldOutcome {
+  if (found.length > 0) return { status: 'found', found };
+  return { status: wasSet ? 'present' : 'not_found', found };
+}
+
+export async function enrichFromWebsite<T extends EnrichableLead>(record: T, options: EnrichmentOptions = {}): Promise<EnrichmentReport<T>> {
+  const { steps = ENRICHMENT_STEPS, origin = 'website_crawl', ...crawlOptions } = options;
+  const lead = { ...record };
+  const outcomes = initialOutcomes(lead, steps);
+  const report = (pages: number, skipped: string | null): EnrichmentReport<T> => ({ lead, outcomes, pages, skipped });
+
+  if (!lead.website) return report(0, 'No website');
+  // Skip if every field asked for is already there. Social profiles are only looked
+  // for while Instagram is missing: there's no telling when a lead has them all.
+  const missing = (Object.keys(FIELD_STEPS) as EnrichmentField[])
+    .filter(field => field !== 'social_profiles' && steps.includes(FIELD_STEPS[field]) && !hasValue(lead, field));
+  if (missing.length === 0) return report(0, 'Already enriched');
+
+  const firecrawlKey = getKey('FIRECRAWL_API_KEY');
+  if (!firecrawlKey) return report(0, 'No Firecrawl key');
+
+  let pages: CrawledPage[];
+  try {
+    pages = await crawlSite(lead.website, firecrawlKey, crawlOptions);
+  } catch (err: unknown) {
+    return report(0, err instanceof Error ? err.message : 'Crawl failed');
+  }
+  if (pages.length === 0) return report(0, 'Nothing could be crawled');
+
+  const domain = siteDomain(lead.website);
+  const contacts = extractContacts(pages, domain);
+
+  if (steps.includes('email')) {
+    const hadEmail = !!lead.email;
+    if (!hadEmail && contacts.emails.length > 0) {
+      const email = contacts.emails[0].value;
+      lead.email = email;
+      // An address on the business's own domain is far more likely to reach them
+      const confidence = domain && email.includes(domain) ? 0.8 : 0.5;
+      lead.field_sources = stampFields(lead, ['email'], origin, confidence, lead.field_sources);
+      if (steps.includes('verify_email')) Object.assign(lead, await verifyEmail(email));
+    }
+    outcomes.email = outcome(!hadEmail && lead.email ? [lead.email] : [], hadEmail);
+  }
+
+  if (steps.includes('phone')) {
+    const hadPhone = !!lead.phone;
+    const phone = !hadPhone && contacts.phones.length > 0 ? normalisePhone(contacts.phones[0].value, lead.country) : null;
+    if (phone) {
+      Object.assign(lead, phone);
+      lead.field_sources = stampFields(lead, ['phone'], origin, 0.6, lead.field_sources);
+    }
+    outcomes.phone = outcome(phone ? [phone.phone] : [], hadPhone);
+  }
+
+  if (steps.includes('social')) {
+    // A saved lead's instagram_url may predate its social profiles
+    const existing: SocialProfiles = lead.instagram_url ? { ...lead.social_profiles, instagram: lead.instagram_url } : { ...lead.social_profiles };
+    lead.social_profiles = mergeSocialProfiles(existing, topSocialProfiles(contacts));
+    const hadInstagram = !!lead.instagram_url;
+    if (!hadInstagram && lead.social_profiles.instagram) {
+      lead.instagram_url = lead.social_profiles.instagram;
+      lead.field_sources = stampFields(lead, ['instagram_url'], origin, 0.7, lead.field_sources);
+    }
+    outcomes.instagram_url = outcome(!hadInstagram && lead.instagram_url ? [lead.instagram_url] : [], hadInstagram);
+    const newPlatforms = (Object.keys(lead.social_profiles) as SocialPlatform[]).filter(p => !existing[p]);
+    outcomes.social_profiles = outcome(newPlatforms, Object.keys(existing).length > 0);
+  }
+
+  if (steps.includes('contacts')) {
+    const existing = lead.contacts || [];
+    lead.contacts = mergeContacts(existing, extractPeople(pages));
+    const added = lead.contacts.slice(existing.length).map(c => c.name || c.email || 'Unnamed contact');
+    outcomes.contacts = outcome(added, existing.length > 0);
+  }
+
+  return report(pages.length, null);
+}
+
+// What was found, for activity logs: "email, phone, Facebook, 2 contacts"
+export function describeFound(outcomes: Record<EnrichmentField, FieldOutcome>): string[] {
+  const found: string[] = [];
+  if (outcomes.email.status === 'found') found.push('email');
+  if (outcomes.phone.status === 'found') found.push('phone');
+  for (const platform of outcomes.social_profiles.found) {
+    found.push(SOCIAL_PLATFORM_LABELS[platform as SocialPlatform] || platform);
+  }
+  const people = outcomes.contacts.found.length;
+  if (people > 0) found.push(`${people} contact${people === 1 ? '' : 's'}`);
+  return found;
+}
+
+// Enrich multiple leads in parallel, in their original order. Firecrawl's
+// concurrency and rate limits are applied by the shared HTTP client (lib/http).
+export async function enrichLeadsBatch<T extends EnrichableLead>(leads: T[], options: EnrichmentOptions = {}): Promise<EnrichmentReport<T>[]> {
+  return Promise.all(leads.map(lead => enrichFromWebsite(lead, options)));
+}
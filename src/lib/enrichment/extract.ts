@@ -0,0 +1,94 @@
+import { SOCIAL_PLATFORMS, socialLinksIn } from '@/lib/social';
+import type { SocialPlatform, SocialProfiles } from '@/lib/types';
+import type { CrawledPage, PageKind } from './crawl';
+
+// ─── CONTACT EXTRACTION ────────────────────────────────────────
+// Emails, phones and social profiles gathered from every crawled page and
+// ranked by prominence: where they appear (a contact page beats a booking page),
+// whether they're a link people click, how high on the page, and how often.
+
+export interface RankedContact {
+  value: string;
+  score: number;
+  pages: string[]; // URLs it was found on
+}
+
+export interface SiteContacts {
+  emails: RankedContact[];
+  phones: RankedContact[];
+  social: Record<SocialPlatform, RankedContact[]>;
+}
+
+const PAGE_WEIGHT: Record<PageKind, number> = { contact: 3, home: 2, team: 1.5, about: 1.5, booking: 1 };
+const LINK_WEIGHT = 1.5; // mailto:, tel: or a link to the profile
+const TOP_OF_PAGE_WEIGHT = 1.3; // In the first fifth: header, hero or contact block
+
+const PREFERRED_MAILBOXES = ['info@', 'hello@', 'contact@', 'enquiries@', 'bookings@', 'reception@'];
+
+function isPlausibleEmail(email: string): boolean {
+  const lower = email.toLowerCase();
+  return !lower.endsWith('.png') && !lower.endsWith('.jpg') && !lower.endsWith('.gif') &&
+    !lower.endsWith('.svg') && !lower.endsWith('.webp') && !lower.endsWith('.css') &&
+    !lower.endsWith('.js') && !lower.includes('example.com') && !lower.includes('sentry') &&
+    !lower.includes('webpack') && !lower.includes('wixpress') && !lower.includes('schema.org') &&
+    !lower.includes('googleapis') && !lower.includes('cloudflare') &&
+    !lower.includes('@2x') && !lower.includes('noreply') && !lower.includes('no-reply') &&
+    lower.length < 60 && lower.length > 5;
+}
+
+interface Occurrence {
+  key: string; // What counts as the same contact
+  value: string;
+  index: number;
+  linked: boolean;
+}
+
+export function emailsIn(text: string): Occurrence[] {
+  return Array.from(text.matchAll(/(mailto:)?([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g))
+    .filter(m => isPlausibleEmail(m[2]))
+    .map(m => ({ key: m[2].toLowerCase(), value: m[2].toLowerCase(), index: m.index!, linked: !!m[1] }));
+}
+
+export function phonesIn(text: string): Occurrence[] {
+  return Array.from(text.matchAll(/(tel:|phone:|call\s*:?\s*)?(\+?[\d][\d\s()-]{9,18}\d)/gi))
+    .filter(m => { const digits = m[2].replace(/\D/g, ''); return digits.length >= 10 && digits.length <= 15; })
+    .map(m => ({ key: m[2].replace(/\D/g, '').slice(-9), value: m[2].trim(), index: m.index!, linked: /^tel:/i.test(m[1] || '') }));
+}
+
+function socialIn(platform: SocialPlatform): (text: string) => Occurrence[] {
+  return text => socialLinksIn(text, platform)
+    .map(link => ({ key: link.key, value: link.url, index: link.index, linked: text.slice(Math.max(0, link.index - 2), link.index) === '](' }));
+}
+
+function rank(pages: CrawledPage[], find: (text: string) => Occurrence[], bonus: (value: string) => number = () => 1): RankedContact[] {
+  const found = new Map<string, RankedContact>();
+  for (const page of pages) {
+    for (const occurrence of find(page.markdown)) {
+      const position = occurrence.index < page.markdown.length / 5 ? TOP_OF_PAGE_WEIGHT : 1;
+      const score = PAGE_WEIGHT[page.kind] * position * (occurrence.linked ? LINK_WEIGHT : 1);
+      const entry = found.get(occurrence.key) || { value: occurrence.value, score: 0, pages: [] };
+      entry.score += score;
+      if (!entry.pages.includes(page.url)) entry.pages.push(page.url);
+      found.set(occurrence.key, entry);
+    }
+  }
+  return Array.from(found.values())
+    .map(entry => ({ ...entry, score: entry.score * bonus(entry.value) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function extractContacts(pages: CrawledPage[], domain: string | null): SiteContacts {
+  return {
+    // An address on the business's own domain is far more likely to reach them; shared mailboxes next
+    emails: rank(pages, emailsIn, email => (domain && (email.endsWith(`@${domain}`) || email.endsWith(`.${domain}`)) ? 3 : 1) * (PREFERRED_MAILBOXES.some(p => email.startsWith(p)) ? 1.2 : 1)),
+    phones: rank(pages, phonesIn),
+    social: Object.fromEntries(SOCIAL_PLATFORMS.map(p => [p.id, rank(pages, socialIn(p.id))])) as Record<SocialPlatform, RankedContact[]>,
+  };
+}
+
+// The most prominent profile on each platform the site links to
+export function topSocialProfiles(contacts: SiteContacts): SocialProfiles {
+  return Object.fromEntries(SOCIAL_PLATFORMS
+    .filter(p => contacts.social[p.id].length > 0)
+    .map(p => [p.id, contacts.social[p.id][0].value]));
+}
@@ -0,0 +1,8 @@
+export { crawlSite, type CrawledPage, type CrawlOptions } from './crawl';
+export { extractContacts, topSocialProfiles, type RankedContact, type SiteContacts } from './extract';
+export { extractPeople } from './people';
+export {
+  enrichFromWebsite, enrichLeadsBatch, describeFound, ENRICHMENT_STEPS,
+  type EnrichableLead, type EnrichmentField, type EnrichmentOptions, type EnrichmentReport, type EnrichmentStatus, type EnrichmentStep, type FieldOutcome,
+} from './engine';
+export { enrichSavedLead } from './saved-leads';
@@ -0,0 +1,78 @@
+// ─── EMAIL DE-OBFUSCATION ──────────────────────────────────────
+// Sites hide addresses from scrapers, and so from us: Cloudflare's email protection,
+// HTML or percent-encoded characters, and "info [at] salon [dot] co.uk". Pages are
+// rewritten with the plain address before anything is extracted from them.
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', commat: '@', period: '.', nbsp: ' ', lt: '<', gt: '>', quot: '"', apos: "'", hyphen: '-', lowbar: '_', plus: '+',
+};
+
+// "info&#64;salon&#x2e;co.uk", "info&commat;salon.co.uk"
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]{1,6}|#\d{1,7}|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
+// Cloudflare's encoding: the first byte is a key XORed with every byte after it.
+// "0a63646c654a796b666564246965247f61" → "info@salon.co.uk"
+export function decodeCloudflareEmail(hex: string): string | null {
+  if (!/^([0-9a-f]{2}){2,}$/i.test(hex)) return null;
+  const bytes = hex.match(/../g)!.map(pair => parseInt(pair, 16));
+  const decoded = String.fromCharCode(...bytes.slice(1).map(byte => byte ^ bytes[0]));
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(decoded) ? decoded : null;
+}
+
+// "[[email protected]](https://salon.co.uk/cdn-cgi/l/email-protection#0a63...)" in markdown,
+// data-cfemail="0a63..." in HTML; both become a mailto: link to the real address
+function decodeCloudflare(text: string): string {
+  return text
+    .replace(/(?:https?:\/\/[^\s/)"']+)?\/cdn-cgi\/l\/email-protection#([0-9a-f]+)/gi, (match, hex: string) => {
+      const email = decodeCloudflareEmail(hex);
+      return email ? `mailto:${email}` : match;
+    })
+    .replace(/\[email(?:&#160;|\s| )protected\]/gi, '')
+    .replace(/<([a-z]+)[^>]*data-cfemail="([0-9a-f]+)"[^>]*>[^<]*<\/\1>/gi, (match, _tag: string, hex: string) => decodeCloudflareEmail(hex) ?? match);
+}
+
+// "mailto:info%40salon.co.uk"
+function decodeMailtoLinks(text: string): string {
+  return text.replace(/mailto:([^\s)"'<>]+)/gi, (match, address: string) => {
+    try { return `mailto:${decodeURIComponent(address)}`; } catch { return match; }
+  });
+}
+
+const LOCAL_PART = "[a-zA-Z0-9._%+-]+";
+const LABEL = '[a-zA-Z0-9-]*[a-zA-Z][a-zA-Z0-9-]*';
+// A closing label that can be a top-level domain, so "meet us at noon" isn't an address
+const TLD_END = '(?=[^a-zA-Z0-9-]|$)';
+
+// "info [at] salon [dot] co [dot] uk", "info(at)salon(dot)co.uk", "info {AT} salon.co.uk"
+const BRACKETED = new RegExp(
+  `(${LOCAL_PART})\\s*[[({<]\\s*at\\s*[\\])}>]\\s*(${LABEL}(?:\\s*(?:[[({<]\\s*dot\\s*[\\])}>]|\\.)\\s*${LABEL})*\\s*(?:[[({<]\\s*dot\\s*[\\])}>]|\\.)\\s*[a-zA-Z]{2,24})${TLD_END}`,
+  'gi',
+);
+// "info at salon dot co dot uk": bare words only count when both "at" and "dot" are spelled
+// out and it ends in a common top-level domain, so "open at 9 dot on Monday" is left alone
+const SPELLED_TLDS = 'com|net|org|co|uk|ie|io|biz|info|me|eu|de|fr|es|it|nl|be|ch|at|se|dk|no|au|nz|ca|us|za|in|ae';
+const SPELLED = new RegExp(`(${LOCAL_PART})\\s+(?:at|AT)\\s+(${LABEL}(?:\\s+(?:dot|DOT)\\s+${LABEL})*\\s+(?:dot|DOT)\\s+(?:${SPELLED_TLDS}))${TLD_END}`, 'g');
+// "info @ salon.co.uk"
+const SPACED = new RegExp(`(${LOCAL_PART})\\s+@\\s+(${LABEL}(?:\\.${LABEL})*\\.[a-zA-Z]{2,24})${TLD_END}`, 'g');
+
+function domainOf(spelled: string): string {
+  return spelled.replace(/\s*(?:[[({<]\s*dot\s*[\])}>]|\s+dot\s+|\.)\s*/gi, '.').toLowerCase();
+}
+
+function decodeSpelledOut(text: string): string {
+  return text
+    .replace(BRACKETED, (_m, local: string, domain: string) => `${local}@${domainOf(domain)}`)
+    .replace(SPELLED, (_m, local: string, domain: string) => `${local}@${domainOf(domain)}`)
+    .replace(SPACED, (_m, local: string, domain: string) => `${local}@${domain.toLowerCase()}`);
+}
+
+// The page with every hidden address written out plainly
+export function revealEmails(text: string): string {
+  return decodeSpelledOut(decodeMailtoLinks(decodeCloudflare(decodeEntities(text))));
+}
@@ -0,0 +1,160 @@
+import { isDecisionMaker, mergeContacts, splitName } from '@/lib/contacts';
+import { isRoleMailbox } from '@/lib/email-verification';
+import type { ContactDetails } from '@/lib/types';
+import type { CrawledPage } from './crawl';
+import { emailsIn, phonesIn } from './extract';
+
+// ─── PEOPLE EXTRACTION ─────────────────────────────────────────
+// Owners and managers named on the site. A person is a name beside a decision-making
+// role: "## Sarah Mitchell, Owner", "Owner: Sarah Mitchell", or a name heading over
+// "Founder and lead practitioner, ...". Their email, phone and LinkedIn come from the
+// same section, or from an address anywhere on the site that is made from their name.
+
+const NAME_WORD = "\\p{Lu}[\\p{Ll}'’][\\p{L}'’-]*";
+const NAME = `(?:(?:Dr|Mr|Mrs|Ms|Miss|Prof)\\.?\\s+)?${NAME_WORD}(?:\\s+${NAME_WORD}){1,2}`;
+const NAME_THEN_ROLE = new RegExp(`^(${NAME})\\s*(?:,|\\||:|\\s[–—-]\\s|\\()\\s*(.{3,60}?)\\)?$`, 'u');
+const ROLE_THEN_NAME = new RegExp(`^(.{3,40}?)\\s*(?::|\\s[–—-]\\s)\\s*(${NAME})$`, 'u');
+const NAME_ONLY = new RegExp(`^(${NAME})$`, 'u');
+
+// Capitalised words that start headings but are never part of a person's name
+const NOT_A_NAME = /\b(meet|team|our|the|about|us|contact|welcome|book|booking|opening|hours|services|treatments|prices|reviews|practice|clinic|salon|studio|spa|manager|owner|founder|director|partner|reception|street|road|lane|avenue|ltd|limited)\b/i;
+
+const LINKEDIN_PROFILE = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/in\/([a-zA-Z0-9_-]{3,100})\/?/g;
+
+interface Section {
+  title: string;
+  lines: string[]; // Body lines as plain text
+  raw: string; // Title and body as markdown, for links and addresses
+}
+
+interface Person {
+  name: string;
+  role: string;
+}
+
+// A markdown line as the text a visitor reads
+function plain(line: string): string {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(#{1,6}|[-*+]|\d+\.)\s+/, '')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Split at headings and bold-only lines, which is how team pages set out each person
+function sectionsOf(markdown: string): Section[] {
+  const sections: Section[] = [{ title: '', lines: [], raw: '' }];
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*#{1,6}\s/.test(line) || /^\s*(\*\*|__)[^*_]+(\*\*|__)\s*$/.test(line)) {
+      sections.push({ title: plain(line), lines: [], raw: `${line}\n` });
+      continue;
+    }
+    const section = sections[sections.length - 1];
+    const text = plain(line);
+    if (text) section.lines.push(text);
+    section.raw += `${line}\n`;
+  }
+  return sections;
+}
+
+function person(name: string, role: string): Person | null {
+  const cleanName = name.trim();
+  const cleanRole = role.replace(/[.)\s]+$/, '').trim();
+  const { firstName, lastName } = splitName(cleanName);
+  if (NOT_A_NAME.test(`${firstName} ${lastName}`)) return null;
+  return isDecisionMaker(cleanRole) ? { name: cleanName, role: cleanRole } : null;
+}
+
+// "Sarah Mitchell, Owner", "Sarah Mitchell – Practice Manager", "Owner: Sarah Mitchell"
+function personIn(line: string): Person | null {
+  const nameFirst = line.match(NAME_THEN_ROLE);
+  const found = nameFirst ? person(nameFirst[1], nameFirst[2]) : null;
+  if (found) return found;
+  const roleFirst = line.match(ROLE_THEN_NAME);
+  return roleFirst ? person(roleFirst[2], roleFirst[1]) : null;
+}
+
+function peopleIn(section: Section): Person[] {
+  const people: Person[] = [];
+  const titled = personIn(section.title);
+  if (titled) people.push(titled);
+  // A name on its own, with the role opening the text below it
+  else if (NAME_ONLY.test(section.title) && section.lines.length > 0) {
+    const role = section.lines[0].split(/[,.;]|\s[–—-]\s/)[0];
+    const found = role.length <= 60 ? person(section.title, role) : null;
+    if (found) people.push(found);
+  }
+  // "Owner: Sarah Mitchell. Questions? ..." names someone mid-paragraph
+  for (const sentence of section.lines.flatMap(line => line.split(/(?<=[.!?])\s+/))) {
+    const found = sentence.length <= 100 ? personIn(sentence.replace(/[.!?]+$/, '')) : null;
+    if (found) people.push(found);
+  }
+  return people;
+}
+
+function letters(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z]/g, '');
+}
+
+// sarah@, sarah.mitchell@, smitchell@, s.mitchell@, sarahm@ ...
+function isTheirEmail(name: string, email: string): boolean {
+  const { firstName, lastName } = splitName(name);
+  const first = letters(firstName);
+  const last = letters(lastName.split(' ').pop() || '');
+  if (!first) return false;
+  const local = email.slice(0, email.lastIndexOf('@')).toLowerCase().replace(/\d+$/, '');
+  const forms = last
+    ? [first, `${first}.${last}`, `${first}${last}`, `${first}_${last}`, `${first}-${last}`, `${first[0]}${last}`, `${first[0]}.${last}`, `${first}${last[0]}`]
+    : [first];
+  return forms.includes(local);
+}
+
+function isTheirProfile(name: string, slug: string): boolean {
+  const { firstName, lastName } = splitName(name);
+  const compact = letters(slug);
+  return compact.includes(letters(firstName)) && compact.includes(letters(lastName.split(' ').pop() || ''));
+}
+
+export function extractPeople(pages: CrawledPage[]): ContactDetails[] {
+  const mentions: { person: Person; emails: string[]; phone: string | null; profile: string | undefined }[] = [];
+  const siteEmails = new Set<string>();
+
+  for (const page of pages) {
+    emailsIn(page.markdown).forEach(e => siteEmails.add(e.value));
+    for (const section of sectionsOf(page.markdown)) {
+      const people = peopleIn(section);
+      if (people.length === 0) continue;
+      const emails = emailsIn(section.raw).map(e => e.value);
+      const phones = phonesIn(section.raw);
+      const profiles = Array.from(section.raw.matchAll(LINKEDIN_PROFILE)).map(m => m[1]);
+      // Details in a section about one person are theirs; with several, only the ones made from a name
+      const alone = new Set(people.map(p => p.name.toLowerCase())).size === 1;
+      for (const person of people) {
+        mentions.push({
+          person,
+          emails: alone ? emails : emails.filter(e => isTheirEmail(person.name, e)),
+          phone: alone && phones.length > 0 ? phones[0].value : null,
+          profile: profiles.find(slug => isTheirProfile(person.name, slug)) ?? (alone ? profiles[0] : undefined),
+        });
+      }
+    }
+  }
+
+  // Once everyone is known, an address made from someone else's name is never given to this person
+  const names = Array.from(new Set(mentions.map(m => m.person.name)));
+  const isSomeoneElses = (name: string, email: string) => names.some(other => other !== name && isTheirEmail(other, email));
+  const found: ContactDetails[] = mentions.map(({ person: { name, role }, emails, phone, profile }) => ({
+    name,
+    role,
+    email: emails.find(e => isTheirEmail(name, e))
+      ?? emails.find(e => !isRoleMailbox(e) && !isSomeoneElses(name, e))
+      ?? Array.from(siteEmails).find(e => isTheirEmail(name, e))
+      ?? null,
+    phone,
+    linkedin_url: profile ? `https://www.linkedin.com/in/${profile}` : null,
+    source: 'website_crawl',
+  }));
+  return mergeContacts([], found);
+}
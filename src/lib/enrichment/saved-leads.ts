@@ -0,0 +1,53 @@
+import { supabase } from '@/lib/supabase';
+import { loadContacts, saveContacts } from '@/lib/contacts';
+import type { Lead } from '@/lib/types';
+import { describeFound, enrichFromWebsite, type EnrichableLead, type EnrichmentField, type EnrichmentOptions, type EnrichmentReport } from './engine';
+
+// ─── SAVED LEAD ENRICHMENT ─────────────────────────────────────
+// The engine run against a lead already in the database: its contacts are loaded so
+// they count as present, what was found is written back with new contacts saved,
+// and the run is logged with the outcome for every field.
+
+type SavedLead = Lead & EnrichableLead;
+
+// Found fields that live on the leads row; contacts have their own table
+const LEAD_FIELDS: EnrichmentField[] = ['email', 'phone', 'instagram_url', 'social_profiles'];
+
+// null when there's no such lead
+export async function enrichSavedLead(leadId: string, options: EnrichmentOptions = {}): Promise<EnrichmentReport<SavedLead> | null> {
+  const { data: lead, error } = await supabase.from('leads').select('*').eq('id', leadId).single();
+  if (error || !lead) return null;
+  const contacts = await loadContacts(leadId);
+
+  const report = await enrichFromWebsite<SavedLead>({ ...lead, contacts }, { origin: 'enrich_api', ...options, usage: { leadId, ...options.usage } });
+  const { outcomes, lead: enriched } = report;
+  // Saved even when nobody new was found, so a lead whose primary contact was deleted gets another
+  if (outcomes.contacts.status !== 'skipped') await saveContacts(leadId, enriched.contacts || []);
+  const found = describeFound(outcomes);
+  if (found.length === 0) return report;
+
+  if (LEAD_FIELDS.some(field => outcomes[field].status === 'found')) {
+    const { error: updateError } = await supabase.from('leads').update({
+      email: enriched.email,
+      email_status: enriched.email_status,
+      email_checks: enriched.email_checks,
+      email_verified_at: enriched.email_verified_at,
+      phone: enriched.phone,
+      phone_type: enriched.phone_type,
+      phone_whatsapp: enriched.phone_whatsapp,
+      instagram_url: enriched.instagram_url,
+      social_profiles: enriched.social_profiles,
+      field_sources: enriched.field_sources,
+      updated_at: new Date().toISOString(),
+    }).eq('id', leadId);
+    if (updateError) throw new Error(`Could not save enrichment: ${updateError.message}`);
+  }
+
+  await supabase.from('activity_log').insert({
+    action_type: 'enrich',
+    description: `Enriched ${lead.business_name}: found ${found.join(', ')}`,
+    lead_id: leadId,
+    metadata: { outcomes, pages: report.pages },
+  });
+  return report;
+}
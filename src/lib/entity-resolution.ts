@@ -0,0 +1,284 @@
+import { haversineKm } from '@/lib/geo';
+import { PROVENANCE_FIELDS } from '@/lib/provenance';
+import { mergeSocialProfiles } from '@/lib/social';
+import { mergeContacts } from '@/lib/contact-roles';
+import type { FieldSources, ScrapeResult } from '@/lib/types';
+
+// ─── ENTITY RESOLUTION ─────────────────────────────────────────
+// Different sources list the same business under slightly different names
+// ("Glow Clinic" vs "Glow Clinic Ltd"), and chains list different branches
+// under the same name. Records are matched on phone, website domain, fuzzy
+// name and location, then merged field by field into one result.
+
+const SAME_PLACE_KM = 0.15;
+const DIFFERENT_PLACE_KM = 0.5;
+const NAME_MATCH = 0.85;
+const POSSIBLE_NAME_MATCH = 0.7;
+
+// Sites that host many businesses, so a shared domain says nothing
+const SHARED_DOMAINS = [
+  'facebook.com', 'instagram.com', 'linktr.ee', 'google.com', 'business.site', 'yell.com', 'yelp.com',
+  'yelp.co.uk', 'bark.com', 'fresha.com', 'yellowpages.com', 'treatwell.co.uk', 'booksy.com', 'wixsite.com',
+];
+
+const LEGAL_SUFFIXES = new Set(['ltd', 'limited', 'llc', 'inc', 'plc', 'llp', 'co', 'corp', 'company', 'the', 'and']);
+
+function normalisePhone(phone: string | null): string | null {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  // Compare the national significant number so +44 20… and 020… match
+  return digits.length >= 9 ? digits.slice(-9) : null;
+}
+
+function websiteDomain(website: string | null): string | null {
+  if (!website) return null;
+  try {
+    const host = new URL(website.startsWith('http') ? website : `https://${website}`).hostname.toLowerCase().replace(/^www\./, '');
+    if (SHARED_DOMAINS.some(d => host === d || host.endsWith(`.${d}`))) return null;
+    return host;
+  } catch { return null; }
+}
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t && !LEGAL_SUFFIXES.has(t));
+}
+
+function bigrams(value: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+}
+
+// Dice coefficient on character bigrams of the normalised strings
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const ga = bigrams(a);
+  const gb = bigrams(b);
+  if (ga.length === 0 || gb.length === 0) return 0;
+  const counts = new Map<string, number>();
+  ga.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let shared = 0;
+  for (const g of gb) {
+    const n = counts.get(g) || 0;
+    if (n > 0) { shared++; counts.set(g, n - 1); }
+  }
+  return (2 * shared) / (ga.length + gb.length);
+}
+
+function normaliseAddress(address: string | null): string | null {
+  if (!address) return null;
+  const cleaned = address.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return cleaned.length >= 6 ? cleaned : null;
+}
+
+// The postcode's district, which a chain's branches rarely share: the UK outward
+// code (SW1A), Canada's forward sortation area (M5V), the five-digit US ZIP
+function postcodeDistrict(postcode: string | null | undefined): string | null {
+  if (!postcode) return null;
+  const code = postcode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const uk = code.match(/^([A-Z]{1,2}\d[A-Z\d]?)\d[A-Z]{2}$/);
+  if (uk) return uk[1];
+  if (/^[A-Z]\d[A-Z]\d[A-Z]\d$/.test(code)) return code.slice(0, 3);
+  if (/^\d{5}(\d{4})?$/.test(code)) return code.slice(0, 5);
+  return code || null;
+}
+
+function normaliseTown(town: string | null | undefined): string | null {
+  const cleaned = town?.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return cleaned || null;
+}
+
+// The fields matching looks at; saved leads and scrape results both have them
+export type MatchableRecord = Pick<ScrapeResult, 'business_name' | 'phone' | 'website' | 'address' | 'latitude' | 'longitude'>
+  & Partial<Pick<ScrapeResult, 'city' | 'address_parts'>>;
+
+interface Entity<T extends MatchableRecord> {
+  result: T;
+  name: string;
+  phone: string | null;
+  domain: string | null;
+  address: string | null;
+  district: string | null;
+  town: string | null;
+}
+
+function toEntity<T extends MatchableRecord>(result: T): Entity<T> {
+  return {
+    result,
+    name: nameTokens(result.business_name).join(' '),
+    phone: normalisePhone(result.phone),
+    domain: websiteDomain(result.website),
+    address: normaliseAddress(result.address),
+    district: postcodeDistrict(result.address_parts?.postcode),
+    town: normaliseTown(result.address_parts?.city || result.city),
+  };
+}
+
+// Distance between two records in km, or null if either has no coordinates
+function distanceKm(a: MatchableRecord, b: MatchableRecord): number | null {
+  if (a.latitude === null || a.longitude === null || b.latitude === null || b.longitude === null) return null;
+  return haversineKm({ lat: a.latitude, lng: a.longitude }, { lat: b.latitude, lng: b.longitude });
+}
+
+// Whether two records are in the same postcode district, or failing that the same
+// town; null when neither is known on both sides
+function sameLocality(a: Entity<MatchableRecord>, b: Entity<MatchableRecord>): boolean | null {
+  if (a.district && b.district) return a.district === b.district;
+  if (a.town && b.town) return a.town === b.town;
+  return null;
+}
+
+function isSameBusiness(a: Entity<MatchableRecord>, b: Entity<MatchableRecord>): boolean {
+  const km = distanceKm(a.result, b.result);
+  const addressScore = a.address && b.address ? similarity(a.address, b.address) : null;
+  const locality = km === null ? sameLocality(a, b) : null;
+
+  // Branches of a chain share a name, domain and often a central phone line,
+  // so known-different locations always win
+  if (km !== null && km > DIFFERENT_PLACE_KM) return false;
+  if (km === null && addressScore !== null && addressScore < 0.5) return false;
+  if (locality === false) return false;
+
+  // ...and a shared phone or domain only merges records known to be in one place
+  const samePlace = km !== null || (addressScore ?? 0) >= 0.6 || locality === true;
+  if (a.phone && a.phone === b.phone) return samePlace;
+  if (a.domain && a.domain === b.domain) return samePlace;
+
+  const nameScore = similarity(a.name, b.name);
+  if (nameScore < NAME_MATCH) return false;
+  // A fuzzy name needs the location to agree too
+  if (km !== null) return km <= SAME_PLACE_KM;
+  if (addressScore !== null) return addressScore >= 0.6;
+  return locality === true;
+}
+
+// Not the same business by the rules above, but close enough that someone should
+// look before saving it: a similar name, or a shared phone or domain elsewhere
+function isPossibleDuplicate(a: Entity<MatchableRecord>, b: Entity<MatchableRecord>): boolean {
+  if (a.phone && a.phone === b.phone) return true;
+  if (a.domain && a.domain === b.domain) return true;
+  return similarity(a.name, b.name) >= POSSIBLE_NAME_MATCH;
+}
+
+function preferEmail(a: string | null, b: string | null, domain: string | null): string | null {
+  if (!a || !b) return a || b;
+  // An address on the business's own domain beats a free-mail or directory one
+  if (domain && !a.endsWith(`@${domain}`) && b.endsWith(`@${domain}`)) return b;
+  return a;
+}
+
+function longer(a: string | null, b: string | null): string | null {
+  if (!a || !b) return a || b;
+  return b.length > a.length ? b : a;
+}
+
+// Field-by-field merge; `primary` (the record seen first) keeps its name and source
+function mergeResults(primary: ScrapeResult, other: ScrapeResult): ScrapeResult {
+  const website = primary.website && websiteDomain(primary.website) ? primary.website : (other.website || primary.website);
+  const domain = websiteDomain(website);
+  // Rating and review count travel together, taken from whichever source has more reviews
+  const ratingFrom = (other.google_review_count || 0) > (primary.google_review_count || 0) || primary.google_rating === null ? other : primary;
+  const hasCoords = primary.latitude !== null && primary.longitude !== null;
+
+  const merged: ScrapeResult = {
+    ...primary,
+    address: longer(primary.address, other.address),
+    city: primary.city || other.city,
+    phone: longer(primary.phone, other.phone),
+    email: preferEmail(primary.email, other.email, domain),
+    website,
+    instagram_url: primary.instagram_url || other.instagram_url,
+    google_rating: ratingFrom.google_rating ?? primary.google_rating,
+    google_review_count: ratingFrom.google_rating !== null ? ratingFrom.google_review_count : primary.google_review_count,
+    google_maps_url: primary.google_maps_url || other.google_maps_url,
+    latitude: hasCoords ? primary.latitude : other.latitude,
+    longitude: hasCoords ? primary.longitude : other.longitude,
+    opening_hours: primary.opening_hours || other.opening_hours,
+    social_profiles: mergeSocialProfiles(primary.social_profiles, other.social_profiles || {}),
+    contacts: mergeContacts(primary.contacts || [], other.contacts || []),
+  };
+
+  // Each field keeps the provenance of the record its value was taken from
+  const fieldSources: FieldSources = { ...primary.field_sources };
+  for (const field of PROVENANCE_FIELDS) {
+    const provenance = other.field_sources?.[field];
+    if (provenance && merged[field] !== primary[field] && merged[field] === other[field]) fieldSources[field] = provenance;
+  }
+  return { ...merged, field_sources: fieldSources };
+}
+
+export interface Matcher<T extends MatchableRecord> {
+  find(record: MatchableRecord): T | null;
+  findPossible(record: MatchableRecord): T | null;
+  add(record: T): void;
+  replace(existing: T, next: T): void;
+  records(): T[];
+}
+
+// Index records so incoming ones are only compared with plausible candidates
+// (same phone, same domain, or a shared name token)
+export function createMatcher<T extends MatchableRecord>(initial: T[] = []): Matcher<T> {
+  const entities: Entity<T>[] = [];
+  const byPhone = new Map<string, Entity<T>[]>();
+  const byDomain = new Map<string, Entity<T>[]>();
+  const byToken = new Map<string, Entity<T>[]>();
+
+  const index = (map: Map<string, Entity<T>[]>, key: string | null, entity: Entity<T>) => {
+    if (!key) return;
+    const list = map.get(key);
+    if (list) { if (!list.includes(entity)) list.push(entity); } else map.set(key, [entity]);
+  };
+  const addToIndexes = (entity: Entity<T>) => {
+    index(byPhone, entity.phone, entity);
+    index(byDomain, entity.domain, entity);
+    entity.name.split(' ').forEach(token => index(byToken, token.length > 2 ? token : null, entity));
+  };
+  const findEntity = (
+    record: MatchableRecord,
+    matches: (a: Entity<MatchableRecord>, b: Entity<MatchableRecord>) => boolean,
+  ): Entity<T> | null => {
+    const incoming = toEntity(record);
+    const candidates = new Set<Entity<T>>([
+      ...(incoming.phone ? byPhone.get(incoming.phone) || [] : []),
+      ...(incoming.domain ? byDomain.get(incoming.domain) || [] : []),
+      ...incoming.name.split(' ').flatMap(token => byToken.get(token) || []),
+    ]);
+    return Array.from(candidates).find(candidate => matches(candidate, incoming)) || null;
+  };
+
+  const matcher: Matcher<T> = {
+    find: record => findEntity(record, isSameBusiness)?.result || null,
+    findPossible: record => findEntity(record, isPossibleDuplicate)?.result || null,
+    add: record => {
+      const entity = toEntity(record);
+      entities.push(entity);
+      addToIndexes(entity);
+    },
+    replace: (existing, next) => {
+      const entity = entities.find(e => e.result === existing);
+      if (!entity) return;
+      // Old index keys stay pointing at the entity, so both old and new values still match
+      Object.assign(entity, toEntity(next));
+      addToIndexes(entity);
+    },
+    records: () => entities.map(e => e.result),
+  };
+  initial.forEach(record => matcher.add(record));
+  return matcher;
+}
+
+// Resolve a list of results (from one or many sources) into unique businesses
+export function resolveEntities(results: ScrapeResult[]): ScrapeResult[] {
+  const matcher = createMatcher<ScrapeResult>();
+  for (const result of results) {
+    if (!result.business_name || typeof result.business_name !== 'string' || result.business_name.trim().length < 2) continue;
+    const match = matcher.find(result);
+    if (match) matcher.replace(match, mergeResults(match, result));
+    else matcher.add(result);
+  }
+  return matcher.records();
+}
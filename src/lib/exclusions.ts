@@ -0,0 +1,116 @@
+import { supabase } from '@/lib/supabase';
+import type { ExcludedResult, Exclusion, ExclusionKind, ScrapeResult } from '@/lib/types';
+
+// ─── EXCLUSION LISTS ───────────────────────────────────────────
+// Businesses we must not prospect: existing clients, national chains, and anyone
+// who asked not to be contacted. Matched by domain, phone, business-name pattern
+// or chain name. Excluded results are kept aside with the reason, not dropped silently.
+
+export const EXCLUSION_KINDS: { id: ExclusionKind; label: string; placeholder: string }[] = [
+  { id: 'domain', label: 'Domain', placeholder: 'example.com' },
+  { id: 'phone', label: 'Phone', placeholder: '+44 20 7946 0958' },
+  { id: 'name_pattern', label: 'Name pattern', placeholder: '*dental group*' },
+  { id: 'chain', label: 'Chain / franchise', placeholder: 'Toni & Guy' },
+];
+
+type ExcludableRecord = Pick<ScrapeResult, 'business_name' | 'phone' | 'email' | 'website'>;
+
+export interface ExclusionMatch {
+  exclusion: Exclusion;
+  reason: string;
+}
+
+export async function loadExclusions(): Promise<Exclusion[]> {
+  const { data, error } = await supabase.from('exclusions').select('*');
+  if (error) throw new Error(`Could not load exclusion lists: ${error.message}`);
+  return data || [];
+}
+
+function domainOf(value: string | null): string | null {
+  if (!value) return null;
+  const host = value.includes('@') ? value.split('@').pop()! : value.replace(/^[a-z]+:\/\//i, '').split(/[/?#]/)[0];
+  return host.toLowerCase().replace(/^www\./, '').replace(/\.$/, '') || null;
+}
+
+// Last nine digits, so +44 20… and 020… compare equal (as in entity resolution)
+function phoneKey(value: string | null): string | null {
+  const digits = (value || '').replace(/\D/g, '');
+  return digits.length >= 9 ? digits.slice(-9) : null;
+}
+
+function nameTokens(value: string): string[] {
+  return value.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+}
+
+// "*dental group*" style globs match the whole name; plain text matches anywhere in it
+function namePattern(pattern: string): RegExp {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return pattern.includes('*')
+    ? new RegExp(`^${escaped.replace(/\*/g, '.*')}$`, 'i')
+    : new RegExp(escaped, 'i');
+}
+
+// A chain matches when its name appears as whole words: "Toni & Guy" matches
+// "Toni & Guy Manchester" but "Boots" doesn't match "Bootsmith Cobblers"
+function containsTokens(haystack: string[], needle: string[]): boolean {
+  if (needle.length === 0) return false;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((token, j) => haystack[i + j] === token)) return true;
+  }
+  return false;
+}
+
+function describe(exclusion: Exclusion): string {
+  const what = {
+    domain: `Blocked domain ${exclusion.value}`,
+    phone: `Blocked phone ${exclusion.value}`,
+    name_pattern: `Name matches "${exclusion.value}"`,
+    chain: `Chain: ${exclusion.value}`,
+  }[exclusion.kind];
+  return exclusion.note ? `${what} (${exclusion.note})` : what;
+}
+
+// Compile the lists once; the returned function checks one record
+export function createExclusionMatcher(exclusions: Exclusion[]): (record: ExcludableRecord) => ExclusionMatch | null {
+  const rules = exclusions.map(exclusion => {
+    switch (exclusion.kind) {
+      case 'domain': {
+        const domain = domainOf(exclusion.value);
+        return (r: ExcludableRecord) => [domainOf(r.website), domainOf(r.email)]
+          .some(d => !!d && !!domain && (d === domain || d.endsWith(`.${domain}`)));
+      }
+      case 'phone': {
+        const key = phoneKey(exclusion.value);
+        return (r: ExcludableRecord) => !!key && phoneKey(r.phone) === key;
+      }
+      case 'name_pattern': {
+        const pattern = namePattern(exclusion.value);
+        return (r: ExcludableRecord) => pattern.test(r.business_name);
+      }
+      case 'chain': {
+        const tokens = nameTokens(exclusion.value);
+        return (r: ExcludableRecord) => containsTokens(nameTokens(r.business_name), tokens);
+      }
+    }
+  });
+
+  return record => {
+    const index = rules.findIndex(rule => rule(record));
+    return index >= 0 ? { exclusion: exclusions[index], reason: describe(exclusions[index]) } : null;
+  };
+}
+
+// Split results into those to keep and those excluded, with the reason
+export function partitionExcluded(
+  results: ScrapeResult[],
+  match: (record: ExcludableRecord) => ExclusionMatch | null,
+): { kept: ScrapeResult[]; excluded: ExcludedResult[] } {
+  const kept: ScrapeResult[] = [];
+  const excluded: ExcludedResult[] = [];
+  for (const result of results) {
+    const hit = match(result);
+    if (hit) excluded.push({ result, reason: hit.reason, exclusion_id: hit.exclusion.id });
+    else kept.push(result);
+  }
+  return { kept, excluded };
+}
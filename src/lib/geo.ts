@@ -0,0 +1,114 @@
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { providerJson } from '@/lib/http';
+
+// ─── GEO HELPERS ───────────────────────────────────────────────
+// Geocoding (OpenStreetMap Nominatim) and map-grid helpers for location-based searches
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+}
+
+export interface GeoArea extends LatLng {
+  bbox: BoundingBox;
+  displayName: string;
+}
+
+export interface MapTile extends LatLng {
+  zoom: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Resolve a free-text place ("Manchester, United Kingdom") to a centre point and bounding box
+export async function geocodeArea(query: string, cache: CacheOptions = {}): Promise<GeoArea | null> {
+  const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: '1' });
+  const data = await withProviderCache('nominatim', { q: query }, () =>
+    providerJson('nominatim', `https://nominatim.openstreetmap.org/search?${params.toString()}`, {
+      headers: { 'User-Agent': 'Prospex/2.0 (lead search)', 'Accept-Language': 'en' },
+    }), cache);
+  const place = Array.isArray(data) ? data[0] : null;
+  if (!place || !Array.isArray(place.boundingbox)) return null;
+  const [south, north, west, east] = (place.boundingbox as string[]).map(Number);
+  return {
+    lat: Number(place.lat),
+    lng: Number(place.lon),
+    bbox: { south, north, west, east },
+    displayName: String(place.display_name || query),
+  };
+}
+
+// Accepts "51.5072,-0.1276" style input; anything else is treated as a place or postcode
+export function parseLatLng(value: string): LatLng | null {
+  const match = value.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+// Centre point for a radius search: literal coordinates, or a geocoded postcode/place
+export async function resolveCenter(value: string, country?: string): Promise<LatLng | null> {
+  const literal = parseLatLng(value);
+  if (literal) return literal;
+  const area = await geocodeArea(country ? `${value}, ${country}` : value);
+  return area ? { lat: area.lat, lng: area.lng } : null;
+}
+
+export function toKm(distance: number, unit: 'mi' | 'km'): number {
+  return unit === 'mi' ? distance * 1.609344 : distance;
+}
+
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export function inBoundingBox(point: LatLng, bbox: BoundingBox): boolean {
+  return point.lat >= bbox.south && point.lat <= bbox.north && point.lng >= bbox.west && point.lng <= bbox.east;
+}
+
+export function boundingBoxAround(center: LatLng, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(0.01, Math.cos((center.lat * Math.PI) / 180));
+  return { south: center.lat - latDelta, north: center.lat + latDelta, west: center.lng - lngDelta, east: center.lng + lngDelta };
+}
+
+// Google Maps zoom at which one viewport is ~widthKm wide
+export function zoomForWidth(widthKm: number, lat: number): number {
+  return Math.min(18, Math.max(10, Math.round(Math.log2((40075 * Math.cos((lat * Math.PI) / 180)) / widthKm))));
+}
+
+// Split a bounding box into roughly tileKm-wide square tiles, ordered from the
+// centre outwards so a capped search covers the core of the area first
+export function tileBoundingBox(bbox: BoundingBox, tileKm: number): MapTile[] {
+  const midLat = (bbox.south + bbox.north) / 2;
+  const heightKm = haversineKm({ lat: bbox.south, lng: bbox.west }, { lat: bbox.north, lng: bbox.west });
+  const widthKm = haversineKm({ lat: midLat, lng: bbox.west }, { lat: midLat, lng: bbox.east });
+  const rows = Math.max(1, Math.ceil(heightKm / tileKm));
+  const cols = Math.max(1, Math.ceil(widthKm / tileKm));
+  const latStep = (bbox.north - bbox.south) / rows;
+  const lngStep = (bbox.east - bbox.west) / cols;
+
+  const zoom = zoomForWidth(tileKm, midLat);
+
+  const tiles: MapTile[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      tiles.push({ lat: bbox.south + latStep * (r + 0.5), lng: bbox.west + lngStep * (c + 0.5), zoom });
+    }
+  }
+  const centre = { lat: midLat, lng: (bbox.west + bbox.east) / 2 };
+  return tiles.sort((a, b) => haversineKm(centre, a) - haversineKm(centre, b));
+}
@@ -0,0 +1,204 @@
+import { isSandbox, sandboxResponse } from '@/lib/sandbox';
+
+// ─── OUTBOUND HTTP ─────────────────────────────────────────────
+// Every call to an external provider goes through providerFetch. Calls queue
+// behind the provider's concurrency and rate limits, time out, and retry on
+// 429/5xx with jittered exponential backoff (honouring Retry-After). Anything
+// that still fails is thrown as a ProviderError. In sandbox mode nothing leaves
+// the machine: lib/sandbox answers instead.
+
+export type HttpProvider =
+  | 'outscraper'
+  | 'apify'
+  | 'firecrawl'
+  | 'dataforseo'
+  | 'openai'
+  | 'pagespeed'
+  | 'ghl'
+  | 'nominatim'
+  | 'overpass'
+  | 'bing'
+  | 'directory'
+  | 'website';
+
+interface ProviderLimits {
+  concurrency: number; // Requests in flight at once
+  minIntervalMs: number; // Minimum gap between request starts
+  timeoutMs: number;
+  retries: number;
+}
+
+const PROVIDER_LIMITS: Record<HttpProvider, ProviderLimits> = {
+  outscraper: { concurrency: 3, minIntervalMs: 200, timeoutMs: 120_000, retries: 3 }, // Sync searches can take a minute
+  apify: { concurrency: 2, minIntervalMs: 500, timeoutMs: 300_000, retries: 2 }, // run-sync waits for the actor to finish
+  firecrawl: { concurrency: 3, minIntervalMs: 250, timeoutMs: 60_000, retries: 3 },
+  dataforseo: { concurrency: 5, minIntervalMs: 100, timeoutMs: 60_000, retries: 3 },
+  openai: { concurrency: 3, minIntervalMs: 0, timeoutMs: 60_000, retries: 3 },
+  pagespeed: { concurrency: 2, minIntervalMs: 500, timeoutMs: 90_000, retries: 2 },
+  ghl: { concurrency: 2, minIntervalMs: 150, timeoutMs: 30_000, retries: 3 },
+  nominatim: { concurrency: 1, minIntervalMs: 1000, timeoutMs: 15_000, retries: 2 }, // Usage policy: 1 request/second
+  overpass: { concurrency: 1, minIntervalMs: 1000, timeoutMs: 90_000, retries: 2 }, // Shared public instance; big areas are slow
+  bing: { concurrency: 3, minIntervalMs: 200, timeoutMs: 30_000, retries: 3 },
+  directory: { concurrency: 1, minIntervalMs: 1500, timeoutMs: 30_000, retries: 2 }, // Crawl directory pages politely
+  website: { concurrency: 4, minIntervalMs: 100, timeoutMs: 15_000, retries: 1 }, // Business sites' robots.txt and sitemaps
+};
+
+const PROVIDER_LABELS: Record<HttpProvider, string> = {
+  outscraper: 'Outscraper',
+  apify: 'Apify',
+  firecrawl: 'Firecrawl',
+  dataforseo: 'DataForSEO',
+  openai: 'OpenAI',
+  pagespeed: 'PageSpeed',
+  ghl: 'GoHighLevel',
+  nominatim: 'Geocoding',
+  overpass: 'OpenStreetMap',
+  bing: 'Bing Maps',
+  directory: 'Directory',
+  website: 'Website',
+};
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+
+export type ProviderErrorKind = 'rate_limited' | 'server' | 'client' | 'timeout' | 'network';
+
+export class ProviderError extends Error {
+  constructor(
+    readonly provider: HttpProvider,
+    readonly kind: ProviderErrorKind,
+    message: string,
+    readonly status: number | null = null,
+    readonly body: string = '',
+    readonly retryAfterMs: number | null = null, // How long the provider asked us to wait
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  // 4xx other than 429 means the request itself is wrong; sending it again won't help
+  get retryable(): boolean {
+    return this.kind !== 'client';
+  }
+}
+
+// ─── Limiter ─────────────────────────────────────────────────
+interface LimiterState {
+  active: number;
+  waiting: (() => void)[];
+  nextStartAt: number;
+}
+
+const limiters = new Map<HttpProvider, LimiterState>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function acquire(provider: HttpProvider): Promise<void> {
+  const limits = PROVIDER_LIMITS[provider];
+  let state = limiters.get(provider);
+  if (!state) {
+    state = { active: 0, waiting: [], nextStartAt: 0 };
+    limiters.set(provider, state);
+  }
+  if (state.active >= limits.concurrency) {
+    // release() hands its slot straight to us, so `active` is unchanged
+    await new Promise<void>(resolve => state!.waiting.push(resolve));
+  } else {
+    state.active++;
+  }
+  // Reserve the next start slot before waiting, so queued calls space themselves out
+  const startAt = Math.max(Date.now(), state.nextStartAt);
+  state.nextStartAt = startAt + limits.minIntervalMs;
+  if (startAt > Date.now()) await sleep(startAt - Date.now());
+}
+
+function release(provider: HttpProvider): void {
+  const state = limiters.get(provider);
+  if (!state) return;
+  const next = state.waiting.shift();
+  if (next) next();
+  else state.active--;
+}
+
+// ─── Requests ────────────────────────────────────────────────
+// Retry-After in seconds, from the header or (some providers) the JSON body
+function retryAfterMs(response: Response, body: string): number | null {
+  const value = response.headers.get('retry-after') || body.match(/"retry_?after"\s*:\s*(\d+)/i)?.[1];
+  const seconds = value ? Number(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+function backoffMs(attemptNo: number, err: ProviderError): number {
+  if (err.retryAfterMs !== null) return Math.min(err.retryAfterMs, BACKOFF_MAX_MS);
+  // Full jitter: anywhere up to the exponential ceiling, so parallel retries don't line up
+  return Math.random() * Math.min(BACKOFF_BASE_MS * 2 ** attemptNo, BACKOFF_MAX_MS);
+}
+
+async function attempt(provider: HttpProvider, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const label = PROVIDER_LABELS[provider];
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (err: unknown) {
+    if (controller.signal.aborted) throw new ProviderError(provider, 'timeout', `${label} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    throw new ProviderError(provider, 'network', `${label} request failed: ${err instanceof Error ? err.message : 'network error'}`);
+  } finally {
+    clearTimeout(timer);
+  }
+  if (response.ok) return response;
+
+  const body = await response.text().catch(() => '');
+  const kind: ProviderErrorKind = response.status === 429 ? 'rate_limited' : response.status >= 500 ? 'server' : 'client';
+  const detail = body ? `: ${body.slice(0, 200)}` : '';
+  throw new ProviderError(provider, kind, `${label} error (${response.status})${detail}`, response.status, body, retryAfterMs(response, body));
+}
+
+export interface ProviderFetchOptions {
+  timeoutMs?: number;
+  retries?: number;
+  // Calls that create something (e.g. a CRM contact) may have gone through before a
+  // 5xx or timeout, so they're only retried when the provider turned them away (429)
+  idempotent?: boolean;
+}
+
+// fetch() for provider calls. Resolves only with an ok response; throws ProviderError otherwise.
+export async function providerFetch(
+  provider: HttpProvider,
+  url: string,
+  init: RequestInit = {},
+  options: ProviderFetchOptions = {},
+): Promise<Response> {
+  if (isSandbox()) return sandboxResponse(provider, url, init);
+  const limits = PROVIDER_LIMITS[provider];
+  const retries = options.retries ?? limits.retries;
+
+  for (let attemptNo = 0; ; attemptNo++) {
+    await acquire(provider);
+    let failure: ProviderError;
+    try {
+      return await attempt(provider, url, init, options.timeoutMs ?? limits.timeoutMs);
+    } catch (err: unknown) {
+      if (!(err instanceof ProviderError) || !err.retryable || attemptNo >= retries) throw err;
+      if (options.idempotent === false && err.kind !== 'rate_limited') throw err;
+      failure = err;
+    } finally {
+      // Don't hold a slot while backing off
+      release(provider);
+    }
+    await sleep(backoffMs(attemptNo, failure));
+  }
+}
+
+export async function providerJson<T = unknown>(
+  provider: HttpProvider,
+  url: string,
+  init: RequestInit = {},
+  options: ProviderFetchOptions = {},
+): Promise<T> {
+  const response = await providerFetch(provider, url, init, options);
+  return response.json();
+}
@@ -0,0 +1,261 @@
+import { supabase } from '@/lib/supabase';
+import { createMatcher } from '@/lib/entity-resolution';
+import { createExclusionMatcher, loadExclusions } from '@/lib/exclusions';
+import { diffLead, loadSavedLeads, type SavedLead } from '@/lib/lead-matching';
+import { parseAddress } from '@/lib/address';
+import { normalisePhone, withNormalisedPhone } from '@/lib/phone';
+import { verifyInBatches, withVerifiedEmail } from '@/lib/email-verification';
+import { stampAllFields } from '@/lib/provenance';
+import { loadContactsByLead, planContacts } from '@/lib/contacts';
+import { mergeSocialProfiles, SOCIAL_PLATFORMS } from '@/lib/social';
+import { calculateLeadScore } from '@/lib/scoring';
+import type { BulkLeadOutcome, BulkLeadRequest, BulkLeadRow, BulkLeadStatus, Contact, ContactDetails, DiffField, FieldSources, ProvenanceField, ScrapeResult, SocialProfiles } from '@/lib/types';
+
+// ─── BULK LEAD UPSERT ──────────────────────────────────────────
+// Every batch of leads (search results, CSV imports, saved-search runs) is written
+// here: validated, normalised, deduped against the batch and saved leads, scored,
+// then inserted and updated, with their named contacts, in one transaction
+// (bulk_upsert_leads in the schema).
+// Each row gets its own outcome, in the order sent.
+
+export const MAX_BULK_ROWS = 1000;
+
+interface PreparedRow {
+  record: ScrapeResult;
+  acceptFields: DiffField[] | undefined;
+}
+
+function text(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? null : trimmed;
+}
+
+function numberIn(value: unknown, min: number, max: number): number | null {
+  const n = typeof value === 'number' ? value : text(value) === null ? NaN : Number(text(value));
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+function email(value: unknown): string | null {
+  const address = text(value)?.toLowerCase().replace(/^mailto:/, '') ?? null;
+  return address && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address) ? address : null;
+}
+
+function url(value: unknown): string | null {
+  const link = text(value);
+  if (!link) return null;
+  return /^https?:\/\//i.test(link) ? link : `https://${link}`;
+}
+
+// Named people on the row; anyone without a name or an email is dropped
+function prepareContacts(contacts: unknown, country: string, source: string): ContactDetails[] {
+  if (!Array.isArray(contacts)) return [];
+  return contacts
+    .map((contact: Record<string, unknown>) => ({
+      name: text(contact?.name),
+      role: text(contact?.role),
+      email: email(contact?.email),
+      phone: normalisePhone(text(contact?.phone), country)?.phone ?? null,
+      linkedin_url: url(contact?.linkedin_url),
+      source: text(contact?.source) || source,
+    }))
+    .filter(contact => contact.name || contact.email);
+}
+
+// Profile URLs for the platforms we know; the row's instagram_url counts as its Instagram
+function prepareSocialProfiles(profiles: unknown, instagramUrl: string | null): SocialProfiles {
+  const given = (profiles && typeof profiles === 'object' ? profiles : {}) as Record<string, unknown>;
+  const prepared: SocialProfiles = {};
+  for (const { id } of SOCIAL_PLATFORMS) {
+    const link = url(given[id]);
+    if (link) prepared[id] = link;
+  }
+  if (instagramUrl) prepared.instagram = instagramUrl;
+  return prepared;
+}
+
+// A clean ScrapeResult from whatever the client sent, or the reason it can't be saved
+function prepareRow(row: BulkLeadRow, country: string, source: string | undefined): PreparedRow | string {
+  const businessName = text(row.business_name);
+  if (!businessName || businessName.length < 2) return 'Business name missing';
+  const rowSource = text(row.source) || source;
+  if (!rowSource) return 'Source missing';
+  const rowCountry = text(row.country) || country;
+  const address = text(row.address);
+
+  const record: ScrapeResult = withNormalisedPhone({
+    business_name: businessName,
+    address,
+    city: text(row.city),
+    country: rowCountry,
+    phone: text(row.phone),
+    email: email(row.email),
+    website: url(row.website),
+    instagram_url: url(row.instagram_url),
+    google_rating: numberIn(row.google_rating, 0, 5),
+    google_review_count: numberIn(row.google_review_count, 0, Number.MAX_SAFE_INTEGER),
+    google_maps_url: url(row.google_maps_url),
+    latitude: numberIn(row.latitude, -90, 90),
+    longitude: numberIn(row.longitude, -180, 180),
+    opening_hours: text(row.opening_hours),
+    source: rowSource,
+    address_parts: parseAddress(address, rowCountry),
+  });
+  if (record.google_review_count !== null) record.google_review_count = Math.round(record.google_review_count);
+  record.field_sources = stampAllFields(record, rowSource);
+  record.social_profiles = prepareSocialProfiles(row.social_profiles, record.instagram_url);
+  record.contacts = prepareContacts(row.contacts, rowCountry, rowSource);
+  return { record, acceptFields: row.accept_fields };
+}
+
+// Contact rows for the RPC, tied to a new lead by its position in new_leads or to a saved lead by id,
+// and the id of a contact the lead already has that becomes primary. The primary is chosen from
+// old and new contacts together, as saveContacts does; the RPC keeps a primary that's already set.
+function contactRows(incoming: ContactDetails[], existing: Contact[], lead: { lead_index: number } | { lead_id: string }): { rows: Record<string, unknown>[]; promote: string | null } {
+  const { fresh, primary } = planContacts(existing, incoming);
+  return {
+    rows: fresh.map(contact => ({ ...lead, ...contact, is_primary: contact === primary })),
+    promote: existing.find(c => c === primary)?.id ?? null,
+  };
+}
+
+function scoreColumns(lead: Parameters<typeof calculateLeadScore>[0]) {
+  const score = calculateLeadScore(lead);
+  return { lead_score: score.total, lead_grade: score.grade, lead_priority: score.priority };
+}
+
+function insertColumns(record: ScrapeResult, searchId: string | null): Record<string, unknown> {
+  return {
+    business_name: record.business_name, address: record.address, city: record.city, country: record.country,
+    phone: record.phone, phone_type: record.phone_type ?? null, phone_whatsapp: !!record.phone_whatsapp,
+    email: record.email, email_status: record.email_status ?? null, email_checks: record.email_checks ?? null, email_verified_at: record.email_verified_at ?? null,
+    website: record.website, instagram_url: record.instagram_url, social_profiles: record.social_profiles || {},
+    google_rating: record.google_rating, google_review_count: record.google_review_count, google_maps_url: record.google_maps_url,
+    latitude: record.latitude, longitude: record.longitude, address_parts: record.address_parts || null, opening_hours: record.opening_hours,
+    source: record.source, field_sources: record.field_sources || {}, search_id: searchId,
+    ...scoreColumns(record),
+  };
+}
+
+// Only the accepted fields that actually differ are written, plus social profiles the lead
+// doesn't have yet; null when nothing would change
+function updateColumns(lead: SavedLead, record: ScrapeResult, acceptFields: DiffField[] | undefined): Record<string, unknown> | null {
+  const diff = diffLead(lead, record).filter(d => !acceptFields || acceptFields.includes(d.field));
+  const social = mergeSocialProfiles(lead.social_profiles, record.social_profiles || {});
+  const newProfiles = Object.keys(social).length > Object.keys(lead.social_profiles || {}).length;
+  if (diff.length === 0 && !newProfiles) return null;
+  const changes: Record<string, unknown> = newProfiles ? { social_profiles: social } : {};
+  const fieldSources: FieldSources = { ...lead.field_sources };
+  for (const { field } of diff) {
+    changes[field] = record[field];
+    if (field === 'phone') { changes.phone_type = record.phone_type ?? null; changes.phone_whatsapp = !!record.phone_whatsapp; }
+    if (field === 'address') changes.address_parts = record.address_parts || null;
+    if (field === 'instagram_url') changes.social_profiles = { ...social, instagram: record.instagram_url };
+    if (field === 'email') Object.assign(changes, { email_status: record.email_status ?? null, email_checks: record.email_checks ?? null, email_verified_at: record.email_verified_at ?? null });
+    const provenance = record.field_sources?.[field as ProvenanceField];
+    if (provenance) fieldSources[field as ProvenanceField] = provenance;
+  }
+  return { ...changes, field_sources: fieldSources, ...scoreColumns({ ...lead, ...changes }), updated_at: new Date().toISOString() };
+}
+
+async function defaultCountry(): Promise<string> {
+  const { data } = await supabase.from('settings').select('default_country').limit(1).maybeSingle();
+  return data?.default_country || 'United Kingdom';
+}
+
+export async function upsertLeads(request: BulkLeadRequest): Promise<BulkLeadOutcome[]> {
+  const outcome = (status: BulkLeadStatus, leadId: string | null = null, message: string | null = null, exclusionId: string | null = null): BulkLeadOutcome =>
+    ({ status, lead_id: leadId, message, exclusion_id: exclusionId });
+  const country = text(request.country) || await defaultCountry();
+  const onExisting = request.on_existing || 'skip';
+  const isExcluded = createExclusionMatcher(await loadExclusions());
+
+  const outcomes: BulkLeadOutcome[] = new Array(request.rows.length);
+  const prepared: { index: number; row: PreparedRow }[] = [];
+  request.rows.forEach((row, index) => {
+    const result = prepareRow(row, country, request.source);
+    if (typeof result === 'string') { outcomes[index] = outcome('invalid', null, result); return; }
+    const exclusion = isExcluded(result.record);
+    if (exclusion) { outcomes[index] = outcome('excluded', null, exclusion.reason, exclusion.exclusion.id); return; }
+    prepared.push({ index, row: result });
+  });
+
+  // Every email is checked here: a row's own verification can't be trusted
+  await verifyInBatches(prepared, async p => {
+    if (p.row.record.email) p.row.record = await withVerifiedEmail(p.row.record);
+  });
+
+  // Saved leads for every country in the batch
+  const countries = Array.from(new Set(prepared.map(p => p.row.record.country!)));
+  const saved = createMatcher<SavedLead>((await Promise.all(countries.map(loadSavedLeads))).flat());
+  const batch = createMatcher<ScrapeResult>();
+  const batchIndex = new Map<ScrapeResult, number>();
+
+  const inserts: { index: number; columns: Record<string, unknown> }[] = [];
+  const updates: { index: number; id: string; changes: Record<string, unknown> }[] = [];
+  const contacts: Record<string, unknown>[] = [];
+  const primaryContacts: string[] = []; // Saved contacts that become their lead's primary
+  const savedToUpdate: { index: number; record: ScrapeResult; existing: SavedLead; acceptFields: DiffField[] | undefined }[] = [];
+  const written: number[] = []; // Rows with anything in the transaction, contacts included
+  for (const { index, row } of prepared) {
+    const { record, acceptFields } = row;
+    const earlier = batch.find(record);
+    if (earlier) { outcomes[index] = outcome('duplicate', null, `Same business as row ${batchIndex.get(earlier)! + 1}`); continue; }
+    batch.add(record);
+    batchIndex.set(record, index);
+
+    const existing = saved.find(record);
+    if (!existing) {
+      contacts.push(...contactRows(record.contacts || [], [], { lead_index: inserts.length }).rows);
+      inserts.push({ index, columns: insertColumns(record, request.search_id ?? null) });
+      written.push(index);
+      continue;
+    }
+    if (onExisting === 'skip') { outcomes[index] = outcome('duplicate', existing.id, `Already saved as "${existing.business_name}"`); continue; }
+    savedToUpdate.push({ index, record, existing, acceptFields });
+  }
+
+  // Saved leads' contacts, so the primary is picked from everyone on the lead
+  const savedContacts = await loadContactsByLead(Array.from(new Set(savedToUpdate.map(s => s.existing.id))));
+  for (const { index, record, existing, acceptFields } of savedToUpdate) {
+    const { rows, promote } = contactRows(record.contacts || [], savedContacts.get(existing.id) || [], { lead_id: existing.id });
+    contacts.push(...rows);
+    if (promote) primaryContacts.push(promote);
+    const changes = updateColumns(existing, record, acceptFields);
+    if (changes) updates.push({ index, id: existing.id, changes });
+    else outcomes[index] = outcome('unchanged', existing.id);
+    if (changes || rows.length > 0 || promote) written.push(index);
+  }
+
+  if (inserts.length > 0 || updates.length > 0 || contacts.length > 0 || primaryContacts.length > 0) {
+    const { data, error } = await supabase.rpc('bulk_upsert_leads', {
+      new_leads: inserts.map(i => i.columns),
+      lead_updates: updates.map(u => ({ id: u.id, changes: u.changes })),
+      new_contacts: contacts,
+      primary_contacts: primaryContacts,
+    });
+    // One transaction: it all went in, or none of it did
+    if (error) {
+      written.forEach(index => { outcomes[index] = outcome('error', null, error.message); });
+    } else {
+      const ids = (data || []) as string[];
+      inserts.forEach(({ index }, i) => { outcomes[index] = outcome('inserted', ids[i] ?? null); });
+      updates.forEach(({ index, id }) => { outcomes[index] = outcome('updated', id); });
+    }
+  }
+
+  if (request.description) {
+    const counts = countOutcomes(outcomes);
+    await supabase.from('activity_log').insert({
+      action_type: 'scrape',
+      description: `${request.description}: ${counts.inserted} saved, ${counts.updated} updated, ${counts.duplicate} duplicates, ${counts.excluded} excluded, ${counts.invalid + counts.error} failed`,
+    });
+  }
+  return outcomes;
+}
+
+export function countOutcomes(outcomes: BulkLeadOutcome[]): Record<BulkLeadStatus, number> {
+  const counts: Record<BulkLeadStatus, number> = { inserted: 0, updated: 0, unchanged: 0, duplicate: 0, excluded: 0, invalid: 0, error: 0 };
+  outcomes.forEach(o => { counts[o.status]++; });
+  return counts;
+}
@@ -0,0 +1,56 @@
+import { supabase } from '@/lib/supabase';
+import { createMatcher, type MatchableRecord } from '@/lib/entity-resolution';
+import { DIFF_FIELDS } from '@/lib/diff-fields';
+import type { DiffField, FieldDiff, Lead, ResultMatch, ScrapeResult } from '@/lib/types';
+
+// ─── MATCHING AGAINST SAVED LEADS ──────────────────────────────
+// Before results are saved, each is labelled: a new business, a lead we already
+// have (with what the new scrape would change on it), or a possible duplicate
+// that needs a human look. Matching is entity resolution against saved leads.
+
+export type SavedLead = MatchableRecord & Pick<Lead, 'id' | 'field_sources' | 'audit_score' | 'social_profiles' | DiffField>;
+
+const PAGE_SIZE = 1000;
+
+// Every lead in the country, paged past Supabase's default row limit
+export async function loadSavedLeads(country: string): Promise<SavedLead[]> {
+  const leads: SavedLead[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase.from('leads')
+      .select(`id, business_name, city, address_parts, latitude, longitude, field_sources, audit_score, social_profiles, ${DIFF_FIELDS.join(', ')}`)
+      .eq('country', country)
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Could not load existing leads: ${error.message}`);
+    leads.push(...((data || []) as unknown as SavedLead[]));
+    if (!data || data.length < PAGE_SIZE) return leads;
+  }
+}
+
+// Formatting differences ("https://www.x.com/" vs "x.com", letter case) aren't changes
+function comparable(field: DiffField, value: string | number | null): string | number | null {
+  if (typeof value !== 'string') return value;
+  const text = value.trim().toLowerCase();
+  return field === 'website' ? text.replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '') : text;
+}
+
+// Fields the result would change. Only values it has count, so a scrape never blanks a field.
+export function diffLead(lead: Pick<Lead, DiffField>, result: ScrapeResult): FieldDiff[] {
+  return DIFF_FIELDS
+    .filter(field => result[field] !== null && result[field] !== '' && comparable(field, result[field]) !== comparable(field, lead[field]))
+    .map(field => ({ field, current: lead[field], incoming: result[field] }));
+}
+
+export function matchResults(results: ScrapeResult[], leads: SavedLead[]): ResultMatch[] {
+  const matcher = createMatcher<SavedLead>(leads);
+  return results.map(result => {
+    const existing = matcher.find(result);
+    if (existing) {
+      return { status: 'existing', lead: { id: existing.id, business_name: existing.business_name, field_sources: existing.field_sources || {} }, diff: diffLead(existing, result) };
+    }
+    const possible = matcher.findPossible(result);
+    if (possible) {
+      return { status: 'possible_duplicate', lead: { id: possible.id, business_name: possible.business_name, field_sources: possible.field_sources || {} }, diff: [] };
+    }
+    return { status: 'new', lead: null, diff: [] };
+  });
+}
@@ -0,0 +1,43 @@
+import { parsePhoneNumberFromString, type CountryCode } from 'libphonenumber-js/max';
+import { countryCode } from '@/lib/countries';
+import type { PhoneType } from '@/lib/types';
+
+// ─── PHONE NUMBERS ─────────────────────────────────────────────
+// Scraped phones come in every national format ("020 7946 0958", "(212) 555-0123").
+// Everything is stored as E.164 (+442079460958), read against the lead's country,
+// with the line type so WhatsApp is only offered for mobiles.
+
+export interface NormalisedPhone {
+  phone: string; // E.164, or the scraped text when it can't be parsed
+  phone_type: PhoneType;
+  phone_whatsapp: boolean;
+}
+
+const TYPES: Record<string, PhoneType> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'landline',
+  TOLL_FREE: 'toll_free',
+  VOIP: 'voip',
+  // US and Canadian numbers don't say whether they're mobile
+  FIXED_LINE_OR_MOBILE: 'unknown',
+};
+
+export function normalisePhone(raw: string | null | undefined, country: string | null | undefined): NormalisedPhone | null {
+  const text = (raw || '').trim();
+  if (!text) return null;
+  const region = countryCode(country)?.toUpperCase() as CountryCode | undefined;
+  const parsed = parsePhoneNumberFromString(text, region);
+  if (!parsed || !parsed.isPossible()) return { phone: text, phone_type: 'unknown', phone_whatsapp: false };
+  // Right length but outside any allocated range (including the ranges reserved for fiction)
+  if (!parsed.isValid()) return { phone: parsed.number, phone_type: 'unknown', phone_whatsapp: false };
+  const type = TYPES[parsed.getType() || ''] || 'other';
+  return { phone: parsed.number, phone_type: type, phone_whatsapp: type === 'mobile' };
+}
+
+// A record with its phone normalised; without a phone the type fields are cleared
+export function withNormalisedPhone<T extends { phone: string | null; country: string | null }>(
+  record: T,
+): T & { phone_type: PhoneType | null; phone_whatsapp: boolean } {
+  const normalised = normalisePhone(record.phone, record.country);
+  return normalised ? { ...record, ...normalised } : { ...record, phone_type: null, phone_whatsapp: false };
+}
@@ -0,0 +1,54 @@
+import { getSourceMeta } from '@/lib/sources/meta';
+import type { FieldSources, ProvenanceField } from '@/lib/types';
+
+// ─── FIELD PROVENANCE ──────────────────────────────────────────
+// Each contact field on a lead records which source supplied it, when, and how
+// far to trust it, so reps can judge the data before an outreach call.
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = ['email', 'phone', 'website', 'instagram_url', 'google_rating'];
+
+// Origins that aren't registered lead sources
+const ORIGIN_LABELS: Record<string, string> = {
+  website_crawl: 'Website crawl',
+  enrich_api: 'Website enrichment',
+  csv_import: 'CSV import',
+};
+
+// Structured listings from an API beat scraped directory pages, which beat regex matches
+const SOURCE_CONFIDENCE: Record<string, number> = {
+  google_maps: 0.9,
+  yelp: 0.85,
+  csv_import: 0.5,
+};
+const DEFAULT_SOURCE_CONFIDENCE = 0.7;
+
+export function getProvenanceLabel(source: string): string {
+  return getSourceMeta(source)?.label || ORIGIN_LABELS[source] || source;
+}
+
+export function sourceConfidence(source: string): number {
+  return SOURCE_CONFIDENCE[source] ?? DEFAULT_SOURCE_CONFIDENCE;
+}
+
+// Stamp the given fields with one origin; fields that are empty on the record are skipped
+export function stampFields(
+  record: Partial<Record<ProvenanceField, unknown>>,
+  fields: ProvenanceField[],
+  source: string,
+  confidence: number = sourceConfidence(source),
+  existing: FieldSources = {},
+): FieldSources {
+  const capturedAt = new Date().toISOString();
+  const stamped: FieldSources = { ...existing };
+  for (const field of fields) {
+    const value = record[field];
+    if (value === null || value === undefined || value === '') continue;
+    stamped[field] = { source, captured_at: capturedAt, confidence };
+  }
+  return stamped;
+}
+
+// Stamp every contact field a source returned
+export function stampAllFields(record: Partial<Record<ProvenanceField, unknown>>, source: string, confidence?: number): FieldSources {
+  return stampFields(record, PROVENANCE_FIELDS, source, confidence);
+}
@@ -0,0 +1,96 @@
+import { supabase } from '@/lib/supabase';
+import type { UsageContext } from '@/lib/types';
+import { isSandbox } from '@/lib/sandbox';
+
+// ─── PROVIDER RESPONSE CACHE ───────────────────────────────────
+// Paid provider calls (Outscraper, Apify, Firecrawl, DataForSEO, ...) are cached
+// in `provider_cache`, keyed by provider + normalised request, so rerunning the
+// same search or audit doesn't spend credits twice. Callers can force a refresh.
+
+export type CacheProvider =
+  | 'outscraper'
+  | 'outscraper_reviews'
+  | 'apify'
+  | 'firecrawl'
+  | 'directory_html'
+  | 'pagespeed'
+  | 'dataforseo'
+  | 'nominatim'
+  | 'overpass'
+  | 'bing_places';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long a response stays fresh. Listings change slowly; page speed is re-measured daily.
+const PROVIDER_TTL_MS: Record<CacheProvider, number> = {
+  outscraper: 7 * 24 * HOUR,
+  outscraper_reviews: 3 * 24 * HOUR,
+  apify: 7 * 24 * HOUR,
+  firecrawl: 7 * 24 * HOUR,
+  directory_html: 3 * 24 * HOUR,
+  pagespeed: 24 * HOUR,
+  dataforseo: 7 * 24 * HOUR,
+  nominatim: 30 * 24 * HOUR,
+  overpass: 7 * 24 * HOUR,
+  bing_places: 7 * 24 * HOUR,
+};
+
+export interface CacheOptions {
+  forceRefresh?: boolean;
+  usage?: UsageContext; // Passed through to the usage ledger when a call isn't served from cache
+}
+
+// Stable form of a request: keys sorted, strings trimmed, lower-cased and whitespace-collapsed
+function normalise(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (Array.isArray(value)) return value.map(normalise);
+  if (value && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>).sort().reduce<Record<string, unknown>>((acc, key) => {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) acc[key] = normalise(v);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+async function cacheKey(provider: CacheProvider, request: unknown): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(normalise(request)));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `${provider}:${hex}`;
+}
+
+// Return the cached response for `request`, or call `fetcher` and cache what it returns.
+// `request` must describe the call without secrets (no API keys). Errors are never cached,
+// and a cache that can't be read or written never fails the call.
+export async function withProviderCache<T>(
+  provider: CacheProvider,
+  request: unknown,
+  fetcher: () => Promise<T>,
+  options: CacheOptions = {},
+): Promise<T> {
+  // Sandbox responses are made up; keep them out of the real cache
+  if (isSandbox()) return fetcher();
+  const key = await cacheKey(provider, request);
+
+  if (!options.forceRefresh) {
+    const { data } = await supabase.from('provider_cache')
+      .select('response')
+      .eq('key', key)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+    if (data) return data.response as T;
+  }
+
+  const response = await fetcher();
+  const now = Date.now();
+  await supabase.from('provider_cache').upsert({
+    key,
+    provider,
+    response,
+    created_at: new Date(now).toISOString(),
+    expires_at: new Date(now + PROVIDER_TTL_MS[provider]).toISOString(),
+  });
+  return response;
+}
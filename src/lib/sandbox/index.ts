@@ -0,0 +1,10 @@
+// ─── SANDBOX MODE ──────────────────────────────────────────────
+// With NEXT_PUBLIC_PROSPEX_SANDBOX=true every external provider is answered
+// locally (lib/sandbox/providers) instead of over the network, so demos and local
+// development run end to end without API keys or credits. Supabase is still used.
+
+export { sandboxResponse } from './providers';
+export { isSandbox } from './mode';
+
+// Stands in for any API key that isn't set, so "not configured" checks pass
+export const SANDBOX_KEY = 'sandbox';
@@ -0,0 +1,17 @@
+import type { EmailResolver } from '@/lib/email-verification';
+import { hashString } from './world';
+
+// ─── SANDBOX MAIL LOOKUPS ──────────────────────────────────────
+// Stands in for DNS and SMTP in email verification. Sandbox sites (*.test) mostly
+// have a mail server; a stable few don't, and a few more accept any recipient.
+// Real domains get a mail server, so scraped free-mail addresses verify as valid.
+
+export const sandboxResolver: EmailResolver = {
+  async mailHosts(domain) {
+    if (!domain.endsWith('.test')) return [`mx.${domain}`];
+    return hashString(`mx:${domain}`) % 10 === 0 ? [] : [`mx.${domain}`];
+  },
+  async acceptsAnyRecipient(_host, domain) {
+    return domain.endsWith('.test') && hashString(`catch-all:${domain}`) % 10 < 2;
+  },
+};
@@ -0,0 +1,6 @@
+// Whether sandbox mode is on. Kept apart from the sandbox providers, which client
+// components (the sidebar badge) must not bundle.
+export function isSandbox(): boolean {
+  const flag = process.env.NEXT_PUBLIC_PROSPEX_SANDBOX;
+  return flag === 'true' || flag === '1';
+}
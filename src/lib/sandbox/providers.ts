@@ -0,0 +1,389 @@
+import type { HttpProvider } from '@/lib/http';
+import { addressOf, businessesAround, findPlace, hashString, nameFromWebsite, nearestPlace, seededRandom, type SandboxBusiness, type SandboxPlace } from './world';
+
+// ─── SANDBOX PROVIDER STAND-INS ────────────────────────────────
+// One responder per provider, answering in the shape the real API returns so the
+// calling code runs unchanged. Each provider sees a stable subset of the sandbox
+// world with its own formatting, like the real sources do.
+
+type Responder = (url: URL, body: Record<string, unknown> | unknown[] | null) => unknown;
+
+// The share of businesses a source lists, so "all sources" searches overlap but differ
+function listedOn(source: string, businesses: SandboxBusiness[], share: number): SandboxBusiness[] {
+  return businesses.filter(b => hashString(`${source}|${b.id}`) % 100 < share * 100);
+}
+
+// Outscraper coordinates look like "@51.507200,-0.127600,14z"
+function placeFromCoordinates(value: string): { place: SandboxPlace; spreadKm: number } | null {
+  const match = value.match(/^@(-?[\d.]+),(-?[\d.]+),(\d+)z$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  const widthKm = (40075 * Math.cos((lat * Math.PI) / 180)) / 2 ** Number(match[3]);
+  return { place: { ...nearestPlace(lat, lng), lat, lng }, spreadKm: widthKm / 2 };
+}
+
+// Weekday opening and closing hours, stable per business
+function openingHours(b: SandboxBusiness): { open: number; close: number; saturday: boolean } {
+  const rand = seededRandom(`hours:${b.id}`);
+  return { open: 8 + Math.floor(rand() * 3), close: 17 + Math.floor(rand() * 4), saturday: rand() < 0.6 };
+}
+
+function outscraperPlace(b: SandboxBusiness) {
+  return {
+    name: b.name, place_id: b.id, full_address: addressOf(b), city: b.city, country: b.country,
+    phone: b.phone, site: b.website, email: b.email, social_links: b.instagram ? [b.instagram] : [],
+    rating: b.rating, reviews: b.reviews, latitude: b.lat, longitude: b.lng,
+    google_maps_url: `https://maps.google.com/?cid=${hashString(b.id)}`,
+    working_hours: outscraperHours(b),
+  };
+}
+
+function outscraperHours(b: SandboxBusiness): Record<string, string> {
+  const { open, close, saturday } = openingHours(b);
+  const weekday = `${open}AM-${close - 12}PM`;
+  return {
+    Monday: weekday, Tuesday: weekday, Wednesday: weekday, Thursday: weekday, Friday: weekday,
+    Saturday: saturday ? `${open + 1}AM-4PM` : 'Closed', Sunday: 'Closed',
+  };
+}
+
+const REVIEW_TEXTS = [
+  'Friendly staff and great results, would recommend.',
+  'Professional and welcoming from start to finish.',
+  'Clean facility, though the waiting time was long.',
+  'A bit expensive but worth it.',
+  'Lovely team, booked my next appointment straight away.',
+];
+
+const outscraper: Responder = (url) => {
+  const params = url.searchParams;
+  const query = params.get('query') || '';
+  const limit = Number(params.get('limit') || params.get('reviewsLimit') || 20);
+
+  if (url.pathname.includes('reviews')) {
+    const rand = seededRandom(`reviews:${query.toLowerCase()}`);
+    const reviews = Math.floor(10 + rand() * 300);
+    return {
+      data: [{
+        name: query.split(' ').slice(0, 3).join(' '), rating: Math.round((3.5 + rand() * 1.5) * 10) / 10, reviews,
+        reviews_data: Array.from({ length: Math.min(limit, reviews) }, (_, i) => ({
+          review_rating: Math.max(1, Math.min(5, Math.round(3 + rand() * 2.5))),
+          review_text: REVIEW_TEXTS[i % REVIEW_TEXTS.length],
+          owner_answer: rand() < 0.4 ? 'Thank you for your kind words!' : null,
+        })),
+      }],
+    };
+  }
+
+  const fromCoordinates = placeFromCoordinates(params.get('coordinates') || '');
+  if (fromCoordinates) {
+    const { place, spreadKm } = fromCoordinates;
+    return { data: [businessesAround(query, place, Math.min(limit, 40), spreadKm).map(outscraperPlace)] };
+  }
+  // "niche, location, country"
+  const [niche, ...rest] = query.split(',').map(s => s.trim());
+  const place = findPlace(rest.join(', ') || niche);
+  return { data: [listedOn('outscraper', businessesAround(niche, place, 36), 0.9).slice(0, limit).map(outscraperPlace)] };
+};
+
+const apify: Responder = (url, body) => {
+  const input = (body || {}) as Record<string, unknown>;
+  if (url.pathname.includes('yelp')) {
+    const niche = String((input.searchTerms as string[] | undefined)?.[0] || '');
+    const place = findPlace(String((input.locations as string[] | undefined)?.[0] || ''));
+    return listedOn('yelp', businessesAround(niche, place, 36), 0.5).slice(0, Number(input.maxItems) || 30).map(b => ({
+      name: b.name, address: addressOf(b), phone: b.phone.replace(/^0/, '+44 '), website: b.website,
+      rating: Math.round(b.rating * 2) / 2, reviewCount: Math.round(b.reviews * 0.4), latitude: b.lat, longitude: b.lng,
+    }));
+  }
+  // Fresha runs through the generic web scraper with the search URL as the start page
+  const start = new URL(String((input.startUrls as { url: string }[] | undefined)?.[0]?.url || 'https://www.fresha.com/search'));
+  const place = findPlace(start.searchParams.get('location') || '');
+  const venues = listedOn('fresha', businessesAround(start.searchParams.get('query') || '', place, 36), 0.35).map(b => ({
+    name: b.name, address: addressOf(b), rating: b.rating, reviewCount: Math.round(b.reviews * 0.6),
+  }));
+  return [venues];
+};
+
+function websiteHtml(pageUrl: URL): string {
+  const { name, domain } = nameFromWebsite(pageUrl.toString());
+  const rand = seededRandom(`site:${domain}`);
+  const phone = `020 7946 0${String(hashString(domain) % 1000).padStart(3, '0')}`;
+  const extras = [
+    rand() < 0.5 ? '<a href="https://www.fresha.com/book">Book online</a>' : '',
+    rand() < 0.3 ? '<script src="https://widget.tidio.co/chat.js"></script>' : '',
+    rand() < 0.3 ? '<iframe src="https://www.youtube.com/embed/sandbox"></iframe>' : '',
+    rand() < 0.6 ? '<script src="https://www.googletagmanager.com/gtag/js"></script>' : '',
+    rand() < 0.4 ? '<script type="application/ld+json">{"@type":"LocalBusiness"}</script>' : '',
+    rand() < 0.6 ? `<a href="https://instagram.com/${domain.split('.')[0]}">Instagram</a>` : '',
+    rand() < 0.5 ? `<a href="https://www.facebook.com/${domain.split('.')[0]}">Facebook</a>` : '',
+    rand() < 0.25 ? `<a href="https://www.tiktok.com/@${domain.split('.')[0]}">TikTok</a>` : '',
+    rand() < 0.2 ? `<a href="https://www.youtube.com/@${domain.split('.')[0]}">YouTube</a>` : '',
+  ].join('\n');
+  const meta = rand() < 0.6 ? `<meta name="description" content="${name}: treatments, prices and bookings">` : '';
+  // What the site is built on, for the audit's tech profile (lib/tech)
+  const builtWith = [
+    '<meta name="generator" content="WordPress 6.5"><link rel="stylesheet" href="/wp-content/themes/salon/style.css">',
+    '<meta name="generator" content="Wix.com Website Builder"><link rel="preload" href="https://static.parastorage.com/services/wix-thunderbolt.js">',
+    '<link rel="stylesheet" href="https://static1.squarespace.com/static/sandbox/site.css">',
+    '',
+  ][Math.floor(rand() * 4)];
+  const pixel = rand() < 0.3 ? '<script src="https://connect.facebook.net/en_US/fbevents.js"></script>' : '';
+  return `<html><head><title>${name}</title>${meta}${builtWith}${pixel}</head><body>
+<h1>${name}</h1>
+<p>Welcome to ${name}. We have been looking after our clients for over ten years.</p>
+<footer>Call us on <a href="tel:${phone.replace(/\s/g, '')}">${phone}</a> or email <a href="mailto:hello@${domain}">hello@${domain}</a></footer>
+${extras}
+</body></html>`;
+}
+
+// Cloudflare email protection: a key byte, then each character XORed with it, as hex
+function cloudflareEncode(email: string, key: number): string {
+  return [key, ...Array.from(email).map(c => c.charCodeAt(0) ^ key)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const OWNER_NAMES = ['Sarah Mitchell', 'James Okafor', 'Priya Shah', 'Emma Walsh', 'Tom Lindqvist', 'Aisha Rahman'];
+const MANAGER_NAMES = ['Jo Bennett', 'Marcus Reid', 'Hannah Cole', 'Ravi Patel', 'Lucy Osei'];
+
+// Sandbox sites keep their contact details on /get-in-touch, as plenty of real ones do
+const SITE_PAGES = ['/', '/get-in-touch', '/about-us', '/team', '/treatments'];
+
+function websiteMarkdown(pageUrl: URL): string {
+  const { name, domain } = nameFromWebsite(pageUrl.toString());
+  const phone = `020 7946 0${String(hashString(domain) % 1000).padStart(3, '0')}`;
+  const handle = domain.split('.')[0];
+  const instagram = hashString(`ig:${domain}`) % 10 < 6 ? `\n[Instagram](https://instagram.com/${handle})` : '';
+  const social = [
+    hashString(`fb:${domain}`) % 10 < 5 ? `[Facebook](https://www.facebook.com/${handle})` : '',
+    hashString(`tt:${domain}`) % 10 < 3 ? `[TikTok](https://www.tiktok.com/@${handle})` : '',
+    hashString(`li:${domain}`) % 10 < 2 ? `[LinkedIn](https://www.linkedin.com/company/${handle})` : '',
+  ].filter(Boolean).join(' · ');
+  const path = pageUrl.pathname.replace(/\/$/, '');
+  if (path === '/get-in-touch') {
+    // Half the sites sit behind Cloudflare, which hides the address as it would in the real page
+    const bookings = `bookings@${domain}`;
+    const emailLink = hashString(`cf:${domain}`) % 2 === 0
+      ? `[[email protected]](${pageUrl.origin}/cdn-cgi/l/email-protection#${cloudflareEncode(bookings, hashString(domain) % 256)})`
+      : `[${bookings}](mailto:${bookings})`;
+    return `# Get in touch\n\nWe'd love to hear from you. Call [${phone}](tel:${phone.replace(/\s/g, '')}) or email ${emailLink}.\n\nOr drop in: we're open six days a week.${instagram}\n`;
+  }
+  const owner = OWNER_NAMES[hashString(`owner:${domain}`) % OWNER_NAMES.length];
+  if (path === '/team') {
+    const manager = MANAGER_NAMES[hashString(`manager:${domain}`) % MANAGER_NAMES.length];
+    const managerEmail = `${manager.split(' ')[0].toLowerCase()}@${domain}`;
+    return `# Meet the team\n\n## ${owner}, Owner\n\nFounder and lead practitioner, with fifteen years in the industry. [LinkedIn](https://www.linkedin.com/in/${owner.toLowerCase().replace(' ', '-')})\n\n## ${manager}, Practice Manager\n\nLooks after bookings and the front desk. Email [${managerEmail}](mailto:${managerEmail}) or [hello@${domain}](mailto:hello@${domain}).\n`;
+  }
+  if (path === '/about-us') {
+    return `# About ${name}\n\nWe have been looking after our clients for over ten years, in a relaxed and friendly setting. Questions about a treatment? Email ${owner.split(' ')[0].toLowerCase()} [at] ${domain.replace(/\./g, ' [dot] ')}.\n`;
+  }
+  return `# ${name}\n\nWelcome to ${name}. We have been looking after our clients for over ten years.\n\n## Contact\n\nPhone: ${phone}\nEmail: hello@${domain}${instagram}\n${social ? `\nFollow us: ${social}\n` : ''}`;
+}
+
+// robots.txt and sitemap.xml, fetched directly rather than through Firecrawl
+function websiteFile(url: URL): string {
+  const origin = url.origin;
+  if (url.pathname === '/robots.txt') return `User-agent: *\nDisallow: /admin/\n\nSitemap: ${origin}/sitemap.xml\n`;
+  if (url.pathname === '/sitemap.xml') {
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${SITE_PAGES.map(p => `  <url><loc>${origin}${p}</loc></url>`).join('\n')}\n</urlset>\n`;
+  }
+  return '';
+}
+
+const firecrawl: Responder = (_url, body) => {
+  const input = (body || {}) as { url?: string; formats?: string[] };
+  const pageUrl = new URL(input.url || 'https://www.sandbox.test');
+  const formats = input.formats || ['markdown'];
+  return {
+    success: true,
+    data: {
+      ...(formats.includes('markdown') ? { markdown: websiteMarkdown(pageUrl) } : {}),
+      ...(formats.includes('html') ? { html: websiteHtml(pageUrl) } : {}),
+      ...(formats.includes('links') ? { links: SITE_PAGES.map(p => `${pageUrl.origin}${p}`) } : {}),
+    },
+  };
+};
+
+const pagespeed: Responder = (url) => {
+  const score = 0.25 + (hashString(`${url.searchParams.get('url')}|${url.searchParams.get('strategy')}`) % 70) / 100;
+  return { lighthouseResult: { categories: { performance: { score } } } };
+};
+
+const dataforseo: Responder = (_url, body) => {
+  const task = ((body as unknown[] | null)?.[0] || {}) as { keyword?: string; location_name?: string };
+  const keyword = task.keyword || '';
+  const place = findPlace(task.location_name || '');
+  const competitors = businessesAround(keyword, place, 10);
+  const items = [
+    { type: 'local_pack', domain: null, url: null },
+    ...competitors.map(b => ({ type: 'organic', domain: b.website ? new URL(b.website).hostname : null, url: b.website })),
+    { type: 'people_also_ask', domain: null, url: null },
+  ];
+  return { tasks: [{ result: [{ items, search_information: { search_results_count: 1000 + (hashString(keyword) % 90000) } }] }] };
+};
+
+function chatCompletion(content: string, prompt: string) {
+  const tokens = Math.round((prompt.length + content.length) / 4);
+  return { choices: [{ message: { role: 'assistant', content } }], usage: { total_tokens: tokens } };
+}
+
+const openai: Responder = (_url, body) => {
+  const messages = ((body as Record<string, unknown> | null)?.messages || []) as { role: string; content: string }[];
+  const prompt = messages.map(m => m.content).join('\n');
+  const system = messages.find(m => m.role === 'system')?.content || '';
+  const business = prompt.match(/Business: (.+)/)?.[1] || prompt.match(/email to (.+?):/)?.[1] || 'your business';
+
+  if (/subject line/i.test(system)) return chatCompletion(`A few quick wins for ${business}`, prompt);
+  if (/email/i.test(system)) {
+    return chatCompletion(`Hi,\n\nI came across ${business} and really liked how clearly you present your treatments. While looking at your site I noticed a couple of things that are likely costing you bookings, and both are quick to fix.\n\nWould you be open to a 15-minute call this week? I can walk you through what we found.\n\nBest regards`, prompt);
+  }
+  // AI visibility checks ask a bare question like "best med spa in London"
+  const place = findPlace(prompt);
+  const names = businessesAround('Aesthetics', place, 5).map((b, i) => `${i + 1}. **${b.name}** – well reviewed for its friendly team.`);
+  return chatCompletion(`Here are some popular options in ${place.name}:\n\n${names.join('\n')}`, prompt);
+};
+
+const ghl: Responder = (url, body) => {
+  const id = `sandbox_${hashString(JSON.stringify(body)).toString(16)}`;
+  if (url.pathname.endsWith('/notes')) return { note: { id } };
+  return { contact: { id } };
+};
+
+const nominatim: Responder = (url) => {
+  const place = findPlace(url.searchParams.get('q') || '');
+  const d = 0.12;
+  return [{
+    lat: String(place.lat), lon: String(place.lng), display_name: `${place.name}, ${place.country}`,
+    boundingbox: [place.lat - d, place.lat + d, place.lng - d * 1.6, place.lng + d * 1.6].map(String),
+  }];
+};
+
+// Overpass QL: the niche is the first tag value or name pattern, the area an
+// (around:m,lat,lng) circle or a (s,w,n,e) box
+const overpass: Responder = (_url, body) => {
+  const query = String((body as Record<string, unknown> | null)?.data || '');
+  const niche = query.match(/\[[^\]=~]+[=~]"([^"]+)"/)?.[1]?.replace(/_/g, ' ').replace(/\\/g, '') || '';
+  const around = query.match(/\(around:(\d+),(-?[\d.]+),(-?[\d.]+)\)/);
+  const box = query.match(/\((-?[\d.]+),(-?[\d.]+),(-?[\d.]+),(-?[\d.]+)\)/);
+  let lat = 0, lng = 0, spreadKm = 3;
+  if (around) {
+    [lat, lng, spreadKm] = [Number(around[2]), Number(around[3]), Number(around[1]) / 1000];
+  } else if (box) {
+    const [south, west, north, east] = box.slice(1).map(Number);
+    [lat, lng, spreadKm] = [(south + north) / 2, (west + east) / 2, ((north - south) * 111) / 2];
+  }
+  const place = { ...nearestPlace(lat, lng), lat, lng };
+  const elements = listedOn('openstreetmap', businessesAround(niche, place, 36, spreadKm), 0.5).map(b => {
+    const [number, ...street] = b.street.split(' ');
+    const { open, close, saturday } = openingHours(b);
+    const tags: Record<string, string> = {
+      name: b.name, 'addr:housenumber': number, 'addr:street': street.join(' '), 'addr:city': b.city, 'addr:postcode': b.postcode,
+      opening_hours: `Mo-Fr ${open}:00-${close}:00${saturday ? `; Sa ${open + 1}:00-16:00` : ''}`,
+    };
+    // Volunteer-mapped: contact details are patchy
+    if (hashString(`osm:phone|${b.id}`) % 2 === 0) tags.phone = b.phone;
+    if (b.website && hashString(`osm:web|${b.id}`) % 3 !== 0) tags.website = b.website;
+    return { type: 'node', id: hashString(b.id), lat: b.lat, lon: b.lng, tags };
+  });
+  return { version: 0.6, elements };
+};
+
+const bing: Responder = (url) => {
+  const params = url.searchParams;
+  const circle = params.get('userCircularMapView')?.split(',').map(Number);
+  const box = params.get('userMapView')?.split(',').map(Number);
+  let lat = 0, lng = 0, spreadKm = 3;
+  if (circle?.length === 3) {
+    [lat, lng, spreadKm] = [circle[0], circle[1], circle[2] / 1000];
+  } else if (box?.length === 4) {
+    const [south, west, north, east] = box;
+    [lat, lng, spreadKm] = [(south + north) / 2, (west + east) / 2, ((north - south) * 111) / 2];
+  }
+  const place = { ...nearestPlace(lat, lng), lat, lng };
+  const businesses = listedOn('bing_places', businessesAround(params.get('query') || '', place, 36, spreadKm), 0.7);
+  return {
+    resourceSets: [{
+      estimatedTotal: businesses.length,
+      resources: businesses.slice(0, Number(params.get('maxResults')) || 25).map(b => ({
+        __type: 'LocalBusiness', name: b.name, point: { type: 'Point', coordinates: [b.lat, b.lng] },
+        Address: { addressLine: b.street, locality: b.city, postalCode: b.postcode, countryRegion: b.country, formattedAddress: addressOf(b) },
+        PhoneNumber: b.phone, Website: b.website,
+      })),
+    }],
+  };
+};
+
+// ─── Directory pages ─────────────────────────────────────────
+// Marked up with the classes the real parsers (lib/sources/*) look for
+function yellHtml(url: URL): string {
+  const place = findPlace(url.searchParams.get('location') || '', 'United Kingdom');
+  const cards = listedOn('yell', businessesAround(url.searchParams.get('keywords') || '', place, 36), 0.6).map(b => `
+<article class="businessCapsule">
+  <h2 class="businessCapsule--name"><a href="/biz/${b.slug}">${b.name} Ltd</a></h2>
+  <span class="businessCapsule--address">${addressOf(b)}</span>
+  <span class="business--telephoneNumber">${b.phone}</span>
+  <span class="starRating--average">${b.rating}</span><span class="starRating--total">${Math.round(b.reviews * 0.2)}</span>
+  ${b.website ? `<div class="businessCapsule--ctaBtn"><a href="${b.website}">Website</a></div>` : ''}
+</article>`);
+  return `<html><body>${cards.length ? cards.join('') : '<div class="noResults">No results found</div>'}</body></html>`;
+}
+
+const RATING_WORDS = ['one', 'two', 'three', 'four', 'five'];
+
+function yellowPagesHtml(url: URL): string {
+  const place = findPlace(url.searchParams.get('geo_location_terms') || '', 'United States');
+  const cards = listedOn('yellow_pages', businessesAround(url.searchParams.get('search_terms') || '', place, 36), 0.6).map(b => `
+<div class="result">
+  <a class="business-name" href="/biz/${b.slug}"><span>${b.name}</span></a>
+  <div class="street-address">${b.street}</div><div class="locality">${b.city} ${b.postcode}</div>
+  <div class="phones phone primary">${b.phone}</div>
+  <div class="result-rating ${RATING_WORDS[Math.floor(b.rating) - 1]}${b.rating % 1 >= 0.5 ? ' half' : ''}"></div>
+  <span class="count">(${Math.round(b.reviews * 0.3)})</span>
+  ${b.website ? `<a class="track-visit-website" href="${b.website}">Website</a>` : ''}
+</div>`);
+  return `<html><body><div class="search-results">${cards.length ? cards.join('') : ''}</div>${cards.length ? '' : '<div id="no-results-main">We did not find any business</div>'}</body></html>`;
+}
+
+function barkHtml(url: URL): string {
+  // /en/gb/find/{niche}/{location}/
+  const [, , , , nicheSlug = '', locationSlug = ''] = url.pathname.split('/');
+  const place = findPlace(locationSlug.replace(/-/g, ' '));
+  const cards = listedOn('bark', businessesAround(nicheSlug.replace(/-/g, ' '), place, 36), 0.4).map(b => `
+<div class="seller-card">
+  <h3>${b.name}</h3>
+  <span class="seller-location">${b.city}</span>
+  <a href="tel:${b.phone.replace(/\s/g, '')}">Call</a>
+  <span class="rating-value">${b.rating}</span><span class="review-count">${Math.round(b.reviews * 0.1)} reviews</span>
+</div>`);
+  return `<html><body>${cards.length ? cards.join('') : '<p>No professionals found</p>'}</body></html>`;
+}
+
+function directoryHtml(url: URL): string {
+  if (url.hostname.includes('yell.com')) return yellHtml(url);
+  if (url.hostname.includes('yellowpages.com')) return yellowPagesHtml(url);
+  if (url.hostname.includes('bark.com')) return barkHtml(url);
+  return '<html><body><p>No results found</p></body></html>';
+}
+
+const JSON_RESPONDERS: Record<Exclude<HttpProvider, 'directory' | 'website'>, Responder> = {
+  outscraper, apify, firecrawl, pagespeed, dataforseo, openai, ghl, nominatim, overpass, bing,
+};
+
+// The sandbox stand-in for one provider request
+export function sandboxResponse(provider: HttpProvider, url: string, init: RequestInit): Response {
+  const target = new URL(url);
+  if (provider === 'directory') {
+    return new Response(directoryHtml(target), { status: 200, headers: { 'Content-Type': 'text/html' } });
+  }
+  if (provider === 'website') {
+    const file = websiteFile(target);
+    return new Response(file, { status: file ? 200 : 404, headers: { 'Content-Type': target.pathname.endsWith('.xml') ? 'application/xml' : 'text/plain' } });
+  }
+  let body: Record<string, unknown> | unknown[] | null = null;
+  if (typeof init.body === 'string') {
+    // JSON, or a form-encoded body (Overpass)
+    try { body = JSON.parse(init.body); } catch { body = Object.fromEntries(new URLSearchParams(init.body)); }
+  }
+  const payload = JSON_RESPONDERS[provider](target, body);
+  return new Response(JSON.stringify(payload), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
@@ -0,0 +1,151 @@
+// ─── SANDBOX WORLD ─────────────────────────────────────────────
+// A deterministic fake world for sandbox mode: the same niche and place always
+// produce the same businesses, so every provider stand-in tells a consistent
+// story and results from different sources merge the way real ones do.
+
+export interface SandboxPlace {
+  name: string;
+  country: string;
+  lat: number;
+  lng: number;
+}
+
+export interface SandboxBusiness {
+  id: string;
+  name: string;
+  slug: string;
+  street: string;
+  city: string;
+  postcode: string;
+  country: string;
+  phone: string;
+  website: string | null;
+  email: string | null;
+  instagram: string | null;
+  rating: number;
+  reviews: number;
+  lat: number;
+  lng: number;
+}
+
+const KNOWN_PLACES: SandboxPlace[] = [
+  { name: 'London', country: 'United Kingdom', lat: 51.5072, lng: -0.1276 },
+  { name: 'Manchester', country: 'United Kingdom', lat: 53.4808, lng: -2.2426 },
+  { name: 'Birmingham', country: 'United Kingdom', lat: 52.4862, lng: -1.8904 },
+  { name: 'Leeds', country: 'United Kingdom', lat: 53.8008, lng: -1.5491 },
+  { name: 'Bristol', country: 'United Kingdom', lat: 51.4545, lng: -2.5879 },
+  { name: 'Glasgow', country: 'United Kingdom', lat: 55.8642, lng: -4.2518 },
+  { name: 'Edinburgh', country: 'United Kingdom', lat: 55.9533, lng: -3.1883 },
+  { name: 'New York', country: 'United States', lat: 40.7128, lng: -74.006 },
+  { name: 'Los Angeles', country: 'United States', lat: 34.0522, lng: -118.2437 },
+  { name: 'Miami', country: 'United States', lat: 25.7617, lng: -80.1918 },
+  { name: 'Toronto', country: 'Canada', lat: 43.6532, lng: -79.3832 },
+  { name: 'Sydney', country: 'Australia', lat: -33.8688, lng: 151.2093 },
+  { name: 'Dublin', country: 'Ireland', lat: 53.3498, lng: -6.2603 },
+];
+
+const NAME_PREFIXES = [
+  'Harbour', 'Oak & Ivy', 'Bloom', 'Northside', 'The Mews', 'Willow', 'Radiance', 'Golden Hour',
+  'Serenity', 'Urban', 'Marble', 'Velvet', 'Evergreen', 'Crescent', 'Juniper', 'Halo',
+  'Riverside', 'Kensington', 'Lumen', 'Sage', 'Copper Beech', 'Aurora', 'Foxglove', 'Linden',
+];
+
+const STREETS = ['High Street', 'Market Street', 'Church Road', 'Station Road', 'Park Lane', 'King Street', 'Victoria Road', 'Mill Lane', 'Queen Street', 'Albert Road'];
+
+// FNV-1a: a stable 32-bit hash for seeding
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small seeded PRNG returning floats in [0, 1)
+export function seededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function titleCase(value: string): string {
+  return value.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function slugOf(value: string): string {
+  return value.toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, '');
+}
+
+// A known city, or a stable made-up point in the country for anywhere else
+export function findPlace(query: string, fallbackCountry = 'United Kingdom'): SandboxPlace {
+  const lower = query.toLowerCase();
+  const known = KNOWN_PLACES.find(p => lower.includes(p.name.toLowerCase()));
+  if (known) return known;
+  const rand = seededRandom(`place:${lower}`);
+  const anchor = KNOWN_PLACES.find(p => lower.includes(p.country.toLowerCase())) || KNOWN_PLACES.find(p => p.country === fallbackCountry) || KNOWN_PLACES[0];
+  const name = titleCase(query.split(',')[0].trim()) || anchor.name;
+  return { name, country: anchor.country, lat: anchor.lat + (rand() - 0.5) * 2, lng: anchor.lng + (rand() - 0.5) * 2 };
+}
+
+// The nearest known city to a point, for naming businesses found by coordinates
+export function nearestPlace(lat: number, lng: number): SandboxPlace {
+  return KNOWN_PLACES.reduce((best, p) =>
+    Math.hypot(p.lat - lat, p.lng - lng) < Math.hypot(best.lat - lat, best.lng - lng) ? p : best);
+}
+
+function phoneFor(country: string, rand: () => number): string {
+  const n = String(Math.floor(rand() * 1000)).padStart(3, '0');
+  // Number ranges reserved for fiction, so nothing here can ring a real business
+  if (country === 'United States' || country === 'Canada') return `(212) 555-01${n.slice(0, 2)}`;
+  return `020 7946 0${n}`;
+}
+
+// Businesses for a niche around a point. `spreadKm` is how far they are scattered.
+export function businessesAround(niche: string, place: SandboxPlace, count: number, spreadKm = 3): SandboxBusiness[] {
+  const seed = `${niche.toLowerCase().trim()}|${place.name.toLowerCase()}|${place.lat.toFixed(2)},${place.lng.toFixed(2)}`;
+  const rand = seededRandom(seed);
+  const nicheTitle = titleCase(niche.trim() || 'Studio');
+  const degLat = spreadKm / 111;
+  const degLng = degLat / Math.max(0.2, Math.cos((place.lat * Math.PI) / 180));
+
+  return Array.from({ length: count }, (_, i) => {
+    const prefix = NAME_PREFIXES[(hashString(seed) + i * 7) % NAME_PREFIXES.length];
+    const name = i < NAME_PREFIXES.length ? `${prefix} ${nicheTitle}` : `${prefix} ${nicheTitle} ${place.name}`;
+    const slug = slugOf(`${prefix}${nicheTitle}${i < NAME_PREFIXES.length ? '' : place.name}`);
+    const hasWebsite = rand() < 0.85;
+    const website = hasWebsite ? `https://www.${slug}.test` : null;
+    return {
+      id: `sandbox_${hashString(`${seed}|${i}`).toString(16)}`,
+      name,
+      slug,
+      street: `${1 + Math.floor(rand() * 240)} ${STREETS[Math.floor(rand() * STREETS.length)]}`,
+      city: place.name,
+      postcode: place.country === 'United Kingdom' ? `SW${1 + Math.floor(rand() * 20)} ${1 + Math.floor(rand() * 9)}AB` : String(10000 + Math.floor(rand() * 89999)),
+      country: place.country,
+      phone: phoneFor(place.country, rand),
+      website,
+      email: hasWebsite && rand() < 0.6 ? `hello@${slug}.test` : null,
+      instagram: rand() < 0.5 ? `https://instagram.com/${slug}` : null,
+      rating: Math.round((3.4 + rand() * 1.6) * 10) / 10,
+      reviews: Math.floor(3 + rand() * rand() * 600),
+      lat: place.lat + (rand() - 0.5) * 2 * degLat,
+      lng: place.lng + (rand() - 0.5) * 2 * degLng,
+    };
+  });
+}
+
+export function addressOf(business: SandboxBusiness): string {
+  return `${business.street}, ${business.city} ${business.postcode}, ${business.country}`;
+}
+
+// Business name back from a sandbox website (https://www.harbourdentist.test → "Harbourdentist")
+export function nameFromWebsite(url: string): { name: string; domain: string } {
+  const domain = url.replace(/^https?:\/\//, '').replace(/^www\./, '').split('/')[0];
+  return { name: titleCase(domain.split('.')[0]), domain };
+}
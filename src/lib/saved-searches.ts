@@ -0,0 +1,139 @@
+import { supabase } from '@/lib/supabase';
+import { createScrapeJob } from '@/lib/scrape-jobs';
+import { createMatcher, type MatchableRecord } from '@/lib/entity-resolution';
+import { loadSavedLeads } from '@/lib/lead-matching';
+import { upsertLeads } from '@/lib/lead-bulk';
+import type { SavedSearch, SavedSearchRun, ScrapeJob, ScrapeResult } from '@/lib/types';
+
+// ─── SAVED SEARCHES ────────────────────────────────────────────
+// A saved search reruns on a schedule and keeps only businesses we haven't
+// seen before: not already a lead, and not flagged by an earlier run.
+// Newly opened businesses are the best prospects.
+
+const SCHEDULE_DAYS: Record<SavedSearch['schedule'], number> = { daily: 1, weekly: 7 };
+
+export function nextRunAt(schedule: SavedSearch['schedule'], from: Date = new Date()): string {
+  return new Date(from.getTime() + SCHEDULE_DAYS[schedule] * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function loadPreviouslyFlagged(savedSearchId: string): Promise<ScrapeResult[]> {
+  const { data } = await supabase.from('saved_search_runs')
+    .select('new_businesses')
+    .eq('saved_search_id', savedSearchId)
+    .eq('status', 'complete');
+  return (data || []).flatMap(run => run.new_businesses || []);
+}
+
+async function saveNewLeads(results: ScrapeResult[], country: string, searchId: string | null): Promise<number> {
+  if (results.length === 0) return 0;
+  const outcomes = await upsertLeads({ rows: results, country, search_id: searchId, on_existing: 'skip' });
+  return outcomes.filter(o => o.status === 'inserted').length;
+}
+
+// Start a run: the schedule moves on and a fresh scrape job is queued for the worker
+// (or whoever picks it up first). The run is finished once the job is.
+export async function startSavedSearch(search: SavedSearch): Promise<SavedSearchRun> {
+  const startedAt = new Date();
+  // Move the schedule on first, so an overlapping cron tick doesn't start a second run
+  await supabase.from('saved_searches')
+    .update({ last_run_at: startedAt.toISOString(), next_run_at: nextRunAt(search.schedule, startedAt) })
+    .eq('id', search.id);
+
+  const { data: run, error: runError } = await supabase.from('saved_search_runs')
+    .insert({ saved_search_id: search.id, status: 'running' })
+    .select().single();
+  if (runError || !run) throw new Error(`Could not start saved search run: ${runError?.message || 'no row returned'}`);
+
+  try {
+    const { niche, location, country, source, options } = search;
+    // Always fetch fresh listings: a cached response can't contain newly opened businesses
+    const created = await createScrapeJob({ niche, location, country, source, options: { ...options, forceRefresh: true } });
+    const { data: started } = await supabase.from('saved_search_runs').update({ job_id: created.id }).eq('id', run.id).select().single();
+    return started as SavedSearchRun;
+  } catch (err: unknown) {
+    return failRun(run.id, err instanceof Error ? err.message : 'Saved search failed');
+  }
+}
+
+async function failRun(runId: string, message: string): Promise<SavedSearchRun> {
+  const { data: failed } = await supabase.from('saved_search_runs')
+    .update({ status: 'error', error: message, finished_at: new Date().toISOString() })
+    .eq('id', runId).eq('status', 'running').select().maybeSingle();
+  return failed as SavedSearchRun;
+}
+
+// Diff a finished job's results against what we already know and record the run.
+// null while the job is still going, or if the run was already finished.
+export async function finishSavedSearchRun(jobId: string): Promise<SavedSearchRun | null> {
+  const { data: run } = await supabase.from('saved_search_runs')
+    .select('*').eq('job_id', jobId).eq('status', 'running').maybeSingle();
+  if (!run) return null;
+  const { data } = await supabase.from('scrape_jobs').select('*').eq('id', jobId).maybeSingle();
+  const job = data as ScrapeJob | null;
+  if (job && job.status !== 'complete' && job.status !== 'error') return null;
+  const { data: search } = await supabase.from('saved_searches').select('*').eq('id', run.saved_search_id).maybeSingle();
+  // The search was deleted mid-run; its runs go with it
+  if (!search) return null;
+
+  try {
+    if (!job || job.status === 'error') throw new Error(job?.error || 'Scrape job failed');
+    const [leads, flagged] = await Promise.all([loadSavedLeads(search.country), loadPreviouslyFlagged(search.id)]);
+    const known = createMatcher<MatchableRecord>([...leads, ...flagged]);
+    const newBusinesses = (job.results || []).filter(result => !known.find(result));
+    const savedCount = search.mode === 'save' ? await saveNewLeads(newBusinesses, search.country, job.search_id) : 0;
+
+    // Only the first to finish the run records it; saving above skips existing leads
+    const { data: complete } = await supabase.from('saved_search_runs').update({
+      status: 'complete',
+      results_count: (job.results || []).length,
+      new_count: newBusinesses.length,
+      saved_count: savedCount,
+      new_businesses: newBusinesses,
+      finished_at: new Date().toISOString(),
+    }).eq('id', run.id).eq('status', 'running').select().maybeSingle();
+
+    if (complete && newBusinesses.length > 0) {
+      await supabase.from('activity_log').insert({
+        action_type: 'scrape',
+        description: `Saved search "${search.name}" found ${newBusinesses.length} new businesses${search.mode === 'save' ? ` (${savedCount} saved as leads)` : ''}`,
+      });
+    }
+    return complete as SavedSearchRun | null;
+  } catch (err: unknown) {
+    return failRun(run.id, err instanceof Error ? err.message : 'Saved search failed');
+  }
+}
+
+// Finish every run whose job has completed or failed since, whoever ran it
+export async function finishSavedSearchRuns(): Promise<SavedSearchRun[]> {
+  const { data: running } = await supabase.from('saved_search_runs')
+    .select('job_id').eq('status', 'running').not('job_id', 'is', null);
+  const jobIds = (running || []).map(run => run.job_id as string);
+  if (jobIds.length === 0) return [];
+
+  const { data: jobs, error } = await supabase.from('scrape_jobs').select('id')
+    .in('id', jobIds).in('status', ['complete', 'error']);
+  if (error) throw new Error(`Could not load scrape jobs: ${error.message}`);
+  const finished: SavedSearchRun[] = [];
+  for (const job of jobs || []) {
+    const run = await finishSavedSearchRun(job.id);
+    if (run) finished.push(run);
+  }
+  return finished;
+}
+
+// Start every enabled saved search whose next run is due; the worker runs the jobs
+export async function enqueueDueSavedSearches(): Promise<SavedSearchRun[]> {
+  const { data, error } = await supabase.from('saved_searches')
+    .select('*')
+    .eq('enabled', true)
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true });
+  if (error) throw new Error(`Could not load saved searches: ${error.message}`);
+
+  const runs: SavedSearchRun[] = [];
+  for (const search of (data || []) as SavedSearch[]) {
+    runs.push(await startSavedSearch(search));
+  }
+  return runs;
+}
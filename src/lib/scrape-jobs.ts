@@ -0,0 +1,266 @@
+import { supabase } from '@/lib/supabase';
+import { selectSources } from '@/lib/sources';
+import { getKey } from '@/lib/sources/shared';
+import { enrichLeadsBatch } from '@/lib/enrichment';
+import { geocodeArea, haversineKm, resolveCenter, toKm } from '@/lib/geo';
+import { matchesLocation, parseAddress, type LocationTarget } from '@/lib/address';
+import { withNormalisedPhone } from '@/lib/phone';
+import { verifyInBatches, withVerifiedEmail } from '@/lib/email-verification';
+import { createExclusionMatcher, loadExclusions, partitionExcluded } from '@/lib/exclusions';
+import { resolveEntities } from '@/lib/entity-resolution';
+import { stampAllFields } from '@/lib/provenance';
+import { assignSearchToJobUsage } from '@/lib/usage';
+import type { ExcludedResult, ScrapeJob, ScrapeJobSourceStatus, ScrapeOptions, ScrapeRequest, ScrapeResult } from '@/lib/types';
+
+// ─── SCRAPE JOBS ───────────────────────────────────────────────
+// A search runs as a job row in `scrape_jobs`. The runner writes per-source
+// progress and partial results as each source finishes, so the search page can
+// poll for progress and the job carries on if the browser tab is closed.
+// Jobs are queued, then claimed by whoever runs them: the request that created
+// them (kept alive with waitUntil) or the worker cron (/api/scrape/worker).
+// A tiled search saves a checkpoint after every tile; a run cut off by the function's
+// time limit goes back on the queue and the next worker tick carries on from there.
+
+// The runner touches updated_at while it works. A job that stops advancing lost
+// its runner (the function was frozen or the process died) and is failed.
+const HEARTBEAT_MS = 30 * 1000;
+const STALE_AFTER_MS = 3 * 60 * 1000;
+const UNCLAIMED_AFTER_MS = 15 * 60 * 1000; // Queued, and no runner picked it up
+
+async function updateJob(id: string, patch: Partial<ScrapeJob>): Promise<void> {
+  await supabase.from('scrape_jobs').update({ ...patch, updated_at: new Date().toISOString() }).eq('id', id);
+}
+
+// Radius searches: drop results known to fall outside the circle. Sources that
+// don't return coordinates are kept, since they were already searched near the centre.
+function withinRadius(results: ScrapeResult[], options: ScrapeOptions): ScrapeResult[] {
+  const { center, radius } = options;
+  if (!center || !radius) return results;
+  const radiusKm = toKm(radius, options.radiusUnit || 'mi');
+  return results.filter(r => r.latitude === null || r.longitude === null
+    || haversineKm(center, { lat: r.latitude, lng: r.longitude }) <= radiusKm);
+}
+
+// Place-name searches: geocode the location once so every source's results can be
+// checked against it. Radius searches are filtered by distance instead.
+async function locationTarget(location: string, country: string, options: ScrapeOptions): Promise<LocationTarget | null> {
+  if (options.center && options.radius) return null;
+  // Without an area, matching falls back to postcodes and address text
+  const area = await geocodeArea(`${location}, ${country}`, options).catch(() => null);
+  return { query: location, country, area };
+}
+
+// Structured address and E.164 phone, from whatever the source or a merge left
+function withParsedFields(result: ScrapeResult): ScrapeResult {
+  return withNormalisedPhone({ ...result, address_parts: parseAddress(result.address, result.country) });
+}
+
+// Validate search options from a request body; a radius centre is geocoded here, once
+export async function buildScrapeOptions(raw: Record<string, unknown>, country: string): Promise<ScrapeOptions> {
+  const options: ScrapeOptions = {
+    exhaustive: !!raw.exhaustive,
+    maxResults: raw.maxResults ? Number(raw.maxResults) : undefined,
+    forceRefresh: !!raw.forceRefresh,
+  };
+  const centerInput = typeof raw.center === 'string' ? raw.center.trim() : '';
+  if (!centerInput) return options;
+
+  const radius = Number(raw.radius);
+  if (!Number.isFinite(radius) || radius <= 0) throw new Error('Radius must be a positive number');
+  const center = await resolveCenter(centerInput, country);
+  if (!center) throw new Error(`Could not find "${centerInput}" on the map`);
+  return { ...options, center, centerLabel: centerInput, radius, radiusUnit: raw.radiusUnit === 'km' ? 'km' : 'mi' };
+}
+
+export async function createScrapeJob({ niche, location, country, source, options = {} }: ScrapeRequest): Promise<ScrapeJob> {
+  // Throws on an unknown source or one that doesn't cover the country
+  const providers = selectSources(source, country);
+  const sourceStatus: Record<string, ScrapeJobSourceStatus> = {};
+  providers.forEach(p => { sourceStatus[p.id] = { status: 'pending', count: 0, error: null }; });
+
+  const { data, error } = await supabase.from('scrape_jobs').insert({
+    niche, location, country, source, options,
+    status: 'queued',
+    source_status: sourceStatus,
+    results: [],
+    excluded: [],
+  }).select().single();
+  if (error || !data) throw new Error(`Could not create scrape job: ${error?.message || 'no row returned'}`);
+  return data as ScrapeJob;
+}
+
+export async function runScrapeJob(job: ScrapeJob): Promise<void> {
+  const { id, niche, location, country, source } = job;
+  const options = job.options || {};
+  const sourceStatus = { ...job.source_status };
+  // A resumed job keeps what its finished sources found and skips them
+  const checkpoint = job.checkpoint;
+  let results: ScrapeResult[] = checkpoint ? job.results || [] : [];
+  let excluded: ExcludedResult[] = checkpoint ? job.excluded || [] : [];
+
+  const heartbeat = setInterval(() => { updateJob(id, {}).catch(() => {}); }, HEARTBEAT_MS);
+  try {
+    await updateJob(id, { status: 'running' });
+    const target = await locationTarget(location, country, options);
+    const isExcluded = createExclusionMatcher(await loadExclusions());
+
+    for (const provider of selectSources(source, country)) {
+      if (checkpoint && sourceStatus[provider.id]?.status === 'complete') continue;
+      sourceStatus[provider.id] = { status: 'running', count: 0, error: null };
+      await updateJob(id, { source_status: sourceStatus });
+      try {
+        const r = await provider.scrape({
+          niche, location, country,
+          options: { ...options, usage: { jobId: id } },
+          resume: checkpoint?.source === provider.id ? checkpoint.progress : null,
+          onProgress: progress => updateJob(id, { checkpoint: { source: provider.id, progress, resumed_from: checkpoint?.resumed_from ?? null } }),
+        });
+        const found = withinRadius(Array.isArray(r) ? r : [], options)
+          .map(withParsedFields)
+          .filter(result => !target || matchesLocation(result, target))
+          .map((result, i) => ({ ...result, result_id: `${provider.id}:${i}`, field_sources: stampAllFields(result, provider.id) }));
+        // Merge with what earlier sources found: same business, one result. The merged
+        // address and phone may have come from either record, so parse them again.
+        // Checked after the merge, which can bring in a website or phone that's on a list
+        const split = partitionExcluded(resolveEntities([...results, ...found]).map(withParsedFields), isExcluded);
+        results = split.kept;
+        // A business excluded from an earlier source's results turns up again from later ones
+        const seen = new Set(excluded.map(e => `${e.exclusion_id}|${e.result.business_name}`));
+        excluded = [...excluded, ...split.excluded.filter(e => !seen.has(`${e.exclusion_id}|${e.result.business_name}`))];
+        sourceStatus[provider.id] = { status: 'complete', count: found.length, error: null };
+      } catch (e: unknown) {
+        const msg = e instanceof Error ? e.message : `${provider.id} failed`;
+        sourceStatus[provider.id] = { status: 'error', count: 0, error: msg };
+        if (source !== 'all') throw e;
+      }
+      await updateJob(id, { source_status: sourceStatus, results, excluded, checkpoint: null });
+    }
+
+    // ★ AUTO-ENRICH: Crawl websites to find emails + Instagram + phone + named contacts
+    // Only enriches leads that have a website but are missing email, Instagram or a contact.
+    // Runs in chunks so enriched results show up on the search page as they land.
+    // Website crawls always go through the cache: forceRefresh is about fresh listings.
+    if (getKey('FIRECRAWL_API_KEY') && results.length > 0) {
+      await updateJob(id, { status: 'enriching' });
+      const chunkSize = 6;
+      for (let i = 0; i < results.length; i += chunkSize) {
+        try {
+          const enriched = (await enrichLeadsBatch(results.slice(i, i + chunkSize), { usage: { jobId: id } })).map(report => report.lead);
+          results = [...results.slice(0, i), ...enriched, ...results.slice(i + chunkSize)];
+          await updateJob(id, { results });
+        } catch {
+          // If enrichment fails, keep the un-enriched results for this chunk
+        }
+      }
+    }
+
+    // Verify every email before it can be saved, whichever source or crawl found it.
+    // A big tiled search can take a while, so the job is touched between batches too.
+    if (results.some(r => r.email && !r.email_status)) {
+      let lastBeat = Date.now();
+      results = await verifyInBatches(results, async r => r.email && !r.email_status ? withVerifiedEmail(r) : r, async () => {
+        if (Date.now() - lastBeat < HEARTBEAT_MS) return;
+        lastBeat = Date.now();
+        await updateJob(id, {});
+      });
+      await updateJob(id, { results });
+    }
+
+    const enrichmentStats = {
+      withEmail: results.filter(r => r.email).length,
+      withPhone: results.filter(r => r.phone).length,
+      withInstagram: results.filter(r => r.instagram_url).length,
+      withContacts: results.filter(r => r.contacts?.length).length,
+    };
+
+    const { data: history } = await supabase.from('search_history')
+      .insert({ niche, location, country, source, results_count: results.length })
+      .select('id').single();
+    if (history?.id) await assignSearchToJobUsage(id, history.id);
+
+    await updateJob(id, {
+      status: 'complete',
+      results,
+      source_status: sourceStatus,
+      enrichment_stats: enrichmentStats,
+      search_id: history?.id || null,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Scraping failed';
+    await updateJob(id, { status: 'error', error: message, source_status: sourceStatus, results, excluded, finished_at: new Date().toISOString() });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// Take a queued job for running; null if someone else already has it
+export async function claimScrapeJob(id: string): Promise<ScrapeJob | null> {
+  const { data } = await supabase.from('scrape_jobs')
+    .update({ status: 'running', updated_at: new Date().toISOString() })
+    .eq('id', id).eq('status', 'queued')
+    .select().maybeSingle();
+  return (data as ScrapeJob | null) || null;
+}
+
+export async function runQueuedScrapeJob(id: string): Promise<ScrapeJob | null> {
+  const job = await claimScrapeJob(id);
+  if (job) await runScrapeJob(job);
+  return job;
+}
+
+// The oldest queued job, run to the end; null when the queue is empty
+export async function runNextQueuedScrapeJob(): Promise<ScrapeJob | null> {
+  const { data } = await supabase.from('scrape_jobs').select('id').eq('status', 'queued')
+    .order('created_at', { ascending: true }).limit(5);
+  for (const { id } of data || []) {
+    const job = await runQueuedScrapeJob(id);
+    if (job) return job;
+  }
+  return null;
+}
+
+export function isStaleScrapeJob(job: Pick<ScrapeJob, 'status' | 'updated_at'>, now: number = Date.now()): boolean {
+  const idle = now - new Date(job.updated_at).getTime();
+  if (job.status === 'queued') return idle > UNCLAIMED_AFTER_MS;
+  return (job.status === 'running' || job.status === 'enriching') && idle > STALE_AFTER_MS;
+}
+
+// A running job cut off mid tiled search can carry on, as long as it got further than
+// the last time it was put back on the queue; a tile that never returns fails it instead
+function canResume(job: ScrapeJob): boolean {
+  const checkpoint = job.checkpoint;
+  return job.status === 'running' && !!checkpoint && checkpoint.progress.next_tile > (checkpoint.resumed_from ?? -1);
+}
+
+// Requeue or fail a job that lost its runner. Only if it's still idle, so a late heartbeat wins.
+export async function failStaleScrapeJob(job: ScrapeJob): Promise<ScrapeJob> {
+  if (!isStaleScrapeJob(job)) return job;
+  if (canResume(job)) {
+    const { data } = await supabase.from('scrape_jobs')
+      .update({ status: 'queued', checkpoint: { ...job.checkpoint!, resumed_from: job.checkpoint!.progress.next_tile }, updated_at: new Date().toISOString() })
+      .eq('id', job.id).eq('status', job.status).eq('updated_at', job.updated_at)
+      .select().maybeSingle();
+    return (data as ScrapeJob | null) || job;
+  }
+  const message = job.status === 'queued' ? 'Search was never started' : 'Search stopped responding';
+  const { data } = await supabase.from('scrape_jobs')
+    .update({ status: 'error', error: message, finished_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', job.id).eq('status', job.status).eq('updated_at', job.updated_at)
+    .select().maybeSingle();
+  return (data as ScrapeJob | null) || job;
+}
+
+// Requeue or fail every job that lost its runner; returns the ones failed
+export async function failStaleScrapeJobs(): Promise<ScrapeJob[]> {
+  const cutoff = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  const { data, error } = await supabase.from('scrape_jobs').select('*')
+    .in('status', ['queued', 'running', 'enriching']).lt('updated_at', cutoff);
+  if (error) throw new Error(`Could not load scrape jobs: ${error.message}`);
+  const failed: ScrapeJob[] = [];
+  for (const job of (data || []) as ScrapeJob[]) {
+    const result = await failStaleScrapeJob(job);
+    if (result.status === 'error') failed.push(result);
+  }
+  return failed;
+}
@@ -0,0 +1,86 @@
+import type { SocialPlatform, SocialProfiles } from '@/lib/types';
+
+// ─── SOCIAL PROFILES ───────────────────────────────────────────
+// Links to a business's own social accounts, by platform. Share buttons, embeds,
+// posts and the platforms' own pages ("facebook.com/sharer.php", "instagram.com/p/…")
+// are not profiles and are skipped.
+
+interface PlatformConfig {
+  id: SocialPlatform;
+  label: string;
+  pattern: RegExp; // Group 1 is the profile path
+  reserved: string[]; // Paths that belong to the platform, not an account
+  profileUrl: (path: string) => string;
+}
+
+export const SOCIAL_PLATFORMS: PlatformConfig[] = [
+  {
+    id: 'instagram',
+    label: 'Instagram',
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:www\.)?instagram\.com\/([a-zA-Z0-9_.]{2,30})\/?/gi,
+    reserved: ['p', 'reel', 'reels', 'stories', 'explore', 'accounts', 'about', 'developer', 'legal', 'privacy', 'terms', 'help', 'embed.js'],
+    profileUrl: path => `https://instagram.com/${path}`,
+  },
+  {
+    id: 'facebook',
+    label: 'Facebook',
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:www\.|m\.|[a-z]{2}-[a-z]{2}\.)?(?:facebook|fb)\.com\/(profile\.php\?id=\d+|[a-zA-Z0-9.-]{2,80})\/?/gi,
+    reserved: ['sharer', 'sharer.php', 'share', 'share.php', 'dialog', 'plugins', 'tr', 'login', 'privacy', 'policies', 'help', 'watch', 'photo.php', 'hashtag', 'events', 'groups', 'pages', 'business', 'ads', 'people', 'story.php', 'profile.php'],
+    profileUrl: path => `https://www.facebook.com/${path}`,
+  },
+  {
+    id: 'tiktok',
+    label: 'TikTok',
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:www\.)?tiktok\.com\/(@[a-zA-Z0-9_.]{2,24})\/?/gi,
+    reserved: [],
+    profileUrl: path => `https://www.tiktok.com/${path}`,
+  },
+  {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    // Company pages; personal /in/ profiles belong to contacts (lib/contacts)
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(company\/[a-zA-Z0-9_-]{2,100})\/?/gi,
+    reserved: [],
+    profileUrl: path => `https://www.linkedin.com/${path}`,
+  },
+  {
+    id: 'youtube',
+    label: 'YouTube',
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:www\.|m\.)?youtube\.com\/(@[a-zA-Z0-9_.-]{2,100}|channel\/[a-zA-Z0-9_-]{10,40}|c\/[a-zA-Z0-9_.-]{2,100}|user\/[a-zA-Z0-9_.-]{2,100})\/?/gi,
+    reserved: [],
+    profileUrl: path => `https://www.youtube.com/${path}`,
+  },
+  {
+    id: 'x',
+    label: 'X (Twitter)',
+    pattern: /(?<![\w.-])(?:https?:\/\/)?(?:www\.|mobile\.)?(?:twitter|x)\.com\/([a-zA-Z0-9_]{1,15})(?![\w.])\/?/gi,
+    reserved: ['share', 'intent', 'home', 'search', 'hashtag', 'i', 'privacy', 'tos', 'login', 'signup', 'explore', 'settings'],
+    profileUrl: path => `https://x.com/${path}`,
+  },
+];
+
+export const SOCIAL_PLATFORM_LABELS = Object.fromEntries(SOCIAL_PLATFORMS.map(p => [p.id, p.label])) as Record<SocialPlatform, string>;
+
+export interface SocialLink {
+  key: string; // The same account however it's linked
+  url: string;
+  index: number;
+}
+
+// Profile links to one platform in page text, markdown or HTML
+export function socialLinksIn(text: string, platform: SocialPlatform): SocialLink[] {
+  const config = SOCIAL_PLATFORMS.find(p => p.id === platform)!;
+  return Array.from(text.matchAll(config.pattern))
+    .filter(m => !config.reserved.includes(m[1].toLowerCase()))
+    .map(m => ({ key: m[1].toLowerCase(), url: config.profileUrl(m[1]), index: m.index! }));
+}
+
+// Which platforms a page links to
+export function socialPresence(html: string): Record<SocialPlatform, boolean> {
+  return Object.fromEntries(SOCIAL_PLATFORMS.map(p => [p.id, socialLinksIn(html, p.id).length > 0])) as Record<SocialPlatform, boolean>;
+}
+
+// Profiles found added to the ones already known, which are kept
+export function mergeSocialProfiles(existing: SocialProfiles | null | undefined, found: SocialProfiles): SocialProfiles {
+  return { ...found, ...(existing || {}) };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { bark, parseBarkPage } from '../bark';
+import { fixture, servePages } from './fixtures';
+
+vi.mock('@/lib/http', () => ({ providerFetch: vi.fn() }));
+vi.mock('@/lib/provider-cache', () => ({ withProviderCache: (_provider: string, _request: unknown, fetcher: () => unknown) => fetcher() }));
+
+const PAGE_URL = 'https://www.bark.com/en/gb/find/personal-trainers/manchester/';
+const NEXT_URL = 'https://www.bark.com/en/gb/find/personal-trainers/manchester/?page=2';
+const query = { niche: 'Personal Trainers', location: 'Manchester', country: 'United Kingdom', options: {} };
+
+describe('parseBarkPage', () => {
+  it('extracts every profile card on a results page', () => {
+    const { results, noResults } = parseBarkPage(fixture('bark-page-1.html'), PAGE_URL, 'Manchester', 'United Kingdom');
+    expect(noResults).toBe(false);
+    expect(results.map(r => r.business_name)).toEqual(['Northern Strength Coaching', 'Fit With Priya']);
+    expect(results[0]).toMatchObject({
+      address: 'Ancoats, Manchester',
+      city: 'Manchester',
+      country: 'United Kingdom',
+      phone: '+44 161 496 0011',
+      google_rating: 4.9,
+      google_review_count: 42,
+      source: 'bark',
+    });
+    expect(results[1].phone).toBeNull();
+  });
+
+  it('resolves the next page link against the page URL', () => {
+    expect(parseBarkPage(fixture('bark-page-1.html'), PAGE_URL, 'Manchester', 'United Kingdom').nextUrl).toBe(NEXT_URL);
+    expect(parseBarkPage(fixture('bark-page-2.html'), NEXT_URL, 'Manchester', 'United Kingdom').nextUrl).toBeNull();
+  });
+
+  it('recognises a page with no matches', () => {
+    expect(parseBarkPage(fixture('bark-no-results.html'), PAGE_URL, 'Manchester', 'United Kingdom'))
+      .toEqual({ results: [], nextUrl: null, noResults: true });
+  });
+
+  it('finds nothing, without claiming there were no matches, in a changed layout', () => {
+    expect(parseBarkPage(fixture('bark-changed-layout.html'), PAGE_URL, 'Manchester', 'United Kingdom'))
+      .toEqual({ results: [], nextUrl: null, noResults: false });
+  });
+});
+
+describe('bark.scrape', () => {
+  it('follows pagination across result pages', async () => {
+    const requested = servePages('bark-page-1.html', 'bark-page-2.html');
+    const results = await bark.scrape(query);
+    expect(requested).toEqual([PAGE_URL, NEXT_URL]);
+    expect(results.map(r => r.business_name)).toEqual(['Northern Strength Coaching', 'Fit With Priya', 'Salford PT Studio']);
+  });
+
+  it('returns no results when Bark has no matches', async () => {
+    servePages('bark-no-results.html');
+    await expect(bark.scrape(query)).resolves.toEqual([]);
+  });
+
+  it('throws when the layout has changed', async () => {
+    servePages('bark-changed-layout.html');
+    await expect(bark.scrape(query)).rejects.toThrow(/layout may have changed/);
+  });
+});
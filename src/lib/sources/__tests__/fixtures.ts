@@ -0,0 +1,23 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { vi } from 'vitest';
+import { providerFetch } from '@/lib/http';
+
+// Saved directory result pages, in ../__fixtures__
+export function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '..', '__fixtures__', name), 'utf8');
+}
+
+// Answer the directory's page requests with the named fixtures, in order, and
+// return the URLs that were asked for. Test files mock '@/lib/http' and
+// '@/lib/provider-cache' so nothing goes over the network or to the cache.
+export function servePages(...names: string[]): string[] {
+  const requested: string[] = [];
+  vi.mocked(providerFetch).mockImplementation(async (_provider, url) => {
+    const name = names[requested.length];
+    requested.push(url);
+    if (!name) throw new Error(`No fixture for ${url}`);
+    return new Response(fixture(name));
+  });
+  return requested;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseYellPage, yell } from '../yell';
+import { fixture, servePages } from './fixtures';
+
+vi.mock('@/lib/http', () => ({ providerFetch: vi.fn() }));
+vi.mock('@/lib/provider-cache', () => ({ withProviderCache: (_provider: string, _request: unknown, fetcher: () => unknown) => fetcher() }));
+
+const PAGE_URL = 'https://www.yell.com/ucs/UcsSearchAction.do?keywords=beauty%20salons&location=Leeds';
+const query = { niche: 'beauty salons', location: 'Leeds', country: 'United Kingdom', options: {} };
+
+describe('parseYellPage', () => {
+  it('extracts every listing on a results page', () => {
+    const { results, noResults } = parseYellPage(fixture('yell-page-1.html'), PAGE_URL, 'Leeds');
+    expect(noResults).toBe(false);
+    expect(results.map(r => r.business_name)).toEqual(['Glow Skin Clinic', 'The Beauty Room', 'Serenity Nails & Spa']);
+    expect(results[0]).toMatchObject({
+      address: '12 Park Row, Leeds, LS1 5HD',
+      city: 'Leeds',
+      country: 'United Kingdom',
+      phone: '0113 249 6000',
+      website: 'https://www.glowskinclinic.co.uk/',
+      google_rating: 4.8,
+      google_review_count: 37,
+      source: 'yell',
+    });
+  });
+
+  it('ignores links back to yell.com when looking for the website', () => {
+    const { results } = parseYellPage(fixture('yell-page-1.html'), PAGE_URL, 'Leeds');
+    expect(results[1].website).toBeNull();
+    expect(results[2].website).toBe('https://serenitynailsleeds.com');
+    expect(results[2].google_review_count).toBe(1204);
+  });
+
+  it('resolves the next page link against the page URL', () => {
+    expect(parseYellPage(fixture('yell-page-1.html'), PAGE_URL, 'Leeds').nextUrl)
+      .toBe('https://www.yell.com/ucs/UcsSearchAction.do?keywords=beauty+salons&location=Leeds&pageNum=2');
+    expect(parseYellPage(fixture('yell-page-2.html'), PAGE_URL, 'Leeds').nextUrl).toBeNull();
+  });
+
+  it('recognises a page with no matches', () => {
+    expect(parseYellPage(fixture('yell-no-results.html'), PAGE_URL, 'Leeds')).toEqual({ results: [], nextUrl: null, noResults: true });
+  });
+
+  it('finds nothing, without claiming there were no matches, in a changed layout', () => {
+    expect(parseYellPage(fixture('yell-changed-layout.html'), PAGE_URL, 'Leeds')).toEqual({ results: [], nextUrl: null, noResults: false });
+  });
+});
+
+describe('yell.scrape', () => {
+  it('follows pagination and drops sponsored listings repeated on later pages', async () => {
+    const requested = servePages('yell-page-1.html', 'yell-page-2.html');
+    const results = await yell.scrape(query);
+    expect(requested).toEqual([PAGE_URL, 'https://www.yell.com/ucs/UcsSearchAction.do?keywords=beauty+salons&location=Leeds&pageNum=2']);
+    expect(results.map(r => r.business_name)).toEqual(['Glow Skin Clinic', 'The Beauty Room', 'Serenity Nails & Spa', 'Headingley Hair & Beauty']);
+  });
+
+  it('returns no results when Yell has no matches', async () => {
+    servePages('yell-no-results.html');
+    await expect(yell.scrape(query)).resolves.toEqual([]);
+  });
+
+  it('throws when the layout has changed', async () => {
+    servePages('yell-changed-layout.html');
+    await expect(yell.scrape(query)).rejects.toThrow(/layout may have changed/);
+  });
+});
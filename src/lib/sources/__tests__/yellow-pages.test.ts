@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseYellowPagesPage, yellowPages } from '../yellow-pages';
+import { fixture, servePages } from './fixtures';
+
+vi.mock('@/lib/http', () => ({ providerFetch: vi.fn() }));
+vi.mock('@/lib/provider-cache', () => ({ withProviderCache: (_provider: string, _request: unknown, fetcher: () => unknown) => fetcher() }));
+
+const PAGE_URL = 'https://www.yellowpages.com/search?search_terms=dentists&geo_location_terms=Austin%2C%20TX';
+const NEXT_URL = 'https://www.yellowpages.com/search?search_terms=dentists&geo_location_terms=Austin%2C+TX&page=2';
+const query = { niche: 'dentists', location: 'Austin, TX', country: 'United States', options: {} };
+
+describe('parseYellowPagesPage', () => {
+  it('extracts every listing on a results page', () => {
+    const { results, noResults } = parseYellowPagesPage(fixture('yellow-pages-page-1.html'), PAGE_URL, 'Austin, TX');
+    expect(noResults).toBe(false);
+    expect(results.map(r => r.business_name)).toEqual(['Lakeside Family Dental', 'South Congress Smiles']);
+    expect(results[0]).toMatchObject({
+      address: '1200 Barton Springs Rd, Austin, TX 78704',
+      city: 'Austin, TX',
+      country: 'United States',
+      phone: '(512) 555-0142',
+      website: 'https://www.lakesidefamilydental.com/',
+      google_rating: 4.5,
+      google_review_count: 23,
+      source: 'yellow_pages',
+    });
+    expect(results[1]).toMatchObject({ website: null, google_rating: null, google_review_count: null });
+  });
+
+  it('reads whole-star ratings from the rating classes', () => {
+    const { results } = parseYellowPagesPage(fixture('yellow-pages-page-2.html'), NEXT_URL, 'Austin, TX');
+    expect(results[0]).toMatchObject({ business_name: 'Mueller Dental Studio', google_rating: 5, google_review_count: 8 });
+  });
+
+  it('resolves the next page link against the page URL', () => {
+    expect(parseYellowPagesPage(fixture('yellow-pages-page-1.html'), PAGE_URL, 'Austin, TX').nextUrl).toBe(NEXT_URL);
+    expect(parseYellowPagesPage(fixture('yellow-pages-page-2.html'), NEXT_URL, 'Austin, TX').nextUrl).toBeNull();
+  });
+
+  it('recognises a page with no matches', () => {
+    expect(parseYellowPagesPage(fixture('yellow-pages-no-results.html'), PAGE_URL, 'Austin, TX'))
+      .toEqual({ results: [], nextUrl: null, noResults: true });
+  });
+
+  it('finds nothing, without claiming there were no matches, in a changed layout', () => {
+    expect(parseYellowPagesPage(fixture('yellow-pages-changed-layout.html'), PAGE_URL, 'Austin, TX'))
+      .toEqual({ results: [], nextUrl: null, noResults: false });
+  });
+});
+
+describe('yellowPages.scrape', () => {
+  it('follows pagination across result pages', async () => {
+    const requested = servePages('yellow-pages-page-1.html', 'yellow-pages-page-2.html');
+    const results = await yellowPages.scrape(query);
+    expect(requested).toEqual([PAGE_URL, NEXT_URL]);
+    expect(results.map(r => r.business_name)).toEqual(['Lakeside Family Dental', 'South Congress Smiles', 'Mueller Dental Studio']);
+  });
+
+  it('returns no results when Yellow Pages has no matches', async () => {
+    servePages('yellow-pages-no-results.html');
+    await expect(yellowPages.scrape(query)).resolves.toEqual([]);
+  });
+
+  it('throws when the layout has changed', async () => {
+    servePages('yellow-pages-changed-layout.html');
+    await expect(yellowPages.scrape(query)).rejects.toThrow(/layout may have changed/);
+  });
+});
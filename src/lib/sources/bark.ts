@@ -0,0 +1,50 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { absoluteUrl, outermost, parseHtml, parseNumber, scrapePages, textOf, type ParsedPage } from './html';
+import { slugify } from './shared';
+import { SOURCE_META } from './meta';
+
+// Bark uses slug-based URLs
+function barkSearchUrl(niche: string, location: string, country: string): string {
+  const countryPrefix = country === 'United Kingdom' ? 'gb' : country === 'United States' ? 'us' : country === 'Canada' ? 'ca' : 'gb';
+  return `https://www.bark.com/en/${countryPrefix}/find/${slugify(niche)}/${slugify(location)}/`;
+}
+
+// Parse one Bark.com "find" page
+export function parseBarkPage(html: string, pageUrl: string, location: string, country: string): ParsedPage {
+  const root = parseHtml(html);
+  const results: ScrapeResult[] = [];
+
+  for (const card of outermost(root.querySelectorAll('[class*="ProfileCard"], [class*="profile-card"], .seller-card'))) {
+    const name = textOf(card, 'h2, h3, [class*="name"]');
+    if (!name || name.length <= 2) continue;
+    const tel = card.querySelector('[href^="tel:"]')?.getAttribute('href');
+
+    results.push({
+      business_name: name,
+      address: textOf(card, '[class*="location"], [class*="address"]'),
+      city: location, country,
+      phone: tel ? tel.replace('tel:', '').trim() : null,
+      email: null, website: null, instagram_url: null,
+      google_rating: parseNumber(textOf(card, '[class*="rating-value"], [class*="RatingValue"]')),
+      google_review_count: parseNumber(textOf(card, '[class*="review-count"], [class*="ReviewCount"]')),
+      google_maps_url: null, latitude: null, longitude: null, opening_hours: null, source: 'bark',
+    });
+  }
+
+  const next = root.querySelector('a[rel="next"], .pagination a.next');
+  return {
+    results,
+    nextUrl: absoluteUrl(next?.getAttribute('href'), pageUrl),
+    noResults: /no (professionals|results) found/i.test(root.textContent),
+  };
+}
+
+// ─── BARK.COM ──────────────────────────────────────────────────
+async function scrapeBark({ niche, location, country, options }: SourceQuery): Promise<ScrapeResult[]> {
+  return scrapePages(barkSearchUrl(niche, location, country), 'Bark.com', (html, url) => parseBarkPage(html, url, location, country), options);
+}
+
+export const bark: LeadSource = {
+  ...SOURCE_META.bark,
+  scrape: scrapeBark,
+};
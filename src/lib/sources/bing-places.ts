@@ -0,0 +1,70 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { getKey, searchArea } from './shared';
+import { withProviderCache } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { SOURCE_META } from './meta';
+
+interface BingPlace {
+  name?: string;
+  point?: { coordinates?: [number, number] };
+  Address?: { formattedAddress?: string; addressLine?: string; locality?: string; countryRegion?: string };
+  PhoneNumber?: string;
+  Website?: string;
+}
+
+interface BingLocalSearchResponse {
+  resourceSets?: { resources?: BingPlace[] }[];
+}
+
+function mapPlace(place: BingPlace, location: string, country: string): ScrapeResult {
+  const [lat, lng] = place.point?.coordinates || [];
+  return {
+    business_name: String(place.name || 'Unknown'),
+    address: place.Address?.formattedAddress || place.Address?.addressLine || null,
+    city: place.Address?.locality || location,
+    country: place.Address?.countryRegion || country,
+    phone: place.PhoneNumber || null,
+    email: null,
+    website: place.Website || null,
+    instagram_url: null,
+    google_rating: null,
+    google_review_count: null,
+    google_maps_url: null,
+    latitude: typeof lat === 'number' ? lat : null,
+    longitude: typeof lng === 'number' ? lng : null,
+    opening_hours: null,
+    source: 'bing_places',
+  };
+}
+
+// ─── BING PLACES (Bing Maps Local Search) ──────────────────────
+async function scrapeBingPlaces(query: SourceQuery): Promise<ScrapeResult[]> {
+  const apiKey = getKey('BING_MAPS_KEY');
+  if (!apiKey) throw new Error('Bing Maps key not configured. Add it in Settings.');
+
+  const { niche, location, country, options } = query;
+  const area = await searchArea(query);
+  const { south, west, north, east } = area.bbox;
+  const params = new URLSearchParams({ query: niche, maxResults: '25', key: apiKey });
+  if (area.radiusKm !== null) {
+    params.set('userCircularMapView', `${area.center.lat},${area.center.lng},${Math.round(area.radiusKm * 1000)}`);
+  } else {
+    params.set('userMapView', `${south},${west},${north},${east}`);
+  }
+
+  const request = Object.fromEntries(Array.from(params.entries()).filter(([name]) => name !== 'key'));
+  const data = await withProviderCache('bing_places', request, () =>
+    metered('bing', 'LocalSearch', options.usage,
+      () => providerJson<BingLocalSearchResponse>('bing', `https://dev.virtualearth.net/REST/v1/LocalSearch/?${params.toString()}`)),
+    options);
+
+  return (data.resourceSets?.[0]?.resources || [])
+    .filter(place => place.name)
+    .map(place => mapPlace(place, location, country));
+}
+
+export const bingPlaces: LeadSource = {
+  ...SOURCE_META.bing_places,
+  scrape: scrapeBingPlaces,
+};
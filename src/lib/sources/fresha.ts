@@ -0,0 +1,40 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { getKey } from './shared';
+import { withProviderCache } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { SOURCE_META } from './meta';
+
+// ─── FRESHA (Apify) ────────────────────────────────────────────
+async function scrapeFresha({ niche, location, country, options }: SourceQuery): Promise<ScrapeResult[]> {
+  const apiToken = getKey('APIFY_API_TOKEN');
+  if (!apiToken) return [];
+  const searchUrl = `https://www.fresha.com/search?query=${encodeURIComponent(niche)}&location=${encodeURIComponent(location + ', ' + country)}`;
+  const url = `https://api.apify.com/v2/acts/apify/web-scraper/run-sync-get-dataset-items?token=${apiToken}`;
+  const input = {
+    startUrls: [{ url: searchUrl }],
+    pageFunction: `async function pageFunction(context) { const { $ } = context; const results = []; $('[data-qa="search-result-card"]').each((i, el) => { results.push({ name: $(el).find('[data-qa="venue-card-name"]').text().trim(), address: $(el).find('[data-qa="venue-card-address"]').text().trim(), rating: parseFloat($(el).find('[data-qa="venue-card-rating"]').text()) || null, reviewCount: parseInt($(el).find('[data-qa="venue-card-reviews"]').text()) || null }); }); return results; }`,
+    maxPagesPerCrawl: 1,
+  };
+  const rawData = await withProviderCache('apify', { actor: 'apify/web-scraper', input }, () =>
+    metered('apify', 'apify/web-scraper', options.usage, () => providerJson('apify', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }), items => (Array.isArray(items) ? items.length : 0)), options);
+  const items = Array.isArray(rawData) ? rawData.flat().filter((i: unknown) => i && typeof i === 'object') : [];
+  return items.filter((item: Record<string, unknown>) => item.name).map((item: Record<string, unknown>) => ({
+    business_name: String(item.name),
+    address: item.address ? String(item.address) : null,
+    city: location, country,
+    phone: null, email: null, website: null, instagram_url: null,
+    google_rating: typeof item.rating === 'number' ? item.rating : null,
+    google_review_count: typeof item.reviewCount === 'number' ? item.reviewCount : null,
+    google_maps_url: null, latitude: null, longitude: null, opening_hours: null, source: 'fresha',
+  }));
+}
+
+export const fresha: LeadSource = {
+  ...SOURCE_META.fresha,
+  scrape: scrapeFresha,
+};
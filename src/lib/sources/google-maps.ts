@@ -0,0 +1,156 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { haversineKm, inBoundingBox, tileBoundingBox, toKm, zoomForWidth } from '@/lib/geo';
+import { countryCode, languageFor } from '@/lib/countries';
+import { coordinatesOf, getKey, safeArray, searchArea } from './shared';
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { SOURCE_META } from './meta';
+
+const DEFAULT_MAX_RESULTS = 500;
+const MAX_RESULTS_CEILING = 5000;
+const TILE_KM = 2.5; // Dense high streets still fit under Google's ~120-places-per-view cap at this size
+const TILE_LIMIT = 100;
+
+// Region and language for the country; Google picks its own when the country is unknown
+function localeParams(country: string): Record<string, string> {
+  const region = countryCode(country);
+  return region ? { region, language: languageFor(country) } : { language: 'en' };
+}
+
+async function fetchPlaces(params: Record<string, string>, cache: CacheOptions): Promise<Record<string, unknown>[]> {
+  const apiKey = getKey('OUTSCRAPER_API_KEY');
+  if (!apiKey) throw new Error('Outscraper API key not configured. Add it in Settings.');
+  return withProviderCache('outscraper', params, () =>
+    metered('outscraper', 'maps/search-v3', cache.usage, () => requestPlaces(apiKey, params), places => places.length), cache);
+}
+
+async function requestPlaces(apiKey: string, params: Record<string, string>): Promise<Record<string, unknown>[]> {
+  const search = new URLSearchParams({
+    ...params,
+    async: 'false',
+    dropDuplicates: 'true',
+    extractContacts: 'true', // Extract emails/phones from websites
+    enrichment: 'emails_and_contacts', // Enable email enrichment
+  });
+
+  const url = `https://api.app.outscraper.com/maps/search-v3?${search.toString()}`;
+  const data = await providerJson('outscraper', url, { headers: { 'X-API-KEY': apiKey } });
+  return safeArray(data).filter(item => item.name);
+}
+
+// Outscraper gives hours per day ({ Monday: "9AM-5PM", ... }); flatten to one line
+function workingHoursOf(value: unknown): string | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const days = Object.entries(value as Record<string, unknown>)
+    .map(([day, hours]) => `${day}: ${Array.isArray(hours) ? hours.join(', ') : String(hours)}`);
+  return days.length > 0 ? days.join('; ') : null;
+}
+
+function mapPlace(item: Record<string, unknown>, location: string, country: string): ScrapeResult {
+  // Emails: Outscraper returns in multiple fields depending on plan
+  const emailRaw = item.email || item.email_1 || item.contact_email
+    || (Array.isArray(item.emails) && item.emails.length > 0 ? item.emails[0] : null)
+    || (Array.isArray(item.emails_and_contacts) && item.emails_and_contacts.length > 0 ? item.emails_and_contacts[0] : null);
+  // Phones: multiple possible fields
+  const phoneRaw = item.phone || item.phone_1
+    || (Array.isArray(item.phones) && item.phones.length > 0 ? item.phones[0] : null);
+  // Instagram: check social_links array + direct field
+  const socialLinks = Array.isArray(item.social_links) ? (item.social_links as string[]) : [];
+  const igFromSocial = socialLinks.find(l => typeof l === 'string' && l.includes('instagram.com')) || null;
+  const igFromField = typeof item.instagram === 'string' ? item.instagram : null;
+  const ig = igFromSocial || igFromField;
+  return {
+    business_name: String(item.name || 'Unknown'),
+    address: item.full_address ? String(item.full_address) : (item.address ? String(item.address) : null),
+    city: item.city ? String(item.city) : location,
+    country: item.country ? String(item.country) : country,
+    phone: phoneRaw ? String(phoneRaw) : null,
+    email: typeof emailRaw === 'string' ? emailRaw : null,
+    website: item.site ? String(item.site) : (item.website ? String(item.website) : null),
+    instagram_url: ig ? String(ig) : null,
+    google_rating: typeof item.rating === 'number' ? item.rating : null,
+    google_review_count: typeof item.reviews === 'number' ? item.reviews : (typeof item.reviews_count === 'number' ? item.reviews_count : null),
+    google_maps_url: item.google_maps_url ? String(item.google_maps_url) : null,
+    ...coordinatesOf(item),
+    opening_hours: workingHoursOf(item.working_hours),
+    source: 'google_maps',
+  };
+}
+
+// ─── GOOGLE MAPS (Outscraper) ──────────────────────────────────
+async function scrapeGoogleMaps(query: SourceQuery): Promise<ScrapeResult[]> {
+  if (query.options.exhaustive) return scrapeGoogleMapsTiled(query);
+  const { niche, location, country, options } = query;
+
+  // Radius mode: search around the centre point and filter by distance instead of place name
+  if (options.center && options.radius) {
+    const center = options.center;
+    const radiusKm = toKm(options.radius, options.radiusUnit || 'mi');
+    const items = await fetchPlaces({
+      query: niche,
+      coordinates: `@${center.lat.toFixed(6)},${center.lng.toFixed(6)},${zoomForWidth(radiusKm * 2, center.lat)}z`,
+      limit: '50',
+      ...localeParams(country),
+    }, options);
+    return items
+      .map(item => mapPlace(item, location, country))
+      .filter(r => r.latitude === null || r.longitude === null
+        || haversineKm(center, { lat: r.latitude, lng: r.longitude }) <= radiusKm)
+      .slice(0, 30);
+  }
+
+  // Precise comma-separated format works best for Outscraper location accuracy.
+  // Fetch extra: the job runner drops results outside the location (lib/address).
+  const items = await fetchPlaces({
+    query: `${niche}, ${location}, ${country}`,
+    limit: '50',
+    ...localeParams(country),
+  }, options);
+  return items.map(item => mapPlace(item, location, country));
+}
+
+// Exhaustive mode: Google caps a single search at a few dozen places, so split the
+// location's bounding box into a grid and search each tile until the ceiling is hit.
+// Progress is reported after every tile, and a resumed search starts where it stopped.
+async function scrapeGoogleMapsTiled(query: SourceQuery): Promise<ScrapeResult[]> {
+  const { niche, location, country, options, resume } = query;
+  const maxResults = Math.min(MAX_RESULTS_CEILING, Math.max(1, options.maxResults || DEFAULT_MAX_RESULTS));
+  const { bbox } = await searchArea(query);
+
+  const seen = new Set<string>(resume?.seen);
+  const results: ScrapeResult[] = [...(resume?.results || [])];
+  let fetched = resume?.fetched || 0; // Outscraper bills per returned place, including duplicates across tiles
+
+  const tiles = tileBoundingBox(bbox, TILE_KM);
+  for (let i = resume?.next_tile || 0; i < tiles.length; i++) {
+    if (fetched >= maxResults) break;
+    const tile = tiles[i];
+    const items = await fetchPlaces({
+      query: niche,
+      coordinates: `@${tile.lat.toFixed(6)},${tile.lng.toFixed(6)},${tile.zoom}z`,
+      limit: String(Math.min(TILE_LIMIT, maxResults - fetched)),
+      ...localeParams(country),
+    }, options);
+    fetched += items.length;
+
+    for (const item of items) {
+      const lat = Number(item.latitude);
+      const lng = Number(item.longitude);
+      // Tiles on the edge of the grid pick up places just outside the area
+      if (Number.isFinite(lat) && Number.isFinite(lng) && !inBoundingBox({ lat, lng }, bbox)) continue;
+      const key = String(item.place_id || item.google_id || `${item.name}|${item.full_address || item.address || ''}`).toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(mapPlace(item, location, country));
+    }
+    await query.onProgress?.({ next_tile: i + 1, fetched, seen: Array.from(seen), results });
+  }
+
+  return results;
+}
+
+export const googleMaps: LeadSource = {
+  ...SOURCE_META.google_maps,
+  scrape: scrapeGoogleMaps,
+};
@@ -0,0 +1,97 @@
+import { parse, type HTMLElement } from 'node-html-parser';
+import type { ScrapeResult } from '@/lib/types';
+import { withProviderCache, type CacheOptions } from '@/lib/provider-cache';
+import { providerFetch } from '@/lib/http';
+
+// ─── HTML DIRECTORY HELPERS ────────────────────────────────────
+// Directory sources (Yell, Yellow Pages, Bark) fetch result pages directly and
+// parse them here. Parsers are pure functions of the page HTML so they can be
+// checked against saved pages when a directory changes its markup.
+
+export interface ParsedPage {
+  results: ScrapeResult[];
+  nextUrl: string | null;
+  noResults: boolean; // The directory said there were no matches (vs. markup we couldn't read)
+}
+
+const DEFAULT_MAX_PAGES = 5;
+
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36',
+  Accept: 'text/html,application/xhtml+xml',
+  'Accept-Language': 'en-GB,en;q=0.9',
+};
+
+export function parseHtml(html: string): HTMLElement {
+  return parse(html, { blockTextElements: { script: false, style: false, noscript: false } });
+}
+
+// Trimmed, whitespace-collapsed text of the first match, or null
+export function textOf(root: HTMLElement, selector: string): string | null {
+  const el = root.querySelector(selector);
+  const text = el?.textContent.replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+// Drop matches nested inside another match, so one listing yields one card
+export function outermost(elements: HTMLElement[]): HTMLElement[] {
+  const set = new Set(elements);
+  return elements.filter(el => {
+    for (let parent = el.parentNode; parent; parent = parent.parentNode) {
+      if (set.has(parent)) return false;
+    }
+    return true;
+  });
+}
+
+export function absoluteUrl(href: string | undefined | null, base: string): string | null {
+  if (!href) return null;
+  try { return new URL(href, base).toString(); } catch { return null; }
+}
+
+export function parseNumber(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const match = value.replace(/,/g, '').match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+async function fetchHtml(url: string, cache: CacheOptions): Promise<string> {
+  return withProviderCache('directory_html', { url }, async () => {
+    const response = await providerFetch('directory', url, { headers: BROWSER_HEADERS });
+    return response.text();
+  }, cache);
+}
+
+// Follow "next page" links until the page limit. Throws if the first page has no
+// listings and doesn't say so itself: that means the selectors no longer match.
+export async function scrapePages(
+  firstUrl: string,
+  label: string,
+  parsePage: (html: string, url: string) => ParsedPage,
+  options: CacheOptions & { maxPages?: number } = {},
+): Promise<ScrapeResult[]> {
+  const maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+  const results: ScrapeResult[] = [];
+  const seen = new Set<string>(); // Sponsored listings repeat across pages
+  const visited = new Set<string>();
+  let url: string | null = firstUrl;
+
+  for (let page = 1; url && page <= maxPages && !visited.has(url); page++) {
+    visited.add(url);
+    const parsed = parsePage(await fetchHtml(url, options), url);
+    if (parsed.results.length === 0) {
+      if (page === 1 && !parsed.noResults) {
+        throw new Error(`${label}: no listings found on ${url} — the page layout may have changed`);
+      }
+      break;
+    }
+    for (const result of parsed.results) {
+      const key = `${result.business_name}|${result.phone || ''}`.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(result);
+    }
+    url = parsed.nextUrl;
+  }
+  return results;
+}
@@ -0,0 +1,48 @@
+import type { LeadSource, SourceInfo } from '@/lib/types';
+import { googleMaps } from './google-maps';
+import { yelp } from './yelp';
+import { fresha } from './fresha';
+import { yell } from './yell';
+import { yellowPages } from './yellow-pages';
+import { bark } from './bark';
+import { bingPlaces } from './bing-places';
+import { openStreetMap } from './openstreetmap';
+
+// ─── LEAD SOURCE REGISTRY ──────────────────────────────────────
+// Adding a source: give it an entry in ./meta, create a module exporting a LeadSource
+// built on that entry, and register it here. The scrape handler and search page picker
+// read from this list; source badges read the metadata alone.
+const registry = new Map<string, LeadSource>();
+
+export function registerSource(source: LeadSource): void {
+  if (source.id === 'all') throw new Error(`"all" is reserved and cannot be used as a source id`);
+  registry.set(source.id, source);
+}
+
+[googleMaps, yelp, fresha, yell, yellowPages, bark, bingPlaces, openStreetMap].forEach(registerSource);
+
+export function getSource(id: string): LeadSource | undefined {
+  return registry.get(id);
+}
+
+export function listSources(): LeadSource[] {
+  return Array.from(registry.values());
+}
+
+export function supportsCountry(source: SourceInfo, country: string): boolean {
+  return source.countries === null || source.countries.includes(country);
+}
+
+// Resolve a requested source ('all' or an id) into the providers to run for a country
+export function selectSources(source: string, country: string): LeadSource[] {
+  if (source === 'all') return listSources().filter(s => supportsCountry(s, country));
+  const provider = getSource(source);
+  if (!provider) throw new Error(`Unknown source: ${source}`);
+  if (!supportsCountry(provider, country)) throw new Error(`${provider.label} does not cover ${country}`);
+  return [provider];
+}
+
+// Strip the scrape function so source metadata can be sent to the browser
+export function toSourceInfo({ id, label, color, requiredKeys, countries }: SourceInfo): SourceInfo {
+  return { id, label, color, requiredKeys, countries };
+}
@@ -0,0 +1,72 @@
+import type { SourceInfo } from '@/lib/types';
+
+// ─── LEAD SOURCE METADATA ──────────────────────────────────────
+// Id, label, badge colour, keys and coverage for each source, kept apart from the
+// provider modules so client pages can show source badges and pickers without
+// bundling the scrapers. Each provider module spreads its entry into its LeadSource.
+export const SOURCE_META = {
+  google_maps: {
+    id: 'google_maps',
+    label: 'Google Maps',
+    color: 'bg-blue-500/20 text-blue-400 border-blue-500/40',
+    requiredKeys: ['OUTSCRAPER_API_KEY'],
+    countries: null,
+  },
+  yelp: {
+    id: 'yelp',
+    label: 'Yelp',
+    color: 'bg-red-500/20 text-red-400 border-red-500/40',
+    requiredKeys: ['APIFY_API_TOKEN'],
+    countries: null,
+  },
+  fresha: {
+    id: 'fresha',
+    label: 'Fresha',
+    color: 'bg-green-500/20 text-green-400 border-green-500/40',
+    requiredKeys: ['APIFY_API_TOKEN'],
+    countries: null,
+  },
+  yell: {
+    id: 'yell',
+    label: 'Yell.com',
+    color: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40',
+    requiredKeys: [],
+    countries: ['United Kingdom'],
+  },
+  yellow_pages: {
+    id: 'yellow_pages',
+    label: 'Yellow Pages',
+    color: 'bg-amber-500/20 text-amber-400 border-amber-500/40',
+    requiredKeys: [],
+    countries: ['United States'],
+  },
+  bark: {
+    id: 'bark',
+    label: 'Bark.com',
+    color: 'bg-purple-500/20 text-purple-400 border-purple-500/40',
+    requiredKeys: [],
+    countries: ['United Kingdom', 'United States', 'Canada'],
+  },
+  bing_places: {
+    id: 'bing_places',
+    label: 'Bing Places',
+    color: 'bg-teal-500/20 text-teal-400 border-teal-500/40',
+    requiredKeys: ['BING_MAPS_KEY'],
+    countries: null,
+  },
+  openstreetmap: {
+    id: 'openstreetmap',
+    label: 'OpenStreetMap',
+    color: 'bg-lime-500/20 text-lime-400 border-lime-500/40',
+    requiredKeys: [],
+    countries: null,
+  },
+} satisfies Record<string, SourceInfo>;
+
+export function getSourceMeta(id: string): SourceInfo | undefined {
+  return (SOURCE_META as Record<string, SourceInfo>)[id];
+}
+
+export function listSourceMeta(): SourceInfo[] {
+  return Object.values(SOURCE_META);
+}
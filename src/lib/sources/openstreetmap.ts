@@ -0,0 +1,137 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { searchArea } from './shared';
+import { withProviderCache } from '@/lib/provider-cache';
+import { providerJson } from '@/lib/http';
+import { SOURCE_META } from './meta';
+
+const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+const MAX_RESULTS = 200;
+
+// Niche keywords → OpenStreetMap tags. Anything unmatched falls back to a name search.
+const NICHE_TAGS: [RegExp, string[]][] = [
+  [/dentist|dental|orthodont/, ['amenity=dentist']],
+  [/barber/, ['shop=hairdresser', 'shop=barber']],
+  [/hair|salon/, ['shop=hairdresser']],
+  [/beauty|nail|lash|brow|aesthetic/, ['shop=beauty']],
+  [/spa|massage/, ['leisure=spa', 'shop=massage']],
+  [/gym|fitness|personal trainer/, ['leisure=fitness_centre']],
+  [/yoga|pilates/, ['leisure=fitness_centre', 'sport=yoga']],
+  [/restaurant/, ['amenity=restaurant']],
+  [/cafe|coffee/, ['amenity=cafe']],
+  [/\bbar\b|\bpub/, ['amenity=bar', 'amenity=pub']],
+  [/plumb/, ['craft=plumber']],
+  [/electrician/, ['craft=electrician']],
+  [/vet/, ['amenity=veterinary']],
+  [/physio/, ['healthcare=physiotherapist']],
+  [/chiropract/, ['healthcare=chiropractor']],
+  [/optician|optometr/, ['shop=optician']],
+  [/pharmac|chemist/, ['amenity=pharmacy']],
+  [/lawyer|solicitor|attorney/, ['office=lawyer']],
+  [/accountant/, ['office=accountant']],
+  [/estate agent|realtor|real estate/, ['office=estate_agent']],
+  [/florist/, ['shop=florist']],
+  [/bakery|baker/, ['shop=bakery']],
+  [/tattoo/, ['shop=tattoo']],
+  [/car repair|mechanic|garage/, ['shop=car_repair']],
+];
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// One Overpass filter per tag, e.g. ["amenity"="dentist"]; or a case-insensitive name match
+function nicheFilters(niche: string): string[] {
+  const lower = niche.toLowerCase();
+  const match = NICHE_TAGS.find(([pattern]) => pattern.test(lower));
+  if (match) {
+    return match[1].map(tag => {
+      const [key, value] = tag.split('=');
+      return `[${quote(key)}=${quote(value)}]`;
+    });
+  }
+  const escaped = niche.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return [`["name"~${quote(escaped)},i]`];
+}
+
+function tag(tags: Record<string, string>, ...keys: string[]): string | null {
+  for (const key of keys) if (tags[key]) return tags[key];
+  return null;
+}
+
+function addressOf(tags: Record<string, string>): string | null {
+  if (tags['addr:full']) return tags['addr:full'];
+  const street = [tags['addr:housenumber'], tags['addr:street']].filter(Boolean).join(' ');
+  const parts = [street, tags['addr:city'], tags['addr:postcode']].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function instagramOf(tags: Record<string, string>): string | null {
+  const value = tag(tags, 'contact:instagram', 'instagram');
+  if (!value) return null;
+  return /^https?:\/\//.test(value) ? value : `https://instagram.com/${value.replace(/^@/, '')}`;
+}
+
+interface OverpassElement {
+  type: 'node' | 'way' | 'relation';
+  id: number;
+  lat?: number;
+  lon?: number;
+  center?: { lat: number; lon: number };
+  tags?: Record<string, string>;
+}
+
+function mapElement(element: OverpassElement, location: string, country: string): ScrapeResult | null {
+  const tags = element.tags || {};
+  if (!tags.name) return null;
+  // Ways and relations come back with a computed centre instead of a point
+  const lat = element.lat ?? element.center?.lat ?? null;
+  const lng = element.lon ?? element.center?.lon ?? null;
+  const website = tag(tags, 'website', 'contact:website', 'url');
+  return {
+    business_name: tags.name,
+    address: addressOf(tags),
+    city: tags['addr:city'] || location,
+    country,
+    phone: tag(tags, 'phone', 'contact:phone', 'contact:mobile'),
+    email: tag(tags, 'email', 'contact:email'),
+    website: website && !/^https?:\/\//.test(website) ? `https://${website}` : website,
+    instagram_url: instagramOf(tags),
+    google_rating: null,
+    google_review_count: null,
+    google_maps_url: null,
+    latitude: lat,
+    longitude: lng,
+    opening_hours: tags.opening_hours || null,
+    source: 'openstreetmap',
+  };
+}
+
+// ─── OPENSTREETMAP (Overpass API) ──────────────────────────────
+// Free and keyless. Coverage varies by area, but what's mapped often includes
+// opening hours and contact details that listings sites leave out.
+async function scrapeOpenStreetMap(query: SourceQuery): Promise<ScrapeResult[]> {
+  const { niche, location, country, options } = query;
+  const area = await searchArea(query);
+  const { south, west, north, east } = area.bbox;
+  const scope = area.radiusKm !== null
+    ? `(around:${Math.round(area.radiusKm * 1000)},${area.center.lat},${area.center.lng})`
+    : `(${south},${west},${north},${east})`;
+  const statements = nicheFilters(niche).map(filter => `nwr${filter}${scope};`).join('');
+  const data = `[out:json][timeout:60];(${statements});out center tags ${MAX_RESULTS};`;
+
+  const response = await withProviderCache('overpass', { data }, () =>
+    providerJson<{ elements?: OverpassElement[] }>('overpass', OVERPASS_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ data }).toString(),
+    }), options);
+
+  return (response.elements || [])
+    .map(element => mapElement(element, location, country))
+    .filter((result): result is ScrapeResult => result !== null);
+}
+
+export const openStreetMap: LeadSource = {
+  ...SOURCE_META.openstreetmap,
+  scrape: scrapeOpenStreetMap,
+};
@@ -0,0 +1,57 @@
+import { isSandbox, SANDBOX_KEY } from '@/lib/sandbox';
+import { boundingBoxAround, geocodeArea, toKm, type BoundingBox, type LatLng } from '@/lib/geo';
+import type { SourceQuery } from '@/lib/types';
+
+export function getKey(envKey: string): string { return process.env[envKey] || (isSandbox() ? SANDBOX_KEY : ''); }
+
+// Safely extract array from various API response shapes
+export function safeArray(data: unknown): Record<string, unknown>[] {
+  if (!data) return [];
+  if (Array.isArray(data)) {
+    if (data.length > 0 && Array.isArray(data[0])) {
+      return (data[0] as unknown[]).filter(
+        (item): item is Record<string, unknown> => item !== null && typeof item === 'object' && !Array.isArray(item)
+      );
+    }
+    return data.filter(
+      (item): item is Record<string, unknown> => item !== null && typeof item === 'object' && !Array.isArray(item)
+    );
+  }
+  if (typeof data === 'object') {
+    const obj = data as Record<string, unknown>;
+    if (Array.isArray(obj.data)) return safeArray(obj.data);
+    if (Array.isArray(obj.results)) return safeArray(obj.results);
+  }
+  return [];
+}
+
+// Pull coordinates out of the shapes providers use (latitude/longitude, lat/lng, coordinates: {...})
+export function coordinatesOf(item: Record<string, unknown>): { latitude: number | null; longitude: number | null } {
+  const nested = item.coordinates && typeof item.coordinates === 'object' ? item.coordinates as Record<string, unknown> : {};
+  const lat = Number(item.latitude ?? item.lat ?? nested.latitude ?? nested.lat);
+  const lng = Number(item.longitude ?? item.lng ?? item.lon ?? nested.longitude ?? nested.lng ?? nested.lon);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || (lat === 0 && lng === 0)) return { latitude: null, longitude: null };
+  return { latitude: lat, longitude: lng };
+}
+
+export function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+}
+
+// Where an area-based source should look: the radius circle in radius mode,
+// otherwise the geocoded location's bounding box
+export interface SearchArea {
+  center: LatLng;
+  radiusKm: number | null;
+  bbox: BoundingBox;
+}
+
+export async function searchArea({ location, country, options }: SourceQuery): Promise<SearchArea> {
+  if (options.center && options.radius) {
+    const radiusKm = toKm(options.radius, options.radiusUnit || 'mi');
+    return { center: options.center, radiusKm, bbox: boundingBoxAround(options.center, radiusKm) };
+  }
+  const area = await geocodeArea(`${location}, ${country}`, options);
+  if (!area) throw new Error(`Could not find "${location}" on the map`);
+  return { center: { lat: area.lat, lng: area.lng }, radiusKm: null, bbox: area.bbox };
+}
@@ -0,0 +1,50 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { absoluteUrl, outermost, parseHtml, parseNumber, scrapePages, textOf, type ParsedPage } from './html';
+import { SOURCE_META } from './meta';
+
+function yellSearchUrl(niche: string, location: string): string {
+  return `https://www.yell.com/ucs/UcsSearchAction.do?keywords=${encodeURIComponent(niche)}&location=${encodeURIComponent(location)}`;
+}
+
+// Parse one Yell.com results page
+export function parseYellPage(html: string, pageUrl: string, location: string): ParsedPage {
+  const root = parseHtml(html);
+  const results: ScrapeResult[] = [];
+
+  for (const capsule of outermost(root.querySelectorAll('.businessCapsule--mainRow, article.businessCapsule'))) {
+    const name = textOf(capsule, '.businessCapsule--name a, .businessCapsule--name, [itemprop="name"]');
+    if (!name) continue;
+    // The website CTA is the only outbound link; everything else points back at yell.com
+    const websiteHref = capsule.querySelectorAll('.businessCapsule--ctaBtn a[href], a.businessCapsule--ctaItem[href], a[itemprop="url"]')
+      .map(a => a.getAttribute('href'))
+      .find(href => href && /^https?:\/\//.test(href) && !href.includes('yell.com'));
+    const address = textOf(capsule, '.businessCapsule--address, [itemprop="address"]');
+    const rating = parseNumber(textOf(capsule, '.stars--rating, .starRating--average'));
+    const reviews = parseNumber(textOf(capsule, '.stars--count, .starRating--total'));
+
+    results.push({
+      business_name: name, address, city: location, country: 'United Kingdom',
+      phone: textOf(capsule, '.businessCapsule--phone a, .business--telephoneNumber, [itemprop="telephone"]'),
+      email: null, website: websiteHref || null, instagram_url: null,
+      google_rating: rating !== null && rating <= 5 ? rating : null,
+      google_review_count: reviews, google_maps_url: null, latitude: null, longitude: null, opening_hours: null, source: 'yell',
+    });
+  }
+
+  const next = root.querySelector('a[rel="next"], .pagination--next a, a.pagination--next');
+  return {
+    results,
+    nextUrl: absoluteUrl(next?.getAttribute('href'), pageUrl),
+    noResults: !!root.querySelector('.noResults, .searchNoResults') || /no results found|couldn't find any/i.test(root.textContent),
+  };
+}
+
+// ─── YELL.COM (UK) ─────────────────────────────────────────────
+async function scrapeYell({ niche, location, options }: SourceQuery): Promise<ScrapeResult[]> {
+  return scrapePages(yellSearchUrl(niche, location), 'Yell.com', (html, url) => parseYellPage(html, url, location), options);
+}
+
+export const yell: LeadSource = {
+  ...SOURCE_META.yell,
+  scrape: scrapeYell,
+};
@@ -0,0 +1,61 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { absoluteUrl, outermost, parseHtml, parseNumber, scrapePages, textOf, type ParsedPage } from './html';
+import { SOURCE_META } from './meta';
+
+function yellowPagesSearchUrl(niche: string, location: string): string {
+  return `https://www.yellowpages.com/search?search_terms=${encodeURIComponent(niche)}&geo_location_terms=${encodeURIComponent(location)}`;
+}
+
+// Ratings are rendered as star classes: <div class="result-rating four half">
+const RATING_WORDS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+function ratingFromClasses(className: string | undefined): number | null {
+  if (!className) return null;
+  const classes = className.split(/\s+/);
+  const whole = classes.map(c => RATING_WORDS[c]).find(n => n !== undefined);
+  if (whole === undefined) return null;
+  return classes.includes('half') ? whole + 0.5 : whole;
+}
+
+// Parse one Yellow Pages results page
+export function parseYellowPagesPage(html: string, pageUrl: string, location: string): ParsedPage {
+  const root = parseHtml(html);
+  const results: ScrapeResult[] = [];
+
+  for (const card of outermost(root.querySelectorAll('.search-results .result, .result'))) {
+    const name = textOf(card, 'a.business-name span, .business-name a, a.business-name');
+    if (!name) continue;
+    const street = textOf(card, '.street-address');
+    const locality = textOf(card, '.locality');
+
+    results.push({
+      business_name: name,
+      address: [street, locality].filter(Boolean).join(', ') || textOf(card, '.adr'),
+      city: location, country: 'United States',
+      phone: textOf(card, '.phones.phone.primary, .phones'),
+      email: null,
+      website: absoluteUrl(card.querySelector('a.track-visit-website')?.getAttribute('href'), pageUrl),
+      instagram_url: null,
+      google_rating: ratingFromClasses(card.querySelector('.result-rating')?.getAttribute('class')),
+      google_review_count: parseNumber(textOf(card, '.ratings .count, .result-rating + .count')),
+      google_maps_url: null, latitude: null, longitude: null, opening_hours: null, source: 'yellow_pages',
+    });
+  }
+
+  const next = root.querySelector('.pagination a.next, a[rel="next"]');
+  return {
+    results,
+    nextUrl: absoluteUrl(next?.getAttribute('href'), pageUrl),
+    noResults: !!root.querySelector('#no-results-main, .no-results') || /we did not find any business/i.test(root.textContent),
+  };
+}
+
+// ─── YELLOW PAGES (US) ─────────────────────────────────────────
+async function scrapeYellowPages({ niche, location, options }: SourceQuery): Promise<ScrapeResult[]> {
+  return scrapePages(yellowPagesSearchUrl(niche, location), 'Yellow Pages', (html, url) => parseYellowPagesPage(html, url, location), options);
+}
+
+export const yellowPages: LeadSource = {
+  ...SOURCE_META.yellow_pages,
+  scrape: scrapeYellowPages,
+};
@@ -0,0 +1,48 @@
+import type { LeadSource, ScrapeResult, SourceQuery } from '@/lib/types';
+import { coordinatesOf, getKey } from './shared';
+import { withProviderCache } from '@/lib/provider-cache';
+import { metered } from '@/lib/usage';
+import { providerJson } from '@/lib/http';
+import { SOURCE_META } from './meta';
+
+// ─── YELP (Apify) ──────────────────────────────────────────────
+async function scrapeYelp({ niche, location, country, options }: SourceQuery): Promise<ScrapeResult[]> {
+  const apiToken = getKey('APIFY_API_TOKEN');
+  if (!apiToken) throw new Error('Apify API token not configured. Add it in Settings.');
+
+  const url = `https://api.apify.com/v2/acts/yin/yelp-scraper/run-sync-get-dataset-items?token=${apiToken}`;
+  const input = {
+    searchTerms: [niche],
+    locations: [`${location}, ${country}`],
+    maxItems: 30,
+  };
+  const rawData = await withProviderCache('apify', { actor: 'yin/yelp-scraper', input }, () =>
+    metered('apify', 'yin/yelp-scraper', options.usage, () => providerJson('apify', url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    }), items => (Array.isArray(items) ? items.length : 0)), options);
+  const items = Array.isArray(rawData) ? rawData : [];
+
+  return items.map((item: Record<string, unknown>) => ({
+    business_name: String(item.name || item.bizName || 'Unknown'),
+    address: item.address ? String(item.address) : (item.fullAddress ? String(item.fullAddress) : null),
+    city: location,
+    country,
+    phone: item.phone ? String(item.phone) : null,
+    email: item.email ? String(item.email) : null,
+    website: item.website ? String(item.website) : (item.bizUrl ? String(item.bizUrl) : null),
+    instagram_url: null,
+    google_rating: typeof item.rating === 'number' ? item.rating : null,
+    google_review_count: typeof item.reviewCount === 'number' ? item.reviewCount : null,
+    google_maps_url: null,
+    ...coordinatesOf(item),
+    opening_hours: null,
+    source: 'yelp',
+  }));
+}
+
+export const yelp: LeadSource = {
+  ...SOURCE_META.yelp,
+  scrape: scrapeYelp,
+};
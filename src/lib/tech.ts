@@ -0,0 +1,190 @@
+import type { TechCategory, TechProfile } from '@/lib/types';
+
+// ─── TECHNOLOGY FINGERPRINTS ───────────────────────────────────
+// What a site is built and run on, read from its HTML: asset hosts, script URLs,
+// generator tags, the globals each tool leaves behind and the markup it adds. A Wix
+// site gets a different pitch from a custom WordPress build, and a salon already on
+// Fresha doesn't need selling online booking.
+
+export const TECH_CATEGORIES: { id: TechCategory; label: string }[] = [
+  { id: 'cms', label: 'CMS / site builder' },
+  { id: 'hosting', label: 'Hosting / CDN' },
+  { id: 'booking', label: 'Booking' },
+  { id: 'ecommerce', label: 'E-commerce' },
+  { id: 'chat', label: 'Chat widget' },
+  { id: 'analytics', label: 'Analytics / tag manager' },
+  { id: 'pixels', label: 'Marketing pixels' },
+];
+
+// Where a technology shows itself. Nothing is matched against the page's text, and links
+// only count where they lead into the tool: a "Book now" button to the salon's Fresha page
+// or a click-to-chat link, not a blog post about Hostinger or a link to fresha.com.
+interface Technology {
+  name: string;
+  category: TechCategory;
+  assets?: RegExp; // Script, stylesheet, iframe and image URLs, and inline scripts
+  generator?: RegExp; // <meta name="generator"> content
+  markup?: RegExp; // Attribute names, class, id and data-* values, and HTML comments
+  links?: RegExp; // Link hrefs: a business's booking page or chat on the platform
+}
+
+export const TECHNOLOGIES: Technology[] = [
+  // CMS and site builders
+  { name: 'WordPress', category: 'cms', assets: /\/wp-content\/|\/wp-includes\//i, generator: /wordpress/i },
+  { name: 'Wix', category: 'cms', assets: /static\.wixstatic\.com|static\.parastorage\.com/i, generator: /wix\.com/i },
+  { name: 'Squarespace', category: 'cms', assets: /static1\.squarespace\.com|images\.squarespace-cdn\.com/i, markup: /this is squarespace/i },
+  { name: 'Webflow', category: 'cms', assets: /website-files\.com\//i, markup: /data-wf-page|data-wf-site/i },
+  { name: 'Shopify', category: 'cms', assets: /cdn\.shopify\.com|Shopify\.theme/i },
+  { name: 'GoDaddy Website Builder', category: 'cms', assets: /img1\.wsimg\.com/i, generator: /godaddy|starfield/i },
+  { name: 'Duda', category: 'cms', assets: /irp\.cdn-website\.com|multiscreensite\.com/i },
+  { name: 'Weebly', category: 'cms', assets: /editmysite\.com|weebly\.com\/weebly/i },
+  { name: 'Framer', category: 'cms', assets: /framerusercontent\.com/i, generator: /framer/i },
+  { name: 'Jimdo', category: 'cms', assets: /jimdo(?:cdn|static)?\.com/i },
+  { name: 'Joomla', category: 'cms', assets: /\/media\/jui\//i, generator: /joomla/i },
+  { name: 'Drupal', category: 'cms', assets: /\/sites\/default\/files\//i, generator: /drupal/i, markup: /drupal-settings-json/i },
+  { name: 'Ghost', category: 'cms', generator: /ghost/i },
+
+  // Hosting and CDNs
+  { name: 'Cloudflare', category: 'hosting', assets: /\/cdn-cgi\/|static\.cloudflareinsights\.com/i },
+  { name: 'WP Engine', category: 'hosting', assets: /wpengine(?:powered)?\.com/i },
+  { name: 'Kinsta', category: 'hosting', assets: /kinsta(?:cdn)?\.(?:com|cloud)/i },
+  { name: 'SiteGround', category: 'hosting', assets: /\/sg-cachepress\/|sgvps\.net/i },
+  { name: 'GoDaddy', category: 'hosting', assets: /secureserver\.net/i },
+  { name: 'Hostinger', category: 'hosting', assets: /hstgr\.(?:io|cloud)/i },
+  { name: 'Netlify', category: 'hosting', assets: /\.netlify\.app|\/\.netlify\//i },
+  { name: 'Vercel', category: 'hosting', assets: /\.vercel\.app|\/_vercel\//i },
+  { name: 'Amazon CloudFront', category: 'hosting', assets: /[a-z0-9]+\.cloudfront\.net/i },
+  { name: 'Fastly', category: 'hosting', assets: /\.fastly(?:lb)?\.net/i },
+  { name: 'Akamai', category: 'hosting', assets: /akamai(?:hd|zed)\.net/i },
+
+  // Booking platforms
+  { name: 'Fresha', category: 'booking', assets: /fresha\.com|shedul\.com/i, links: /fresha\.com\/(?:[a-z]{2}\/)?(?:a|book-now|providers|lvp)\/[\w-]+/i },
+  { name: 'Treatwell', category: 'booking', assets: /treatwell\.(?:co\.uk|com|de|fr|es|it|nl|ie|at|ch|be)/i, links: /treatwell\.[a-z.]+\/(?:place|salon|ort|lieu|establecimiento|locale)\/[\w-]+/i },
+  { name: 'Booksy', category: 'booking', assets: /booksy\.com/i, links: /booksy\.com\/[a-z]{2}-[a-z]{2}\/\d+_[\w-]+/i },
+  { name: 'Vagaro', category: 'booking', assets: /vagaro\.com/i, links: /vagaro\.com\/(?!pro\b|blog\b|about\b|business\b)[a-z0-9]{3,}(?:\/book-now)?\/?(?=[?#\s]|$)/i },
+  { name: 'Phorest', category: 'booking', assets: /phorest\.com/i, links: /phorest\.com\/(?:book|salons?)\/[\w-]+/i },
+  { name: 'Timely', category: 'booking', assets: /gettimely\.com/i, links: /bookings\.gettimely\.com\/[\w-]+/i },
+  { name: 'Mindbody', category: 'booking', assets: /mindbodyonline\.com|healcode\.com/i, links: /clients\.mindbodyonline\.com\/|mindbodyonline\.com\/explore\/locations\/[\w-]+/i },
+  { name: 'Calendly', category: 'booking', assets: /calendly\.com/i, links: /calendly\.com\/(?!(?:blog|pricing|login|signup|features|resources|integrations)\b)[\w-]+/i },
+  { name: 'Acuity Scheduling', category: 'booking', assets: /acuityscheduling\.com|squarespacescheduling\.com/i, links: /app\.acuityscheduling\.com\/schedule|[\w-]+\.as\.me\b|squarespacescheduling\.com\/schedule/i },
+  { name: 'Setmore', category: 'booking', assets: /setmore\.com/i, links: /\/\/(?!www\.)[\w-]+\.setmore\.com|setmore\.com\/[\w-]+\/book/i },
+  { name: 'SimplyBook.me', category: 'booking', assets: /simplybook\.(?:me|it|cc)/i, links: /\/\/(?!www\.)[\w-]+\.simplybook\.(?:me|it|cc)/i },
+  { name: 'Square Appointments', category: 'booking', assets: /squareup\.com\/appointments|book\.squareup\.com/i, links: /squareup\.com\/appointments\/book|book\.squareup\.com/i },
+  { name: 'Schedulicity', category: 'booking', assets: /schedulicity\.com/i, links: /schedulicity\.com\/scheduling\/[\w-]+/i },
+  { name: 'Appointy', category: 'booking', assets: /appointy\.com/i, links: /\/\/(?!www\.)[\w-]+\.appointy\.com|booking\.appointy\.com/i },
+
+  // E-commerce
+  { name: 'Shopify', category: 'ecommerce', assets: /cdn\.shopify\.com|Shopify\.theme/i },
+  { name: 'WooCommerce', category: 'ecommerce', assets: /\/plugins\/woocommerce\/|wc-ajax/i, markup: /woocommerce/i },
+  { name: 'BigCommerce', category: 'ecommerce', assets: /cdn\d*\.bigcommerce\.com/i },
+  { name: 'Magento', category: 'ecommerce', assets: /mage\/cookies|Magento_|\/static\/version\d+\//i, markup: /data-mage-init/i },
+  { name: 'PrestaShop', category: 'ecommerce', assets: /\bvar prestashop\s*=|\/modules\/ps_[a-z]+\//i, generator: /prestashop/i },
+  { name: 'Ecwid', category: 'ecommerce', assets: /app\.ecwid\.com|\becwid_/i },
+  { name: 'Wix Stores', category: 'ecommerce', assets: /wixstores|ecom\.wixapps\.net/i },
+  { name: 'Square Online', category: 'ecommerce', assets: /square\.site|squareup\.com\/online/i },
+  { name: 'Stripe', category: 'ecommerce', assets: /js\.stripe\.com/i },
+
+  // Chat widgets
+  { name: 'Intercom', category: 'chat', assets: /widget\.intercom\.io|intercomcdn\.com/i },
+  { name: 'Drift', category: 'chat', assets: /js\.driftt\.com|drift\.com\/include/i },
+  { name: 'Tidio', category: 'chat', assets: /(?:code|widget)\.tidio\.co|tidiochat/i },
+  { name: 'LiveChat', category: 'chat', assets: /cdn\.livechatinc\.com/i },
+  { name: 'Tawk.to', category: 'chat', assets: /embed\.tawk\.to/i },
+  { name: 'Crisp', category: 'chat', assets: /client\.crisp\.chat/i },
+  { name: 'HubSpot Chat', category: 'chat', assets: /js\.usemessages\.com/i },
+  { name: 'Zendesk Chat', category: 'chat', assets: /static\.zdassets\.com|v2\.zopim\.com/i },
+  { name: 'Freshchat', category: 'chat', assets: /wchat\.freshchat\.com/i },
+  { name: 'Facebook Messenger', category: 'chat', assets: /customerchat\.js/i, markup: /fb-customerchat/i },
+  { name: 'WhatsApp', category: 'chat', links: /wa\.me\/\d|api\.whatsapp\.com\/send/i },
+
+  // Analytics and tag managers
+  { name: 'Google Analytics', category: 'analytics', assets: /google-analytics\.com\/(?:analytics|ga)\.js|gtag\/js\?id=(?:G|UA)-/i },
+  { name: 'Google Tag Manager', category: 'analytics', assets: /googletagmanager\.com\/gtm\.js|GTM-[A-Z0-9]{4,}/ },
+  { name: 'Hotjar', category: 'analytics', assets: /static\.hotjar\.com/i },
+  { name: 'Microsoft Clarity', category: 'analytics', assets: /clarity\.ms\/tag/i },
+  { name: 'Plausible', category: 'analytics', assets: /plausible\.io\/js/i },
+  { name: 'Matomo', category: 'analytics', assets: /matomo\.js|piwik\.js/i },
+  { name: 'Fathom', category: 'analytics', assets: /cdn\.usefathom\.com/i },
+  { name: 'Segment', category: 'analytics', assets: /cdn\.segment\.com/i },
+
+  // Marketing pixels
+  { name: 'Meta Pixel', category: 'pixels', assets: /connect\.facebook\.net\/[^"']*fbevents\.js|fbq\(['"]init/i },
+  { name: 'Google Ads', category: 'pixels', assets: /googleadservices\.com|gtag\/js\?id=AW-|['"]AW-\d+/i },
+  { name: 'TikTok Pixel', category: 'pixels', assets: /analytics\.tiktok\.com/i },
+  { name: 'LinkedIn Insight Tag', category: 'pixels', assets: /snap\.licdn\.com|_linkedin_partner_id/i },
+  { name: 'Pinterest Tag', category: 'pixels', assets: /s\.pinimg\.com\/ct|pintrk\(/i },
+  { name: 'Snap Pixel', category: 'pixels', assets: /sc-static\.net\/scevent/i },
+  { name: 'X Pixel', category: 'pixels', assets: /static\.ads-twitter\.com/i },
+  { name: 'Microsoft Ads', category: 'pixels', assets: /bat\.bing\.com/i },
+];
+
+interface PageEvidence {
+  assets: string;
+  generator: string;
+  markup: string;
+  links: string;
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+// The parts of a page that show what it runs on, leaving out its text
+function pageEvidence(html: string): PageEvidence {
+  const assets: string[] = [];
+  const generator: string[] = [];
+  const markup: string[] = Array.from(html.matchAll(/<!--([\s\S]*?)-->/g), m => m[1]);
+  const links: string[] = [];
+
+  for (const m of Array.from(html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi))) {
+    // JSON blocks can carry the page's own content, so only code is read
+    const type = attribute(m[0], 'type');
+    if (!type || /javascript|module/i.test(type)) assets.push(m[2]);
+  }
+  for (const tag of Array.from(html.replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, m => m.slice(0, m.indexOf('>') + 1)).matchAll(/<([a-z][a-z0-9-]*)\b[^>]*>/gi))) {
+    const [text, name] = tag;
+    const element = name.toLowerCase();
+    if (element === 'a') {
+      const href = attribute(text, 'href');
+      if (href) links.push(href);
+      continue;
+    }
+    if (element === 'meta') {
+      if (attribute(text, 'name')?.toLowerCase() === 'generator') generator.push(attribute(text, 'content') || '');
+      continue;
+    }
+    for (const source of ['src', 'href', 'data-src']) {
+      const url = attribute(text, source);
+      if (url) assets.push(url);
+    }
+    for (const attr of Array.from(text.matchAll(/\s([a-z][\w:.-]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/gi))) {
+      const attrName = attr[1].toLowerCase();
+      markup.push(attrName);
+      if (attrName === 'class' || attrName === 'id' || attrName.startsWith('data-')) markup.push(attr[2] ?? attr[3] ?? attr[4] ?? '');
+    }
+  }
+  return { assets: assets.join('\n'), generator: generator.join('\n'), markup: markup.join('\n'), links: links.join('\n') };
+}
+
+function shows(tech: Technology, page: PageEvidence): boolean {
+  return (['assets', 'generator', 'markup', 'links'] as const).some(kind => tech[kind]?.test(page[kind]) ?? false);
+}
+
+// Every technology the pages show signs of, by category; categories with none are left out.
+// A site's booking or contact page often carries the widget its homepage only links to.
+export function detectTech(pages: string[]): TechProfile {
+  const profile: TechProfile = {};
+  const evidence = pages.map(pageEvidence);
+  for (const tech of TECHNOLOGIES) {
+    if (!evidence.some(page => shows(tech, page))) continue;
+    const names = profile[tech.category] || [];
+    if (!names.includes(tech.name)) profile[tech.category] = [...names, tech.name];
+  }
+  return profile;
+}
+
+// The technologies in one category, for filters
+export function techInCategory(category: TechCategory): string[] {
+  return Array.from(new Set(TECHNOLOGIES.filter(t => t.category === category).map(t => t.name)));
+}
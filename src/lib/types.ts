@@ -4,14 +4,26 @@ export interface Lead {
   address: string | null;
   city: string | null;
   country: string | null;
-  phone: string | null;
+  phone: string | null; // E.164 where it could be parsed (lib/phone)
+  phone_type: PhoneType | null;
+  phone_whatsapp: boolean; // Mobile numbers only
   email: string | null;
+  email_status: EmailStatus | null; // Deliverability (lib/email-verification)
+  email_checks: EmailChecks | null;
+  email_verified_at: string | null;
   website: string | null;
   instagram_url: string | null;
+  social_profiles: SocialProfiles; // Every social account found, by platform (lib/social)
+  tech_profile: TechProfile | null; // From the latest audit; null until audited
   google_rating: number | null;
   google_review_count: number | null;
   google_maps_url: string | null;
-  source: 'google_maps' | 'yelp' | 'fresha' | 'yell' | 'yellow_pages' | 'bark' | 'csv_import';
+  latitude: number | null;
+  longitude: number | null;
+  address_parts: ParsedAddress | null;
+  opening_hours: string | null; // As the source writes them, e.g. "Mo-Fr 09:00-17:30" (OpenStreetMap) or "Monday: 9AM-5PM; ..." (Google)
+  source: string; // A registered lead source id (see lib/sources) or 'csv_import'
+  field_sources: FieldSources;
   lead_score: number | null;
   lead_grade: string | null;
   lead_priority: 'hot' | 'warm' | 'cold' | null;
@@ -30,11 +42,39 @@ export interface Lead {
   updated_at: string;
 }
 
+// People at a business: owners, managers and other decision makers (lib/contacts)
+export interface Contact {
+  id: string;
+  lead_id: string;
+  name: string | null;
+  role: string | null; // As written on the site or in the CSV: "Owner", "Practice Manager"
+  email: string | null;
+  phone: string | null;
+  linkedin_url: string | null;
+  source: string; // 'website_crawl' or 'csv_import'
+  is_primary: boolean; // The one outreach and the GHL push go to; at most one per lead
+  created_at: string;
+}
+
+export type ContactDetails = Pick<Contact, 'name' | 'role' | 'email' | 'phone' | 'linkedin_url' | 'source'>;
+
+export type SocialPlatform = 'instagram' | 'facebook' | 'tiktok' | 'linkedin' | 'youtube' | 'x';
+
+// Profile URL by platform
+export type SocialProfiles = Partial<Record<SocialPlatform, string>>;
+
+export type TechCategory = 'cms' | 'hosting' | 'booking' | 'ecommerce' | 'chat' | 'analytics' | 'pixels';
+
+// Technologies a site runs on, by category: { cms: ['Wix'], booking: ['Fresha'] } (lib/tech)
+export type TechProfile = Partial<Record<TechCategory, string[]>>;
+
 export interface AuditData {
   ssl_check: boolean | null;
   mobile_score: number | null;
   speed_score: number | null;
-  has_social_media: boolean | null;
+  has_social_media: boolean | null; // Any of social_platforms
+  social_platforms?: Record<SocialPlatform, boolean> | null; // Which networks the site links to; not in older audits
+  tech_profile?: TechProfile | null; // What the site is built and run on; not in older audits
   has_click_to_call: boolean | null;
   has_video: boolean | null;
   has_chatbot: boolean | null;
@@ -52,7 +92,9 @@ export interface Audit {
   ssl_check: boolean | null;
   mobile_score: number | null;
   speed_score: number | null;
-  has_social_media: boolean | null;
+  has_social_media: boolean | null; // Any of social_platforms
+  social_platforms?: Record<SocialPlatform, boolean> | null; // Which networks the site links to; not in older audits
+  tech_profile?: TechProfile | null; // What the site is built and run on; not in older audits
   has_click_to_call: boolean | null;
   has_video: boolean | null;
   has_chatbot: boolean | null;
@@ -106,6 +148,7 @@ export interface CompetitorData {
   strengths: string[];
   weaknesses: string[];
   rank: number;
+  social_platforms?: Record<SocialPlatform, boolean> | null; // Linked from their homepage; null when it couldn't be read
 }
 
 export interface ReviewsData {
@@ -164,7 +207,7 @@ export interface Settings {
 
 export interface ActivityLog {
   id: string;
-  action_type: 'scrape' | 'audit' | 'deep_audit' | 'ghl_push' | 'export' | 'score' | 'pitch';
+  action_type: 'scrape' | 'audit' | 'deep_audit' | 'ghl_push' | 'export' | 'score' | 'pitch' | 'enrich';
   description: string;
   lead_id: string | null;
   metadata: Record<string, unknown> | null;
@@ -182,6 +225,36 @@ export interface SearchHistory {
   created_at: string;
 }
 
+export interface SavedSearch {
+  id: string;
+  name: string;
+  niche: string;
+  location: string;
+  country: string;
+  source: string;
+  options: ScrapeOptions;
+  schedule: 'daily' | 'weekly';
+  mode: 'save' | 'flag'; // Save new businesses as leads, or keep them on the run for review
+  enabled: boolean;
+  last_run_at: string | null;
+  next_run_at: string;
+  created_at: string;
+}
+
+export interface SavedSearchRun {
+  id: string;
+  saved_search_id: string;
+  job_id: string | null;
+  status: 'running' | 'complete' | 'error';
+  results_count: number;
+  new_count: number;
+  saved_count: number;
+  new_businesses: ScrapeResult[];
+  error: string | null;
+  created_at: string;
+  finished_at: string | null;
+}
+
 export interface Pitch {
   id: string;
   lead_id: string;
@@ -245,7 +318,87 @@ export interface ScrapeRequest {
   niche: string;
   location: string;
   country: string;
-  source: 'google_maps' | 'yelp' | 'fresha' | 'yell' | 'yellow_pages' | 'bark' | 'all';
+  source: string; // A registered lead source id, or 'all'
+  options?: ScrapeOptions;
+}
+
+export interface ScrapeOptions {
+  exhaustive?: boolean; // Split the location into map tiles and query each (sources that support it)
+  maxResults?: number; // Credit ceiling for exhaustive searches
+  center?: { lat: number; lng: number } | null; // Radius searches: resolved centre point
+  centerLabel?: string; // What the centre was given as (postcode or "lat,lng")
+  radius?: number;
+  radiusUnit?: 'mi' | 'km';
+  forceRefresh?: boolean; // Skip the provider response cache (lib/provider-cache)
+  usage?: UsageContext; // Set by the job runner for the usage ledger; not stored
+}
+
+// Who a paid provider call was made for (lib/usage)
+export interface UsageContext {
+  leadId?: string | null;
+  jobId?: string | null;
+  searchId?: string | null;
+}
+
+export interface ScrapeJobSourceStatus {
+  status: 'pending' | 'running' | 'complete' | 'error';
+  count: number;
+  error: string | null;
+}
+
+export interface ScrapeJob {
+  id: string;
+  niche: string;
+  location: string;
+  country: string;
+  source: string;
+  options: ScrapeOptions;
+  status: 'queued' | 'running' | 'enriching' | 'complete' | 'error';
+  source_status: Record<string, ScrapeJobSourceStatus>;
+  results: ScrapeResult[];
+  excluded: ExcludedResult[]; // Results on an exclusion list (lib/exclusions), kept aside
+  checkpoint: ScrapeCheckpoint | null; // Progress through a tiled search, so a cut-off run can carry on
+  enrichment_stats: { withEmail: number; withPhone: number; withInstagram: number; withContacts?: number } | null;
+  search_id: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// How far a tiled search got: the tiles searched so far and what they found
+export interface TileProgress {
+  next_tile: number;
+  fetched: number; // Places returned (and billed) so far, duplicates included
+  seen: string[]; // Place keys already kept
+  results: ScrapeResult[];
+}
+
+export interface ScrapeCheckpoint {
+  source: string;
+  progress: TileProgress;
+  resumed_from: number | null; // next_tile when the job was last put back on the queue
+}
+
+export interface SourceQuery {
+  niche: string;
+  location: string;
+  country: string;
+  options: ScrapeOptions;
+  resume?: TileProgress | null; // Carry on a tiled search from here (sources that tile)
+  onProgress?: (progress: TileProgress) => Promise<void>; // Called after every tile
+}
+
+export interface SourceInfo {
+  id: string;
+  label: string;
+  color: string;
+  requiredKeys: string[];
+  countries: string[] | null; // null = works in any country
+}
+
+export interface LeadSource extends SourceInfo {
+  scrape: (query: SourceQuery) => Promise<ScrapeResult[]>;
 }
 
 export interface ScrapeResult {
@@ -260,7 +413,111 @@ export interface ScrapeResult {
   google_rating: number | null;
   google_review_count: number | null;
   google_maps_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  opening_hours: string | null;
   source: string;
+  result_id?: string; // Set by the job runner: stable through merges, for picking results while more arrive
+  field_sources?: FieldSources;
+  address_parts?: ParsedAddress | null; // Parsed by the job runner (lib/address)
+  phone_type?: PhoneType | null; // Set with the E.164 phone by the job runner (lib/phone)
+  phone_whatsapp?: boolean;
+  email_status?: EmailStatus | null; // Set when the job runner verifies the email (lib/email-verification)
+  email_checks?: EmailChecks | null;
+  email_verified_at?: string | null;
+  social_profiles?: SocialProfiles;
+  contacts?: ContactDetails[]; // Named people found on the site or in the CSV; saved to the contacts table
+}
+
+// Prospecting exclusion lists (lib/exclusions)
+export type ExclusionKind = 'domain' | 'phone' | 'name_pattern' | 'chain';
+
+export interface Exclusion {
+  id: string;
+  kind: ExclusionKind;
+  value: string;
+  note: string | null; // Why: "existing client", "asked not to be contacted", ...
+  created_at: string;
+}
+
+export interface ExcludedResult {
+  result: ScrapeResult;
+  reason: string;
+  exclusion_id: string;
+}
+
+// Search results labelled against saved leads before saving (lib/lead-matching)
+export type MatchStatus = 'new' | 'existing' | 'possible_duplicate';
+
+export type DiffField = 'phone' | 'email' | 'website' | 'instagram_url' | 'google_rating' | 'google_review_count' | 'address' | 'opening_hours' | 'google_maps_url';
+
+export interface FieldDiff {
+  field: DiffField;
+  current: string | number | null; // On the saved lead
+  incoming: string | number | null; // From the new scrape
+}
+
+export interface ResultMatch {
+  status: MatchStatus;
+  lead: { id: string; business_name: string; field_sources: FieldSources } | null; // The existing lead, or the one it may duplicate
+  diff: FieldDiff[]; // Existing leads only
+}
+
+// Batch lead writes through /api/leads/bulk (lib/lead-bulk). Parsed addresses, field
+// provenance and email verification are always worked out on the server, never taken from a row.
+export interface BulkLeadRow extends Partial<Omit<ScrapeResult, 'address_parts' | 'field_sources' | 'email_status' | 'email_checks' | 'email_verified_at'>> {
+  accept_fields?: DiffField[]; // Fields to take when the row is an existing lead; all changed fields if omitted
+}
+
+export interface BulkLeadRequest {
+  rows: BulkLeadRow[];
+  country?: string; // For rows without one; defaults to the settings' default country
+  source?: string; // For rows without one, e.g. 'csv_import'
+  search_id?: string | null;
+  on_existing?: 'skip' | 'update'; // What to do with rows that are already saved leads
+  description?: string; // Activity log entry; nothing is logged without one
+}
+
+export type BulkLeadStatus = 'inserted' | 'updated' | 'unchanged' | 'duplicate' | 'excluded' | 'invalid' | 'error';
+
+export interface BulkLeadOutcome {
+  status: BulkLeadStatus;
+  lead_id: string | null;
+  message: string | null;
+  exclusion_id: string | null;
+}
+
+// Email deliverability (lib/email-verification), worst finding first
+export type EmailStatus = 'invalid' | 'disposable' | 'catch_all' | 'role' | 'valid' | 'unknown';
+
+export interface EmailChecks {
+  syntax: boolean;
+  mx: boolean | null; // Domain has a mail server; null when DNS couldn't say
+  disposable: boolean;
+  role: boolean; // info@, bookings@, ...
+  catch_all: boolean | null; // Domain accepts any recipient; null when not probed
+}
+
+export type PhoneType = 'mobile' | 'landline' | 'toll_free' | 'voip' | 'other' | 'unknown';
+
+// Where each contact field on a lead came from (see lib/provenance)
+export type ProvenanceField = 'email' | 'phone' | 'website' | 'instagram_url' | 'google_rating';
+
+export interface FieldProvenance {
+  source: string; // Lead source id, 'website_crawl', 'enrich_api' or 'csv_import'
+  captured_at: string;
+  confidence: number; // 0–1
+}
+
+export type FieldSources = Partial<Record<ProvenanceField, FieldProvenance>>;
+
+// A one-line address split into parts (lib/address)
+export interface ParsedAddress {
+  street: string | null;
+  city: string | null;
+  region: string | null; // State, province or county where the address gives one
+  postcode: string | null;
+  country_code: string | null; // ISO 3166 alpha-2, lower case
 }
 
 export type SortDirection = 'asc' | 'desc';
@@ -276,6 +533,8 @@ export interface TableFilter {
   priority: string | null;
   scoreRange: [number, number] | null;
   auditStatus: string | null;
+  emailStatus: EmailStatus | 'not_verified' | null; // 'not_verified': an email that was never checked
+  tech: { category: TechCategory; name: string | null } | null; // A null name is audited sites with nothing in the category
 }
 
 export interface DashboardStats {
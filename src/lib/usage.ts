@@ -0,0 +1,81 @@
+import { supabase } from '@/lib/supabase';
+import type { UsageContext } from '@/lib/types';
+import { isSandbox } from '@/lib/sandbox';
+
+// ─── PROVIDER USAGE LEDGER ─────────────────────────────────────
+// Every paid outbound call is written to `provider_usage`: what it consumed,
+// roughly what it cost, which lead or search it was for, and whether it worked.
+// Cache hits never get here, so they cost nothing.
+
+export type UsageProvider = 'outscraper' | 'apify' | 'firecrawl' | 'dataforseo' | 'openai' | 'bing';
+
+// Estimated USD per unit at list price. Units: places (Outscraper), dataset
+// items (Apify), pages (Firecrawl), SERP tasks (DataForSEO), tokens (OpenAI),
+// transactions (Bing Maps).
+const UNIT_COST_USD: Record<UsageProvider, number> = {
+  outscraper: 0.003,
+  apify: 0.002,
+  firecrawl: 0.001,
+  dataforseo: 0.002,
+  openai: 0.0000006,
+  bing: 0.005,
+};
+
+export function estimateCost(provider: UsageProvider, units: number): number {
+  return units * UNIT_COST_USD[provider];
+}
+
+interface UsageEntry {
+  provider: UsageProvider;
+  endpoint: string;
+  units: number;
+  outcome: 'success' | 'error';
+  error?: string | null;
+}
+
+// Never throws: a ledger write that fails must not fail the call it describes.
+// Sandbox calls cost nothing and aren't recorded.
+async function recordUsage(entry: UsageEntry, context: UsageContext = {}): Promise<void> {
+  if (isSandbox()) return;
+  await supabase.from('provider_usage').insert({
+    provider: entry.provider,
+    endpoint: entry.endpoint,
+    units: entry.units,
+    cost_usd: estimateCost(entry.provider, entry.units),
+    outcome: entry.outcome,
+    error: entry.error || null,
+    lead_id: context.leadId || null,
+    job_id: context.jobId || null,
+    search_id: context.searchId || null,
+  });
+}
+
+// Run one paid call and record it. `unitsOf` counts what a successful response consumed;
+// a failed call is recorded with no units and the error is rethrown.
+export async function metered<T>(
+  provider: UsageProvider,
+  endpoint: string,
+  context: UsageContext | undefined,
+  call: () => Promise<T>,
+  unitsOf: (result: NoInfer<T>) => number = () => 1,
+): Promise<T> {
+  try {
+    const result = await call();
+    await recordUsage({ provider, endpoint, units: unitsOf(result), outcome: 'success' }, context);
+    return result;
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : `${provider} call failed`;
+    await recordUsage({ provider, endpoint, units: 0, outcome: 'error', error: message }, context);
+    throw err;
+  }
+}
+
+// Tokens used by an OpenAI chat completion response
+export function openAITokens(data: unknown): number {
+  return (data as { usage?: { total_tokens?: number } } | null)?.usage?.total_tokens || 0;
+}
+
+// Searches only get an id once their job finishes; attach it to the job's ledger rows
+export async function assignSearchToJobUsage(jobId: string, searchId: string): Promise<void> {
+  await supabase.from('provider_usage').update({ search_id: searchId }).eq('job_id', jobId);
+}
@@ -1,5 +1,7 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { getSourceMeta } from '@/lib/sources/meta';
+import type { EmailStatus, PhoneType } from '@/lib/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -19,18 +21,15 @@ export function getScoreBg(score: number): string {
   return 'bg-prospex-red/20 border-prospex-red/40';
 }
 
+// Lead origins that aren't scrape sources (so aren't in the source registry)
+const NON_SCRAPE_SOURCES: Record<string, { label: string; color: string }> = {
+  csv_import: { label: 'CSV Import', color: 'bg-gray-500/20 text-gray-400 border-gray-500/40' },
+};
+
 export function getSourceConfig(source: string): { label: string; color: string } {
-  const configs: Record<string, { label: string; color: string }> = {
-    google_maps: { label: 'Google Maps', color: 'bg-blue-500/20 text-blue-400 border-blue-500/40' },
-    yelp: { label: 'Yelp', color: 'bg-red-500/20 text-red-400 border-red-500/40' },
-    fresha: { label: 'Fresha', color: 'bg-green-500/20 text-green-400 border-green-500/40' },
-    yell: { label: 'Yell.com', color: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/40' },
-    yellow_pages: { label: 'Yellow Pages', color: 'bg-amber-500/20 text-amber-400 border-amber-500/40' },
-    bing_places: { label: 'Bing Places', color: 'bg-cyan-500/20 text-cyan-400 border-cyan-500/40' },
-    bark: { label: 'Bark.com', color: 'bg-purple-500/20 text-purple-400 border-purple-500/40' },
-    csv_import: { label: 'CSV Import', color: 'bg-gray-500/20 text-gray-400 border-gray-500/40' },
-  };
-  return configs[source] || { label: source, color: 'bg-gray-500/20 text-gray-400 border-gray-500/40' };
+  const registered = getSourceMeta(source);
+  if (registered) return { label: registered.label, color: registered.color };
+  return NON_SCRAPE_SOURCES[source] || { label: source, color: 'bg-gray-500/20 text-gray-400 border-gray-500/40' };
 }
 
 export function getPriorityConfig(priority: string): { label: string; emoji: string; bg: string; text: string; border: string } {
@@ -78,12 +77,31 @@ export function cleanPhone(phone: string): string {
   return phone.replace(/[^0-9+]/g, '');
 }
 
+// Expects an E.164 number (lib/phone); wa.me wants the digits with the country code
 export function getWhatsAppUrl(phone: string, message?: string): string {
   const cleaned = cleanPhone(phone).replace('+', '');
   const msg = message || 'Hi, I came across your business and wanted to reach out.';
   return `https://wa.me/${cleaned}?text=${encodeURIComponent(msg)}`;
 }
 
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+  mobile: 'Mobile',
+  landline: 'Landline',
+  toll_free: 'Toll-free',
+  voip: 'VoIP',
+  other: 'Other',
+  unknown: 'Unknown type',
+};
+
+export const EMAIL_STATUS_CONFIG: Record<EmailStatus, { label: string; color: string }> = {
+  valid: { label: 'Valid', color: 'bg-prospex-green/20 text-prospex-green border-prospex-green/40' },
+  role: { label: 'Role address', color: 'bg-prospex-cyan/20 text-prospex-cyan border-prospex-cyan/40' },
+  catch_all: { label: 'Catch-all', color: 'bg-prospex-amber/20 text-prospex-amber border-prospex-amber/40' },
+  disposable: { label: 'Disposable', color: 'bg-prospex-red/20 text-prospex-red border-prospex-red/40' },
+  invalid: { label: 'Invalid', color: 'bg-prospex-red/20 text-prospex-red border-prospex-red/40' },
+  unknown: { label: 'Unknown', color: 'bg-prospex-surface text-prospex-dim border-prospex-border' },
+};
+
 export function getInstagramDMUrl(instagramUrl: string): string {
   const handle = instagramUrl.replace(/https?:\/\/(www\.)?instagram\.com\/?/, '').replace(/\/$/, '');
   return `https://ig.me/m/${handle}`;
@@ -17,10 +17,22 @@ create table if not exists public.leads (
   email text,
   website text,
   instagram_url text,
+  social_profiles jsonb not null default '{}', -- profile URL by platform: { instagram, facebook, tiktok, linkedin, youtube, x } (src/lib/social)
+  tech_profile jsonb, -- technologies by category from the latest audit (src/lib/tech); null until audited
   google_rating numeric(2,1),
   google_review_count integer,
   google_maps_url text,
-  source text not null default 'google_maps' check (source in ('google_maps', 'yelp', 'fresha')),
+  latitude double precision,
+  longitude double precision,
+  phone_type text, -- mobile, landline, toll_free, voip, other or unknown (src/lib/phone); phone itself is E.164
+  phone_whatsapp boolean not null default false, -- mobiles only
+  email_status text, -- valid, role, catch_all, disposable, invalid or unknown (src/lib/email-verification)
+  email_checks jsonb, -- { syntax, mx, disposable, role, catch_all }
+  email_verified_at timestamptz,
+  address_parts jsonb, -- parsed address: { street, city, region, postcode, country_code } (src/lib/address)
+  opening_hours text, -- as the source gives them (OpenStreetMap syntax, or Google's per-day list)
+  source text not null default 'google_maps', -- lead source registry id (src/lib/sources) or 'csv_import'
+  field_sources jsonb not null default '{}', -- per-field provenance: { email: { source, captured_at, confidence }, ... }
   lead_score integer,
   lead_grade text,
   lead_priority text check (lead_priority in ('hot', 'warm', 'cold')),
@@ -45,6 +57,8 @@ create table if not exists public.audits (
   mobile_score integer,
   speed_score integer,
   has_social_media boolean,
+  social_platforms jsonb, -- { facebook: true, tiktok: false, ... }: which networks the site links to
+  tech_profile jsonb, -- { cms: ['Wix'], booking: ['Fresha'], ... }: what the site is built and run on (src/lib/tech)
   has_click_to_call boolean,
   has_video boolean,
   has_chatbot boolean,
@@ -103,7 +117,7 @@ create table if not exists public.settings (
 -- ─── ACTIVITY LOG TABLE ──────────────────────────────────────
 create table if not exists public.activity_log (
   id uuid default uuid_generate_v4() primary key,
-  action_type text not null check (action_type in ('scrape', 'audit', 'deep_audit', 'ghl_push', 'export', 'score', 'pitch')),
+  action_type text not null check (action_type in ('scrape', 'audit', 'deep_audit', 'ghl_push', 'export', 'score', 'pitch', 'enrich')),
   description text not null,
   lead_id uuid references public.leads(id) on delete set null,
   metadata jsonb,
@@ -150,6 +164,8 @@ create index if not exists idx_leads_lead_priority on public.leads(lead_priority
 create index if not exists idx_leads_created_at on public.leads(created_at);
 create index if not exists idx_leads_business_name on public.leads(business_name);
 create index if not exists idx_leads_search_id on public.leads(search_id);
+create index if not exists idx_leads_email_status on public.leads(email_status);
+create index if not exists idx_leads_tech_profile on public.leads using gin (tech_profile);
 create index if not exists idx_audits_lead_id on public.audits(lead_id);
 create index if not exists idx_deep_audits_lead_id on public.deep_audits(lead_id);
 create index if not exists idx_activity_log_lead_id on public.activity_log(lead_id);
@@ -173,3 +189,276 @@ create policy "Allow all on settings" on public.settings for all using (true) wi
 create policy "Allow all on activity_log" on public.activity_log for all using (true) with check (true);
 create policy "Allow all on search_history" on public.search_history for all using (true) with check (true);
 create policy "Allow all on pitches" on public.pitches for all using (true) with check (true);
+
+
+-- ============================================================
+-- UPGRADES — run these on existing databases
+-- ============================================================
+
+-- Lead sources are defined in code (src/lib/sources), not in a check constraint
+alter table public.leads drop constraint if exists leads_source_check;
+
+-- Coordinates for radius searches
+alter table public.leads add column if not exists latitude double precision;
+alter table public.leads add column if not exists longitude double precision;
+
+-- Per-field provenance (source, capture time, confidence) for contact fields
+alter table public.leads add column if not exists field_sources jsonb not null default '{}';
+
+-- Phone line type and WhatsApp capability; phones are stored as E.164
+alter table public.leads add column if not exists phone_type text;
+alter table public.leads add column if not exists phone_whatsapp boolean not null default false;
+
+-- Structured address (street, city, region, postcode, country code) parsed from the scraped address
+alter table public.leads add column if not exists address_parts jsonb;
+
+-- Opening hours from sources that have them (OpenStreetMap, Google Maps)
+alter table public.leads add column if not exists opening_hours text;
+
+-- Email deliverability: status, the individual checks, and when they ran
+alter table public.leads add column if not exists email_status text;
+alter table public.leads add column if not exists email_checks jsonb;
+alter table public.leads add column if not exists email_verified_at timestamptz;
+create index if not exists idx_leads_email_status on public.leads(email_status);
+
+-- Social profiles by platform, and per-platform presence in website audits
+alter table public.leads add column if not exists social_profiles jsonb not null default '{}';
+alter table public.audits add column if not exists social_platforms jsonb;
+
+-- Website enrichment is logged as its own action
+alter table public.activity_log drop constraint if exists activity_log_action_type_check;
+alter table public.activity_log add constraint activity_log_action_type_check
+  check (action_type in ('scrape', 'audit', 'deep_audit', 'ghl_push', 'export', 'score', 'pitch', 'enrich'));
+
+-- Website technology profile (CMS, hosting, booking, e-commerce, chat, analytics, pixels), filterable by containment
+alter table public.leads add column if not exists tech_profile jsonb;
+alter table public.audits add column if not exists tech_profile jsonb;
+create index if not exists idx_leads_tech_profile on public.leads using gin (tech_profile);
+
+-- ─── SCRAPE JOBS TABLE ──────────────────────────────────────
+-- Background searches: per-source progress and partial results, polled by the search page
+create table if not exists public.scrape_jobs (
+  id uuid default uuid_generate_v4() primary key,
+  niche text not null,
+  location text not null,
+  country text,
+  source text not null,
+  options jsonb not null default '{}'::jsonb,
+  status text not null default 'queued' check (status in ('queued', 'running', 'enriching', 'complete', 'error')),
+  source_status jsonb not null default '{}'::jsonb,
+  results jsonb not null default '[]'::jsonb,
+  excluded jsonb not null default '[]'::jsonb, -- results on an exclusion list: [{ result, reason, exclusion_id }]
+  checkpoint jsonb, -- how far a tiled search got: { source, progress, resumed_from }
+  enrichment_stats jsonb,
+  search_id uuid references public.search_history(id) on delete set null,
+  error text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  finished_at timestamptz
+);
+create index if not exists idx_scrape_jobs_status on public.scrape_jobs(status);
+create index if not exists idx_scrape_jobs_created_at on public.scrape_jobs(created_at);
+alter table public.scrape_jobs enable row level security;
+create policy "Allow all on scrape_jobs" on public.scrape_jobs for all using (true) with check (true);
+-- Upgrade: existing scrape_jobs tables
+alter table public.scrape_jobs add column if not exists excluded jsonb not null default '[]'::jsonb;
+alter table public.scrape_jobs add column if not exists checkpoint jsonb;
+
+-- ─── SAVED SEARCHES ─────────────────────────────────────────
+-- Searches rerun on a schedule (GET /api/saved-searches/run from a cron); each run
+-- keeps only businesses that aren't already leads
+create table if not exists public.saved_searches (
+  id uuid default uuid_generate_v4() primary key,
+  name text not null,
+  niche text not null,
+  location text not null,
+  country text not null,
+  source text not null default 'all',
+  options jsonb not null default '{}',
+  schedule text not null default 'weekly' check (schedule in ('daily', 'weekly')),
+  mode text not null default 'flag' check (mode in ('save', 'flag')),
+  enabled boolean not null default true,
+  last_run_at timestamptz,
+  next_run_at timestamptz not null default now(),
+  created_at timestamptz default now()
+);
+
+create table if not exists public.saved_search_runs (
+  id uuid default uuid_generate_v4() primary key,
+  saved_search_id uuid references public.saved_searches(id) on delete cascade,
+  job_id uuid references public.scrape_jobs(id) on delete set null,
+  status text not null default 'running' check (status in ('running', 'complete', 'error')),
+  results_count integer default 0,
+  new_count integer default 0,
+  saved_count integer default 0,
+  new_businesses jsonb not null default '[]',
+  error text,
+  created_at timestamptz default now(),
+  finished_at timestamptz
+);
+
+create index if not exists idx_saved_searches_next_run_at on public.saved_searches(next_run_at);
+create index if not exists idx_saved_search_runs_saved_search_id on public.saved_search_runs(saved_search_id);
+alter table public.saved_searches enable row level security;
+alter table public.saved_search_runs enable row level security;
+create policy "Allow all on saved_searches" on public.saved_searches for all using (true) with check (true);
+create policy "Allow all on saved_search_runs" on public.saved_search_runs for all using (true) with check (true);
+
+-- ─── PROVIDER CACHE ─────────────────────────────────────────
+-- Paid provider responses keyed by provider + hash of the normalised request;
+-- rows past expires_at are ignored and overwritten on the next fetch
+create table if not exists public.provider_cache (
+  key text primary key,
+  provider text not null,
+  response jsonb,
+  created_at timestamptz default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists idx_provider_cache_expires_at on public.provider_cache(expires_at);
+alter table public.provider_cache enable row level security;
+create policy "Allow all on provider_cache" on public.provider_cache for all using (true) with check (true);
+
+-- ─── PROVIDER USAGE ─────────────────────────────────────────
+-- One row per paid outbound call (lib/usage); cost_usd is an estimate at list price.
+-- search_id is filled in when the scrape job that made the call finishes.
+create table if not exists public.provider_usage (
+  id uuid default uuid_generate_v4() primary key,
+  provider text not null,
+  endpoint text not null,
+  units numeric not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  outcome text not null check (outcome in ('success', 'error')),
+  error text,
+  lead_id uuid references public.leads(id) on delete set null,
+  job_id uuid references public.scrape_jobs(id) on delete set null,
+  search_id uuid references public.search_history(id) on delete set null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_provider_usage_created_at on public.provider_usage(created_at);
+create index if not exists idx_provider_usage_lead_id on public.provider_usage(lead_id);
+create index if not exists idx_provider_usage_job_id on public.provider_usage(job_id);
+create index if not exists idx_provider_usage_search_id on public.provider_usage(search_id);
+alter table public.provider_usage enable row level security;
+create policy "Allow all on provider_usage" on public.provider_usage for all using (true) with check (true);
+
+-- Spend rollups for the analytics page
+create or replace view public.provider_spend_daily as
+  select date_trunc('day', created_at)::date as day, provider, count(*) as calls, sum(units) as units, sum(cost_usd) as cost_usd
+  from public.provider_usage group by 1, 2;
+
+create or replace view public.provider_spend_by_search as
+  select u.search_id, h.niche, h.location, h.country, h.created_at, count(*) as calls, sum(u.cost_usd) as cost_usd
+  from public.provider_usage u join public.search_history h on h.id = u.search_id
+  group by u.search_id, h.niche, h.location, h.country, h.created_at;
+
+-- Cost of finding each closed deal: its own calls plus an even share of the search it came from
+create or replace view public.provider_spend_by_closed_deal as
+  with search_cost as (
+    select search_id, sum(cost_usd) as cost_usd from public.provider_usage where search_id is not null group by search_id
+  ), search_leads as (
+    select search_id, count(*) as leads from public.leads where search_id is not null group by search_id
+  ), lead_cost as (
+    select lead_id, sum(cost_usd) as cost_usd from public.provider_usage where lead_id is not null group by lead_id
+  )
+  select l.id as lead_id, l.business_name, l.updated_at,
+    coalesce(lc.cost_usd, 0) as lead_cost_usd,
+    coalesce(sc.cost_usd / nullif(sl.leads, 0), 0) as search_share_usd,
+    coalesce(lc.cost_usd, 0) + coalesce(sc.cost_usd / nullif(sl.leads, 0), 0) as cost_usd
+  from public.leads l
+  left join lead_cost lc on lc.lead_id = l.id
+  left join search_cost sc on sc.search_id = l.search_id
+  left join search_leads sl on sl.search_id = l.search_id
+  where l.pipeline_stage = 'closed';
+
+-- ─── EXCLUSION LISTS ────────────────────────────────────────
+-- Businesses never to prospect (src/lib/exclusions): existing clients, chains, do-not-contact
+create table if not exists public.exclusions (
+  id uuid default uuid_generate_v4() primary key,
+  kind text not null check (kind in ('domain', 'phone', 'name_pattern', 'chain')),
+  value text not null,
+  note text,
+  created_at timestamptz default now(),
+  unique (kind, value)
+);
+alter table public.exclusions enable row level security;
+create policy "Allow all on exclusions" on public.exclusions for all using (true) with check (true);
+
+-- ─── CONTACTS ───────────────────────────────────────────────
+-- Named people at a lead (src/lib/contacts): owners, managers and other decision makers,
+-- from team and about pages or CSV columns. The primary one gets outreach and the GHL push.
+create table if not exists public.contacts (
+  id uuid default uuid_generate_v4() primary key,
+  lead_id uuid references public.leads(id) on delete cascade not null,
+  name text,
+  role text,
+  email text,
+  phone text,
+  linkedin_url text,
+  source text not null, -- 'website_crawl' or 'csv_import'
+  is_primary boolean default false not null,
+  created_at timestamptz default now()
+);
+create index if not exists idx_contacts_lead_id on public.contacts(lead_id);
+create unique index if not exists idx_contacts_primary on public.contacts(lead_id) where is_primary;
+alter table public.contacts enable row level security;
+create policy "Allow all on contacts" on public.contacts for all using (true) with check (true);
+
+-- ─── BULK LEAD UPSERT ───────────────────────────────────────
+-- One batch from /api/leads/bulk (src/lib/lead-bulk), all or nothing. Only the columns
+-- present in each object are written, so omitted ones keep their defaults or current values.
+-- new_leads: [{column: value}], lead_updates: [{id, changes: {column: value}}]; returns the new ids in order.
+-- new_contacts: [{lead_index | lead_id, name, role, email, phone, linkedin_url, source, is_primary}], where
+-- lead_index points into new_leads. People the lead already has (same email or name) are skipped.
+-- primary_contacts: [contact id], saved contacts chosen as their lead's primary from old and new together.
+-- Either kind of primary only takes effect on a lead without a primary contact.
+drop function if exists public.bulk_upsert_leads(jsonb, jsonb);
+drop function if exists public.bulk_upsert_leads(jsonb, jsonb, jsonb);
+create or replace function public.bulk_upsert_leads(
+  new_leads jsonb,
+  lead_updates jsonb,
+  new_contacts jsonb default '[]'::jsonb,
+  primary_contacts jsonb default '[]'::jsonb
+)
+returns jsonb
+language plpgsql
+as $$
+declare
+  item jsonb;
+  cols text;
+  sets text;
+  new_id uuid;
+  contact_lead uuid;
+  inserted jsonb := '[]'::jsonb;
+begin
+  for item in select value from jsonb_array_elements(new_leads) loop
+    select string_agg(format('%I', key), ', ') into cols from jsonb_object_keys(item) as key;
+    execute format('insert into public.leads (%s) select %s from jsonb_populate_record(null::public.leads, $1) returning id', cols, cols)
+      using item into new_id;
+    inserted := inserted || to_jsonb(new_id);
+  end loop;
+  for item in select value from jsonb_array_elements(lead_updates) loop
+    select string_agg(format('%1$I = r.%1$I', key), ', ') into sets from jsonb_object_keys(item->'changes') as key;
+    execute format('update public.leads set %s from jsonb_populate_record(null::public.leads, $1) r where leads.id = $2', sets)
+      using item->'changes', (item->>'id')::uuid;
+  end loop;
+  update public.contacts c set is_primary = true
+  where c.id in (select (value #>> '{}')::uuid from jsonb_array_elements(primary_contacts))
+    and not exists (select 1 from public.contacts p where p.lead_id = c.lead_id and p.is_primary);
+  for item in select value from jsonb_array_elements(new_contacts) loop
+    contact_lead := coalesce((item->>'lead_id')::uuid, (inserted->>((item->>'lead_index')::int))::uuid);
+    continue when exists (
+      select 1 from public.contacts c
+      where c.lead_id = contact_lead and (lower(c.email) = lower(item->>'email') or lower(c.name) = lower(item->>'name'))
+    );
+    insert into public.contacts (lead_id, name, role, email, phone, linkedin_url, source, is_primary)
+    values (
+      contact_lead, item->>'name', item->>'role', item->>'email', item->>'phone', item->>'linkedin_url', item->>'source',
+      coalesce((item->>'is_primary')::boolean, false)
+        and not exists (select 1 from public.contacts c where c.lead_id = contact_lead and c.is_primary)
+    );
+  end loop;
+  return inserted;
+end;
+$$;